@@ -9,7 +9,7 @@
 //   ZEROEVAL_DEBUG=true VAPI_API_KEY=... ZEROEVAL_API_KEY=... npm run example:vapi
 //
 // This example shows:
-// - How to use ze.prompt() to version system prompts for Vapi
+// - How to use ze.getPrompt() to version system prompts for Vapi
 // - How to create LLM-like spans for Vapi calls (since Vapi makes LLM calls internally)
 // - How to send feedback for prompt optimization using the span ID as completionId
 //
@@ -18,7 +18,6 @@
 
 import { VapiClient } from '@vapi-ai/server-sdk';
 import * as ze from 'zeroeval';
-import type { PromptMetadata } from 'zeroeval';
 
 // Initialize ZeroEval
 ze.init({ apiUrl: 'http://localhost:8000' });
@@ -28,18 +27,6 @@ const vapi = new VapiClient({
   token: process.env.VAPI_API_KEY || '',
 });
 
-/**
- * Helper to extract clean content and metadata from a decorated prompt.
- * Returns both the clean content for Vapi and the metadata for span linking.
- */
-function parseDecoratedPrompt(decoratedPrompt: string): {
-  cleanContent: string;
-  metadata: PromptMetadata | null;
-} {
-  const { cleanContent, metadata } = ze.extractZeroEvalMetadata(decoratedPrompt);
-  return { cleanContent, metadata };
-}
-
 async function main() {
   console.log('=== ZeroEval + Vapi Integration Example ===\n');
 
@@ -51,7 +38,7 @@ async function main() {
 
   // Step 1: Get a versioned system prompt from ZeroEval
   // This registers the prompt in ZeroEval's Prompt Library for optimization
-  const decoratedSystemPrompt = await ze.prompt({
+  const systemPrompt = await ze.getPrompt({
     name: 'vapi-customer-support',
     content: `You are a friendly phone support assistant for TechCorp.
 Your goal is to help customers with their technical issues.
@@ -62,17 +49,17 @@ If you cannot help, offer to transfer to a human agent.`,
 
   console.log('Registered prompt version in ZeroEval Prompt Library');
 
-  // Step 2: Extract clean content AND metadata
-  // - cleanContent goes to Vapi (no <zeroeval> tags)
+  // Step 2: Use the rendered content AND metadata
+  // - renderedContent goes to Vapi (no <zeroeval> tags)
   // - metadata goes into span attributes (links span to prompt for feedback)
-  const { cleanContent: cleanSystemPrompt, metadata: promptMetadata } =
-    parseDecoratedPrompt(decoratedSystemPrompt);
+  const cleanSystemPrompt = systemPrompt.renderedContent;
+  const promptMetadata = systemPrompt.metadata;
 
   console.log('System prompt (clean):', cleanSystemPrompt.substring(0, 100) + '...');
   console.log('Prompt metadata:', JSON.stringify(promptMetadata, null, 2));
 
   // Verify we have the necessary metadata for feedback
-  if (!promptMetadata?.prompt_version_id) {
+  if (!promptMetadata.prompt_version_id) {
     console.log('\nWARNING: prompt_version_id is missing from metadata.');
     console.log('This may affect feedback linkage. The backend might need this to link spans to prompts.');
   }
@@ -116,7 +103,7 @@ If you cannot help, offer to transfer to a human agent.`,
   // IMPORTANT: To link a span to a prompt for feedback, the span must have:
   // - attributes.kind = 'llm'
   // - attributes.task = <prompt name>
-  // - attributes.zeroeval = <full metadata object from ze.prompt()>
+  // - attributes.zeroeval = <full metadata object from ze.getPrompt()>
   let callSpanId: string | undefined;
 
   // Structure the conversation as proper chat messages
@@ -140,9 +127,9 @@ If you cannot help, offer to transfer to a human agent.`,
   const spanZeroEvalMetadata = {
     ...promptMetadata,
     // Ensure task is set (same as prompt name/slug)
-    task: promptMetadata?.task || 'vapi-customer-support',
+    task: promptMetadata.task || 'vapi-customer-support',
     // Add prompt_slug explicitly if not present
-    prompt_slug: promptMetadata?.prompt_slug || promptMetadata?.task || 'vapi-customer-support',
+    prompt_slug: promptMetadata.prompt_slug || promptMetadata.task || 'vapi-customer-support',
   };
 
   console.log('Span zeroeval metadata:', JSON.stringify(spanZeroEvalMetadata, null, 2));
@@ -242,7 +229,7 @@ If you cannot help, offer to transfer to a human agent.`,
   console.log('---------------------------------------------------');
 
   // You can use template variables to customize prompts per customer/scenario
-  const templatePrompt = await ze.prompt({
+  const templatePrompt = await ze.getPrompt({
     name: 'vapi-personalized-support',
     content: `You are a {{tone}} phone support assistant for {{company}}.
 You are speaking with {{customerName}}, a {{customerTier}} member.
@@ -257,8 +244,7 @@ Keep responses under 40 words.`,
     },
   });
 
-  const { cleanContent: cleanTemplatePrompt } = parseDecoratedPrompt(templatePrompt);
-  console.log('Personalized prompt:', cleanTemplatePrompt.substring(0, 150) + '...\n');
+  console.log('Personalized prompt:', templatePrompt.renderedContent.substring(0, 150) + '...\n');
 
   // ==========================================================================
   // Cleanup
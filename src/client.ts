@@ -0,0 +1,220 @@
+/**
+ * Isolated ZeroEval client. Each instance has its own credentials, tracer,
+ * span/signal writers and prompt cache, so one process can report to
+ * several workspaces. The top-level `ze.*` functions use a default client
+ * configured by `ze.init()` and the ZEROEVAL_* environment variables.
+ */
+
+import { Tracer, tracer as defaultTracer } from './observability/Tracer';
+import type {
+  ConfigureOptions,
+  FlushOptions,
+  WaitUntil,
+} from './observability/Tracer';
+import type { Span } from './observability/Span';
+import { runWithSpan } from './observability/spanDecorator';
+import type { SpanOptions } from './observability/spanDecorator';
+import { PromptClient, getPromptClient } from './observability/promptClient';
+import type {
+  PromptChangeListener,
+  PromptWatchOptions,
+} from './observability/promptClient';
+import type { Signal, SignalCreate } from './observability/signals';
+import { SignalClient } from './signals';
+import { loadPrompt, resolvePrompt } from './prompt';
+import type { ResolvedPrompt } from './prompt';
+import { postFeedback } from './feedback';
+import type { SendFeedbackOptions } from './feedback';
+import type { PromptFeedbackResponse, PromptOptions } from './types/prompt';
+import type { ApiConfig } from './utils/api';
+import { getEnv } from './utils/runtime';
+import type { TraceTarget } from './observability/traceTarget';
+import type {
+  PromptSnapshot,
+  PullPromptsOptions,
+} from './observability/promptSnapshot';
+
+export interface ZeroEvalOptions
+  extends ApiConfig,
+    Omit<ConfigureOptions, 'integrations'> {
+  workspaceName?: string;
+  /** See InitOptions.applyPromptSettings */
+  applyPromptSettings?: boolean;
+  /** See InitOptions.promptSnapshot */
+  promptSnapshot?: PromptSnapshot | string;
+}
+
+export class ZeroEval {
+  readonly tracer: Tracer;
+  readonly promptClient: PromptClient;
+
+  private readonly api: ApiConfig;
+  private readonly signals: SignalClient;
+  private readonly _workspaceName?: string;
+
+  /**
+   * @param shared - Tracer and prompt client to use as they are, for the
+   *   default client; `options` then only sets credentials
+   * @internal
+   */
+  constructor(options: ZeroEvalOptions = {}, shared?: TraceTarget) {
+    const {
+      apiKey,
+      apiUrl,
+      workspaceName,
+      applyPromptSettings = true,
+      promptSnapshot,
+      ...config
+    } = options;
+
+    this.api = { apiKey, apiUrl };
+    this._workspaceName = workspaceName;
+    if (shared) {
+      this.tracer = shared.tracer;
+      this.promptClient = shared.promptClient;
+    } else {
+      // integrations patch modules process-wide and stay on the default tracer
+      this.tracer = new Tracer({ ...this.api, setupIntegrations: false });
+      this.tracer.configure(config);
+      this.promptClient = new PromptClient(this.api);
+      this.promptClient.setApplyPromptSettings(applyPromptSettings);
+      this.promptClient.setSnapshot(promptSnapshot);
+    }
+    this.signals = new SignalClient(this.tracer);
+  }
+
+  /** Unset, it falls back to ZEROEVAL_WORKSPACE_NAME like the credentials */
+  get workspaceName(): string {
+    return (
+      this._workspaceName ??
+      getEnv('ZEROEVAL_WORKSPACE_NAME') ??
+      'Personal Workspace'
+    );
+  }
+
+  /* TRACING ---------------------------------------------------------------*/
+  startSpan(name: string, opts: Parameters<Tracer['startSpan']>[1] = {}): Span {
+    return this.tracer.startSpan(name, opts);
+  }
+
+  endSpan(span: Span): void {
+    this.tracer.endSpan(span);
+  }
+
+  withSpan<T>(
+    opts: SpanOptions,
+    fn: (span: Span) => Promise<T> | T
+  ): Promise<T> | T {
+    return runWithSpan(this.tracer, opts, fn);
+  }
+
+  getCurrentSpan(): Span | undefined {
+    return this.tracer.currentSpan();
+  }
+
+  /* SIGNALS ---------------------------------------------------------------*/
+  sendSignal(
+    entityType: 'session' | 'trace' | 'span' | 'completion',
+    entityId: string,
+    name: string,
+    value: string | boolean | number,
+    signalType?: 'boolean' | 'numerical'
+  ): Promise<void> {
+    return this.signals.sendSignal(
+      entityType,
+      entityId,
+      name,
+      value,
+      signalType
+    );
+  }
+
+  sendBulkSignals(signals: SignalCreate[]): Promise<void> {
+    return this.signals.sendBulkSignals(signals);
+  }
+
+  sendTraceSignal(
+    name: string,
+    value: string | boolean | number,
+    signalType?: 'boolean' | 'numerical'
+  ): void {
+    this.signals.sendTraceSignal(name, value, signalType);
+  }
+
+  sendSessionSignal(
+    name: string,
+    value: string | boolean | number,
+    signalType?: 'boolean' | 'numerical'
+  ): void {
+    this.signals.sendSessionSignal(name, value, signalType);
+  }
+
+  sendSpanSignal(
+    name: string,
+    value: string | boolean | number,
+    signalType?: 'boolean' | 'numerical'
+  ): void {
+    this.signals.sendSpanSignal(name, value, signalType);
+  }
+
+  getEntitySignals(
+    entityType: 'session' | 'trace' | 'span' | 'completion',
+    entityId: string
+  ): Promise<Signal[]> {
+    return this.signals.getEntitySignals(entityType, entityId);
+  }
+
+  /* PROMPTS ---------------------------------------------------------------*/
+  prompt(options: PromptOptions): Promise<string> {
+    return resolvePrompt(this.promptClient, options);
+  }
+
+  getPrompt(options: PromptOptions): Promise<ResolvedPrompt> {
+    return loadPrompt(this.promptClient, options);
+  }
+
+  onPromptChange(
+    name: string,
+    listener: PromptChangeListener,
+    options: PromptWatchOptions = {}
+  ): () => void {
+    return this.promptClient.onPromptChange(name, listener, options);
+  }
+
+  readonly prompts = {
+    pull: (options: PullPromptsOptions): Promise<PromptSnapshot> =>
+      this.promptClient.pull(options),
+  };
+
+  sendFeedback(options: SendFeedbackOptions): Promise<PromptFeedbackResponse> {
+    return postFeedback(this.api, options, this.tracer.redactor);
+  }
+
+  /* LIFECYCLE -------------------------------------------------------------*/
+  flush(opts: FlushOptions = {}): Promise<boolean> {
+    return this.tracer.flush(opts);
+  }
+
+  flushInBackground(waitUntil: WaitUntil, opts: FlushOptions = {}): void {
+    this.tracer.flushInBackground(waitUntil, opts);
+  }
+
+  shutdown(opts: FlushOptions = {}): Promise<boolean> {
+    this.promptClient.close();
+    return this.tracer.shutdown(opts);
+  }
+}
+
+let defaultClient: ZeroEval | undefined;
+
+/**
+ * The client behind the top-level `ze.*` functions, created on first use
+ * around the default tracer (`ze.tracer`) and prompt cache. `ze.init()`
+ * configures it.
+ */
+export function getDefaultClient(): ZeroEval {
+  return (defaultClient ??= new ZeroEval(
+    {},
+    { tracer: defaultTracer, promptClient: getPromptClient() }
+  ));
+}
@@ -9,7 +9,10 @@ import type {
 } from './types/prompt';
 import { PromptRequestError } from './errors';
 import { getLogger } from './observability/logger';
+import type { Redactor } from './observability/redaction';
 import { getApiUrl, getApiKey } from './utils/api';
+import type { ApiConfig } from './utils/api';
+import { getDefaultClient } from './client';
 
 const logger = getLogger('zeroeval.feedback');
 
@@ -69,6 +72,15 @@ export interface SendFeedbackOptions {
  */
 export async function sendFeedback(
   options: SendFeedbackOptions
+): Promise<PromptFeedbackResponse> {
+  return getDefaultClient().sendFeedback(options);
+}
+
+/** sendFeedback() with explicit credentials and redaction */
+export async function postFeedback(
+  config: ApiConfig,
+  options: SendFeedbackOptions,
+  redactor?: Redactor
 ): Promise<PromptFeedbackResponse> {
   const {
     promptSlug,
@@ -82,7 +94,7 @@ export async function sendFeedback(
     scoreDirection,
   } = options;
 
-  const url = `${getApiUrl()}/v1/prompts/${encodeURIComponent(promptSlug)}/completions/${completionId}/feedback`;
+  const url = `${getApiUrl(config)}/v1/prompts/${encodeURIComponent(promptSlug)}/completions/${completionId}/feedback`;
 
   logger.debug(
     `[ZeroEval] Sending feedback for completion_id=${completionId}, prompt_slug=${promptSlug}`
@@ -94,13 +106,17 @@ export async function sendFeedback(
   };
 
   if (reason !== undefined) {
-    body.reason = reason;
+    body.reason = (await redactor?.redactString(reason, 'reason')) ?? reason;
   }
   if (expectedOutput !== undefined) {
-    body.expected_output = expectedOutput;
+    body.expected_output =
+      (await redactor?.redactString(expectedOutput, 'expected_output')) ??
+      expectedOutput;
   }
   if (metadata !== undefined) {
-    body.metadata = metadata;
+    body.metadata = redactor
+      ? ((await redactor.redactValue(metadata)) as Record<string, unknown>)
+      : metadata;
   }
   if (judgeId !== undefined) {
     body.judge_id = judgeId;
@@ -115,7 +131,7 @@ export async function sendFeedback(
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
   };
-  const apiKey = getApiKey();
+  const apiKey = getApiKey(config);
   if (apiKey) {
     headers.Authorization = `Bearer ${apiKey}`;
   }
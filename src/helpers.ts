@@ -1,19 +1,19 @@
-import { tracer } from './observability/Tracer';
 import type { Span } from './observability/Span';
+import { getDefaultClient } from './client';
 
 /** Return the current active Span (or undefined). */
 export function getCurrentSpan(): Span | undefined {
-  return tracer.currentSpan();
+  return getDefaultClient().getCurrentSpan();
 }
 
 /** Return the current trace ID (or undefined). */
 export function getCurrentTrace(): string | undefined {
-  return tracer.currentSpan()?.traceId;
+  return getCurrentSpan()?.traceId;
 }
 
 /** Return the current session ID (or undefined). */
 export function getCurrentSession(): string | undefined {
-  return tracer.currentSpan()?.sessionId;
+  return getCurrentSpan()?.sessionId;
 }
 
 /** Attach tags to a span / trace / session following Python SDK semantics. */
@@ -28,6 +28,7 @@ export function setTag(
     Object.assign(target.tags, tags);
   } else {
     // Heuristic: first check active trace ids
+    const { tracer } = getDefaultClient();
     if (tracer.isActiveTrace(target)) {
       tracer.addTraceTags(target, tags);
     } else {
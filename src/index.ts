@@ -5,9 +5,21 @@
  */
 
 // Core exports
-export { init, isInitialized, validateInit } from './init';
+export {
+  init,
+  isInitialized,
+  validateInit,
+  flush,
+  flushInBackground,
+  shutdown,
+} from './init';
+export type { FlushOptions, WaitUntil } from './observability/Tracer';
+export { ZeroEval } from './client';
+export type { ZeroEvalOptions } from './client';
 export { span } from './observability/spanDecorator';
 export { withSpan } from './observability/spanDecorator';
+export { traceTool } from './observability/tools';
+export type { WrapOptions } from './observability/traceTarget';
 export { tracer } from './observability/Tracer';
 export {
   getCurrentSpan,
@@ -18,10 +30,46 @@ export {
 export { wrap } from './observability/integrations/wrapper';
 // Keep wrapOpenAI for backward compatibility
 export { wrapOpenAI } from './observability/integrations/openaiWrapper';
+// Export wrapAnthropic for direct usage
+export { wrapAnthropic } from './observability/integrations/anthropicWrapper';
 // Export wrapVercelAI for direct usage
 export { wrapVercelAI } from './observability/integrations/vercelAIWrapper';
 export { Span } from './observability/Span';
 
+// Span exporters
+export { BackendSpanWriter, CompositeSpanWriter } from './observability/writer';
+export type {
+  SpanWriter,
+  BackendSpanWriterOptions,
+} from './observability/writer';
+export { OTLPSpanWriter } from './observability/otlpWriter';
+export type { OTLPSpanWriterOptions } from './observability/otlpWriter';
+export type { SpoolOptions } from './observability/spool';
+
+// Span processors
+export type { SpanProcessor } from './observability/spanProcessor';
+
+// Redaction
+export type {
+  RedactionOptions,
+  BuiltinDetector,
+} from './observability/redaction';
+
+// Truncation
+export type { TruncationOptions } from './observability/truncation';
+
+// Sampling
+export type {
+  SamplingOptions,
+  SamplingRule,
+  SamplingContext,
+  TailSamplingOptions,
+} from './observability/sampler';
+
+// Cost estimation
+export { registerModelPrice, estimateCost } from './observability/pricing';
+export type { ModelPrice } from './observability/pricing';
+
 // Integrations
 export { LangChainIntegration } from './observability/integrations/langchain';
 
@@ -37,7 +85,22 @@ export {
 export type { Signal, SignalCreate } from './observability/signals';
 
 // Prompt management
-export { prompt } from './prompt';
+export {
+  prompt,
+  getPrompt,
+  onPromptChange,
+  prompts,
+  ResolvedPrompt,
+} from './prompt';
+export type {
+  PromptChangeListener,
+  PromptWatchOptions,
+} from './observability/promptClient';
+export type {
+  PromptSnapshot,
+  PromptSnapshotEntry,
+  PullPromptsOptions,
+} from './observability/promptSnapshot';
 export { sendFeedback } from './feedback';
 export type { SendFeedbackOptions } from './feedback';
 
@@ -45,6 +108,7 @@ export type { SendFeedbackOptions } from './feedback';
 export type {
   Prompt,
   PromptOptions,
+  PromptMessage,
   PromptMetadata,
   PromptResponse,
   PromptFeedbackCreate,
@@ -56,6 +120,14 @@ export type {
 export { PromptNotFoundError, PromptRequestError } from './errors';
 
 // Prompt utilities (for advanced users)
-export { sha256Hex, normalizePromptText } from './utils/hash';
-export { renderTemplate, extractVariables } from './utils/template';
+export {
+  sha256Hex,
+  normalizePromptText,
+  normalizeChatTemplate,
+} from './utils/hash';
+export {
+  renderTemplate,
+  renderChatTemplate,
+  extractVariables,
+} from './utils/template';
 export { decoratePrompt, extractZeroEvalMetadata } from './utils/metadata';
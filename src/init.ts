@@ -1,7 +1,15 @@
-/* global process */
-
-import { tracer } from './observability/Tracer';
+import type { FlushOptions, WaitUntil } from './observability/Tracer';
 import { Logger, getLogger } from './observability/logger';
+import type { SpanWriter } from './observability/writer';
+import type { SpoolOptions } from './observability/spool';
+import type { SamplingOptions } from './observability/sampler';
+import type { TruncationOptions } from './observability/truncation';
+import type { RedactionOptions } from './observability/redaction';
+import type { SpanProcessor } from './observability/spanProcessor';
+import type { PromptSnapshot } from './observability/promptSnapshot';
+import { getApiKey, getApiUrl, setDefaultApiConfig } from './utils/api';
+import { getEnv, setEnv } from './utils/runtime';
+import { getDefaultClient } from './client';
 
 const logger = getLogger('zeroeval');
 
@@ -14,6 +22,58 @@ export interface InitOptions {
   collectCodeDetails?: boolean;
   integrations?: Record<string, boolean>;
   debug?: boolean;
+  /**
+   * Span exporters to use instead of the default BackendSpanWriter.
+   * Include `new BackendSpanWriter()` to keep sending spans to ZeroEval.
+   */
+  exporters?: SpanWriter[];
+  /** Upload retries before spans are queued for the next flush (default: 3) */
+  maxRetries?: number;
+  /** Cap on spans queued for redelivery; oldest dropped first (default: 10000) */
+  maxQueuedSpans?: number;
+  /**
+   * Persist spans and pending signals to disk before upload so they survive
+   * crashes. Anything left over is replayed on the next init().
+   */
+  spool?: SpoolOptions;
+  /**
+   * Install beforeExit/SIGINT/SIGTERM handlers that flush before the process
+   * exits (default: true). Disable to manage shutdown yourself with
+   * `ze.shutdown()`.
+   */
+  processHooks?: boolean;
+  /** Keep only a subset of traces; see SamplingOptions (default: keep all) */
+  sampling?: SamplingOptions;
+  /**
+   * Size limits for span input/output and attribute values. Oversized values
+   * are cut with a marker and listed in `attributes.truncated`. Pass `false`
+   * to send everything as is (default: 256 KiB input/output, 64 KiB per
+   * attribute).
+   */
+  truncation?: TruncationOptions | false;
+  /**
+   * Scrub emails, phone numbers, card numbers, API keys and custom patterns
+   * from spans, signals and feedback before they are sent (default: off).
+   */
+  redaction?: RedactionOptions | false;
+  /**
+   * Hooks run in order when spans start and end, before redaction and
+   * truncation. `onEnd` may mutate a span or return false to drop it.
+   */
+  spanProcessors?: SpanProcessor[];
+  /**
+   * Send wrapped OpenAI, Anthropic and Vercel AI calls with the model and
+   * parameters (e.g. `temperature`) bound to the prompt version in their
+   * `<zeroeval>` metadata, in place of the call's own (default: true).
+   * Replaced values are listed in the span's `overriddenParams` attribute.
+   */
+  applyPromptSettings?: boolean;
+  /**
+   * Prompts to serve when the ZeroEval API cannot be reached and they were
+   * not fetched before: a snapshot from `ze.prompts.pull()`, or the path of
+   * its file (Node.js only). Such prompts have `source: 'fallback'`.
+   */
+  promptSnapshot?: PromptSnapshot | string;
 }
 
 // Track whether init has been called
@@ -32,7 +92,8 @@ export function isInitialized(): boolean {
 export function validateInit(): boolean {
   const logger = getLogger('zeroeval');
 
-  if (!process.env.ZEROEVAL_WORKSPACE_NAME || !process.env.ZEROEVAL_API_KEY) {
+  const hasWorkspace = initialized || !!getEnv('ZEROEVAL_WORKSPACE_NAME');
+  if (!hasWorkspace || !getApiKey()) {
     logger.error(
       "ZeroEval SDK not initialized. Please call ze.init(apiKey='YOUR_API_KEY') first."
     );
@@ -43,8 +104,8 @@ export function validateInit(): boolean {
 
 /**
  * Initialise the SDK. Mirrors `ze.init()` from the Python SDK.
- * Stores credentials in process.env for simplicity; callers may also
- * set env vars before requiring the SDK.
+ * Also stores credentials in process.env where the runtime has one; callers
+ * may instead set env vars before requiring the SDK.
  */
 export function init(opts: InitOptions = {}): void {
   const {
@@ -56,23 +117,31 @@ export function init(opts: InitOptions = {}): void {
     collectCodeDetails,
     integrations,
     debug,
+    exporters,
+    maxRetries,
+    maxQueuedSpans,
+    spool,
+    processHooks,
+    sampling,
+    truncation,
+    redaction,
+    spanProcessors,
+    applyPromptSettings = true,
+    promptSnapshot,
   } = opts;
 
   // Check if debug mode is enabled via param or env var
   const isDebugMode =
-    debug || process.env.ZEROEVAL_DEBUG?.toLowerCase() === 'true';
+    debug || getEnv('ZEROEVAL_DEBUG')?.toLowerCase() === 'true';
 
   // Enable debug mode
   if (isDebugMode) {
-    process.env.ZEROEVAL_DEBUG = 'true';
+    setEnv('ZEROEVAL_DEBUG', 'true');
     Logger.setDebugMode(true);
 
     // Log all configuration values as the first log message
-    const maskedApiKey = Logger.maskApiKey(
-      apiKey || process.env.ZEROEVAL_API_KEY
-    );
-    const finalApiUrl =
-      apiUrl || process.env.ZEROEVAL_API_URL || 'https://api.zeroeval.com';
+    const maskedApiKey = Logger.maskApiKey(apiKey || getApiKey());
+    const finalApiUrl = apiUrl || getApiUrl();
 
     logger.debug('ZeroEval SDK Configuration:');
     logger.debug(`  Workspace: ${workspaceName}`);
@@ -84,6 +153,23 @@ export function init(opts: InitOptions = {}): void {
     logger.debug(
       `  Collect Code Details: ${collectCodeDetails ?? 'true (default)'}`
     );
+    logger.debug(`  Exporters: ${exporters?.length ?? '1 (default)'}`);
+    logger.debug(`  Max Retries: ${maxRetries ?? '3 (default)'}`);
+    logger.debug(`  Max Queued Spans: ${maxQueuedSpans ?? '10000 (default)'}`);
+    logger.debug(`  Spool: ${spool?.directory ?? 'disabled (default)'}`);
+    logger.debug(`  Process Hooks: ${processHooks ?? 'true (default)'}`);
+    logger.debug(`  Sampling: ${sampling ? 'enabled' : 'keep all (default)'}`);
+    logger.debug(
+      `  Truncation: ${truncation === false ? 'disabled' : 'enabled'}`
+    );
+    logger.debug(
+      `  Redaction: ${redaction ? 'enabled' : 'disabled (default)'}`
+    );
+    logger.debug(`  Span Processors: ${spanProcessors?.length ?? 0}`);
+    logger.debug(`  Apply Prompt Settings: ${applyPromptSettings}`);
+    logger.debug(
+      `  Prompt Snapshot: ${typeof promptSnapshot === 'string' ? promptSnapshot : promptSnapshot ? 'provided' : 'none (default)'}`
+    );
 
     logger.info('SDK initialized in debug mode.');
   } else {
@@ -91,17 +177,58 @@ export function init(opts: InitOptions = {}): void {
   }
 
   // Set environment variables
-  process.env.ZEROEVAL_WORKSPACE_NAME = workspaceName;
-  if (apiKey) process.env.ZEROEVAL_API_KEY = apiKey;
-  if (apiUrl) process.env.ZEROEVAL_API_URL = apiUrl;
-
-  tracer.configure({
+  setEnv('ZEROEVAL_WORKSPACE_NAME', workspaceName);
+  if (apiKey) setEnv('ZEROEVAL_API_KEY', apiKey);
+  if (apiUrl) setEnv('ZEROEVAL_API_URL', apiUrl);
+  setDefaultApiConfig({ apiKey, apiUrl });
+
+  const client = getDefaultClient();
+  client.promptClient.setApplyPromptSettings(applyPromptSettings);
+  client.promptClient.setSnapshot(promptSnapshot);
+  client.tracer.configure({
     flushInterval,
     maxSpans,
     collectCodeDetails,
     integrations,
+    exporters,
+    maxRetries,
+    maxQueuedSpans,
+    spool,
+    processHooks,
+    sampling,
+    truncation,
+    redaction,
+    spanProcessors,
   });
 
   // Mark as initialized
   initialized = true;
 }
+
+/**
+ * Send buffered spans and pending signals now. Resolves to false if
+ * `timeoutMs` elapsed before everything was written.
+ */
+export function flush(opts: FlushOptions = {}): Promise<boolean> {
+  return getDefaultClient().flush(opts);
+}
+
+/**
+ * Flush after the response on edge and serverless runtimes, e.g.
+ * `ze.flushInBackground(ctx)` in a Cloudflare Worker or
+ * `ze.flushInBackground(waitUntil)` with `@vercel/functions`.
+ */
+export function flushInBackground(
+  waitUntil: WaitUntil,
+  opts: FlushOptions = {}
+): void {
+  getDefaultClient().flushInBackground(waitUntil, opts);
+}
+
+/**
+ * Flush everything and teardown integrations. Call before exiting when
+ * automatic process hooks are disabled.
+ */
+export function shutdown(opts: FlushOptions = {}): Promise<boolean> {
+  return getDefaultClient().shutdown(opts);
+}
@@ -0,0 +1,19 @@
+/*
+ * Node.js entry point. Hands Node built-ins to the runtime-agnostic core in
+ * ./index, which edge runtimes and browsers load directly.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { provideBuiltin } from './utils/runtime';
+
+provideBuiltin('async_hooks', { AsyncLocalStorage });
+provideBuiltin('crypto', crypto);
+provideBuiltin('fs', fs);
+provideBuiltin('path', path);
+provideBuiltin('zlib', zlib);
+
+export * from './index';
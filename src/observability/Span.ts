@@ -1,4 +1,4 @@
-import { randomUUID } from 'crypto';
+import { randomUUID } from '../utils/runtime';
 import type { Signal } from './signals';
 
 export interface ErrorInfo {
@@ -13,7 +13,7 @@ export class Span {
   parentId?: string;
 
   readonly name: string;
-  readonly startTime: number = Date.now();
+  readonly startTime: number;
   endTime?: number;
 
   sessionId?: string;
@@ -31,9 +31,10 @@ export class Span {
   error?: ErrorInfo;
   status: 'ok' | 'error' = 'ok';
 
-  constructor(name: string, traceId?: string) {
+  constructor(name: string, traceId?: string, startTime = Date.now()) {
     this.name = name;
     this.traceId = traceId ?? randomUUID();
+    this.startTime = startTime;
   }
 
   end(): void {
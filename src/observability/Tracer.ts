@@ -1,34 +1,114 @@
-/* global process */
+/* global process, setInterval, clearInterval, setTimeout, clearTimeout */
 
-import { AsyncLocalStorage } from 'async_hooks';
-import { randomUUID } from 'crypto';
 import { Span } from './Span';
 import type { SpanWriter } from './writer';
-import { BackendSpanWriter } from './writer';
-import { setInterval } from 'timers';
+import { BackendSpanWriter, CompositeSpanWriter } from './writer';
+import { createContextStorage } from './context';
+import type { ContextStorage } from './context';
 import { discoverIntegrations } from './integrations/utils';
 import type { Integration } from './integrations/base';
 import { getLogger, Logger } from './logger';
+import { Sampler } from './sampler';
+import type { SamplingOptions } from './sampler';
+import { Spool } from './spool';
+import { truncateSpan } from './truncation';
+import { estimateCost, roundUsd } from './pricing';
+import { Redactor } from './redaction';
+import type { RedactionOptions } from './redaction';
+import type { SpanProcessor } from './spanProcessor';
+import type { TruncationOptions } from './truncation';
+import type { SpoolOptions } from './spool';
+import { SignalWriter, signalWriter } from './signalWriter';
+import { PendingSignals } from './pendingSignals';
+import { detectSignalType } from './signals';
+import type { Signal, SignalCreate } from './signals';
+import type { ApiConfig } from '../utils/api';
+import {
+  getEnv,
+  isNodeRuntime,
+  randomUUID,
+  unrefTimer,
+} from '../utils/runtime';
 
 // Check for debug mode early
-if (process.env.ZEROEVAL_DEBUG?.toLowerCase() === 'true') {
+if (getEnv('ZEROEVAL_DEBUG')?.toLowerCase() === 'true') {
   Logger.setDebugMode(true);
 }
 
 const logger = getLogger('zeroeval.tracer');
 
-interface ConfigureOptions {
+export interface TracerOptions extends ApiConfig {
+  /** Patch installed libraries (OpenAI, LangChain, ...) on startup (default: true) */
+  setupIntegrations?: boolean;
+}
+
+export interface ConfigureOptions {
   flushInterval?: number;
   maxSpans?: number;
   collectCodeDetails?: boolean;
   integrations?: Record<string, boolean>;
+  exporters?: SpanWriter[];
+  maxRetries?: number;
+  maxQueuedSpans?: number;
+  spool?: SpoolOptions;
+  processHooks?: boolean;
+  sampling?: SamplingOptions;
+  truncation?: TruncationOptions | false;
+  redaction?: RedactionOptions | false;
+  spanProcessors?: SpanProcessor[];
 }
 
-/** Global AsyncLocalStorage for span stacks */
-const als = new AsyncLocalStorage<Span[]>();
+export interface FlushOptions {
+  /** Stop waiting after this many milliseconds; the work keeps running */
+  timeoutMs?: number;
+}
+
+/** `waitUntil` of a request-scoped runtime, or the context object holding it */
+export type WaitUntil =
+  | ((promise: Promise<unknown>) => void)
+  | { waitUntil(promise: Promise<unknown>): void };
+
+/** Time budget for the flush triggered by SIGINT/SIGTERM/beforeExit */
+const EXIT_FLUSH_TIMEOUT_MS = 5_000;
+
+/** Resolve to true if `work` settles within `timeoutMs`, false otherwise */
+function withTimeout(work: Promise<void>, timeoutMs: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+    unrefTimer(timer);
+  });
+  return Promise.race([work.then(() => true), timeout]).finally(() =>
+    clearTimeout(timer)
+  );
+}
+
+function toSignalCreates(
+  entityType: 'trace' | 'session',
+  entityId: string,
+  signals: Record<string, Signal> | undefined
+): SignalCreate[] {
+  return Object.entries(signals ?? {}).map(([name, sig]) => ({
+    entity_type: entityType,
+    entity_id: entityId,
+    name,
+    value: sig.value,
+    signal_type: sig.type,
+  }));
+}
+
+/** Tracers with process hooks installed, so exiting waits for all of them */
+const hookedTracers = new Set<Tracer>();
 
 export class Tracer {
-  private _writer: SpanWriter = new BackendSpanWriter();
+  /** Writes trace/session/bulk signals for this tracer's workspace */
+  readonly signalWriter: SignalWriter;
+  /** Trace/session signals waiting for their spans to be written */
+  readonly pendingSignals = new PendingSignals();
+
+  /** Per-tracer span stacks, created on first use */
+  private _context?: ContextStorage<Span[]>;
+  private _writer: SpanWriter;
   private _buffer: Span[] = [];
   private _flushIntervalMs = 10_000; // default 10 s
   private _maxSpans = 100;
@@ -36,38 +116,98 @@ export class Tracer {
 
   private _activeTraceCounts: Record<string, number> = {};
   private _traceBuckets: Record<string, Span[]> = {};
+  private _traceCosts: Record<string, number> = {};
 
   private _integrations: Record<string, Integration> = {};
   private _shuttingDown = false;
+  private _shutdownPromise?: Promise<boolean>;
+  private _spool?: Spool;
+  private _sampler?: Sampler;
+  /** Active traces the head sampler decided to drop */
+  private _unsampled = new Set<string>();
+  private _truncation: TruncationOptions | false = {};
+  private _processors: SpanProcessor[] = [];
+  private _inFlight = new Set<Promise<void>>();
+  private _redactor?: Redactor;
+  /** Async redactions of spans and signals, awaited before writes */
+  private _redacting = new Set<Promise<void>>();
+  /** Pending signal entities (`trace:<id>`, `session:<id>`) recorded here */
+  private _pendingEntities = new Set<string>();
+  private _flushTimer?: ReturnType<typeof setInterval>;
+
+  /** Process listeners installed by the tracer, kept so they can be removed */
+  private readonly _processHooks = {
+    beforeExit: () => {
+      void this.shutdown({ timeoutMs: EXIT_FLUSH_TIMEOUT_MS });
+    },
+    SIGINT: () => void this._exitOnSignal('SIGINT'),
+    SIGTERM: () => void this._exitOnSignal('SIGTERM'),
+  };
+  private _processHooksInstalled = false;
+
+  constructor(options: TracerOptions = {}) {
+    const { setupIntegrations = true, ...api } = options;
+    const isolated = api.apiUrl !== undefined || api.apiKey !== undefined;
+    this._writer = new BackendSpanWriter(api);
+    this.signalWriter = isolated ? new SignalWriter(api) : signalWriter;
 
-  constructor() {
     logger.debug('Initializing tracer...');
     logger.debug(
       `Tracer config: flush_interval=${this._flushIntervalMs}ms, max_spans=${this._maxSpans}`
     );
 
-    // schedule periodic flush
-    setInterval(() => {
-      if (Date.now() - this._lastFlush >= this._flushIntervalMs) {
-        void this.flush().catch((error) => {
-          logger.error('[ZeroEval] Periodic flush failed:', error);
-        });
-      }
-    }, 1000).unref();
+    // schedule periodic flush; request-scoped runtimes flush per request
+    // and may not allow timers outside of one
+    if (isNodeRuntime()) {
+      this._flushTimer = setInterval(() => {
+        if (Date.now() - this._lastFlush >= this._flushIntervalMs) {
+          void this._flushBuffer().catch((error) => {
+            logger.error('[ZeroEval] Periodic flush failed:', error);
+          });
+        }
+      }, 1000);
+      unrefTimer(this._flushTimer);
+    }
+
+    this._bindWriter();
 
     // setup integrations asynchronously (non-blocking)
-    void this._setupAvailableIntegrations();
+    if (setupIntegrations) void this._setupAvailableIntegrations();
 
     // graceful shutdown hooks
-    process.on('beforeExit', () => this.shutdown());
-    process.on('SIGINT', () => {
-      this.shutdown();
-      process.exit();
-    });
-    process.on('SIGTERM', () => {
-      this.shutdown();
-      process.exit();
-    });
+    this._installProcessHooks();
+  }
+
+  private _installProcessHooks(): void {
+    if (this._processHooksInstalled || !isNodeRuntime()) return;
+    process.on('beforeExit', this._processHooks.beforeExit);
+    process.on('SIGINT', this._processHooks.SIGINT);
+    process.on('SIGTERM', this._processHooks.SIGTERM);
+    this._processHooksInstalled = true;
+    hookedTracers.add(this);
+  }
+
+  private _removeProcessHooks(): void {
+    if (!this._processHooksInstalled) return;
+    process.off('beforeExit', this._processHooks.beforeExit);
+    process.off('SIGINT', this._processHooks.SIGINT);
+    process.off('SIGTERM', this._processHooks.SIGTERM);
+    this._processHooksInstalled = false;
+    hookedTracers.delete(this);
+  }
+
+  /**
+   * Flush every hooked tracer before exiting on a signal. Exit is left to
+   * the application when it registered its own handlers for the signal.
+   */
+  private async _exitOnSignal(signal: 'SIGINT' | 'SIGTERM'): Promise<void> {
+    const tracers = [...hookedTracers];
+    await Promise.all(
+      tracers.map((t) => t.shutdown({ timeoutMs: EXIT_FLUSH_TIMEOUT_MS }))
+    );
+    const ours = new Set<unknown>(tracers.map((t) => t._processHooks[signal]));
+    const others = process.listeners(signal).filter((l) => !ours.has(l));
+    if (others.length === 0) process.exit();
   }
 
   /* CONFIG ----------------------------------------------------------------*/
@@ -82,12 +222,88 @@ export class Tracer {
       this._maxSpans = opts.maxSpans;
       logger.info(`Tracer max_spans configured to ${opts.maxSpans}.`);
     }
+    if (opts.exporters !== undefined) {
+      this._writer =
+        opts.exporters.length === 1
+          ? opts.exporters[0]
+          : new CompositeSpanWriter(opts.exporters);
+      logger.info(
+        `Tracer configured with ${opts.exporters.length} exporter(s).`
+      );
+      this._bindWriter();
+    }
+    if (opts.maxRetries !== undefined || opts.maxQueuedSpans !== undefined) {
+      const backend = this._backendWriter();
+      if (backend) {
+        backend.configure({
+          maxRetries: opts.maxRetries,
+          maxQueuedSpans: opts.maxQueuedSpans,
+        });
+      } else {
+        logger.warn(
+          '[ZeroEval] maxRetries/maxQueuedSpans only apply to the ZeroEval backend exporter, which is not configured'
+        );
+      }
+    }
+    if (opts.spool !== undefined) {
+      this._spool = new Spool(opts.spool);
+      logger.info(`Tracer spooling to ${opts.spool.directory}.`);
+      void this._replaySpool().catch((error) => {
+        logger.error('[ZeroEval] Spool replay failed:', error);
+      });
+    }
+    if (opts.sampling !== undefined) {
+      this._sampler = new Sampler(opts.sampling);
+      logger.info('Tracer sampling configured.');
+    }
+    if (opts.spanProcessors !== undefined) {
+      this._processors = [...opts.spanProcessors];
+      logger.info(
+        `Tracer configured with ${opts.spanProcessors.length} span processor(s).`
+      );
+    }
+    if (opts.redaction !== undefined) {
+      this._redactor = opts.redaction
+        ? new Redactor(opts.redaction)
+        : undefined;
+      logger.info(
+        `Tracer redaction ${opts.redaction ? 'enabled' : 'disabled'}.`
+      );
+    }
+    if (opts.truncation !== undefined) {
+      this._truncation = opts.truncation;
+      logger.info(
+        `Tracer truncation ${opts.truncation ? 'configured' : 'disabled'}.`
+      );
+    }
+    if (opts.processHooks !== undefined) {
+      if (opts.processHooks) this._installProcessHooks();
+      else this._removeProcessHooks();
+      logger.info(
+        `Tracer process hooks ${opts.processHooks ? 'enabled' : 'disabled'}.`
+      );
+    }
     logger.debug(`Tracer configuration updated:`, opts);
   }
 
+  /** Scrubs spans, signals and feedback of this tracer, if configured */
+  get redactor(): Redactor | undefined {
+    return this._redactor;
+  }
+
+  /** Spans the exporters gave up on (queue overflow or rejected uploads) */
+  get droppedSpans(): number {
+    return this._writer.droppedSpans ?? 0;
+  }
+
   /* ACTIVE SPAN -----------------------------------------------------------*/
+  /** Created lazily so the Node entry point can provide AsyncLocalStorage */
+  private get _als(): ContextStorage<Span[]> {
+    return (this._context ??= createContextStorage<Span[]>());
+  }
+
   currentSpan(): Span | undefined {
-    const stack = als.getStore();
+    const stack = this._als.getStore();
     return stack && stack[stack.length - 1];
   }
 
@@ -99,12 +315,16 @@ export class Tracer {
       sessionId?: string;
       sessionName?: string;
       tags?: Record<string, string>;
+      /** Parent span, for runtimes without AsyncLocalStorage (default: current span) */
+      parent?: Span;
+      /** Epoch milliseconds, for spans recorded after the fact (default: now) */
+      startTime?: number;
     } = {}
   ): Span {
     logger.debug(`Starting span: ${name}`);
 
-    const parent = this.currentSpan();
-    const span = new Span(name, parent?.traceId);
+    const parent = opts.parent ?? this.currentSpan();
+    const span = new Span(name, parent?.traceId, opts.startTime);
 
     if (parent) {
       span.parentId = parent.spanId;
@@ -124,9 +344,27 @@ export class Tracer {
 
     Object.assign(span.attributes, opts.attributes);
 
+    // head sampling: decided once at the root, children share the trace id
+    if (
+      !parent &&
+      this._sampler &&
+      !this._sampler.shouldSample({
+        traceId: span.traceId,
+        name,
+        attributes: span.attributes,
+        tags: span.tags,
+        sessionId: span.sessionId,
+      })
+    ) {
+      this._unsampled.add(span.traceId);
+      logger.debug(`Trace ${span.traceId} not sampled`);
+    }
+
+    if (!this._unsampled.has(span.traceId)) this._runOnStart(span);
+
     // push onto ALS stack
-    const parentStack = als.getStore() ?? [];
-    als.enterWith([...parentStack, span]);
+    const parentStack = this._als.getStore() ?? [];
+    this._als.enterWith([...parentStack, span]);
 
     // trace bookkeeping
     this._activeTraceCounts[span.traceId] =
@@ -141,26 +379,55 @@ export class Tracer {
     logger.debug(`Ending span: ${span.name} (duration: ${span.durationMs}ms)`);
 
     // pop stack
-    const stack = als.getStore();
+    const stack = this._als.getStore();
     if (stack && stack[stack.length - 1] === span) {
       stack.pop();
     }
 
+    this._recordCost(span);
+
+    // nothing flushes spans that end once shutdown has begun
+    const keep =
+      !this._shuttingDown &&
+      !this._unsampled.has(span.traceId) &&
+      this._runOnEnd(span);
+    if (keep) {
+      // redact before truncating so cut-off values cannot leak partial matches
+      const redacted = this._redactor?.redactSpan(span);
+      if (redacted instanceof Promise) {
+        this._trackRedaction(span, redacted);
+      } else {
+        this._finishSpan(span);
+      }
+    }
+
     // bucket by trace until root finished
     const traceBucket = (this._traceBuckets[span.traceId] ||= []);
-    traceBucket.push(span);
+    if (keep) traceBucket.push(span);
 
     this._activeTraceCounts[span.traceId] -= 1;
     if (this._activeTraceCounts[span.traceId] === 0) {
-      // trace complete – move spans to main buffer ordered parent-first
       delete this._activeTraceCounts[span.traceId];
-      const ordered = traceBucket.sort((a) => (a.parentId ? 1 : -1));
       delete this._traceBuckets[span.traceId];
-      this._buffer.push(...ordered);
-
-      logger.debug(
-        `Trace ${span.traceId} complete with ${ordered.length} spans`
-      );
+      delete this._traceCosts[span.traceId];
+
+      const sampled = !this._unsampled.has(span.traceId);
+      if (this._shuttingDown) {
+        logger.debug(`Trace ${span.traceId} ended after shutdown, not sent`);
+      } else if (
+        sampled &&
+        (this._sampler?.shouldKeepTrace(traceBucket) ?? true)
+      ) {
+        // trace complete – move spans to main buffer ordered parent-first
+        const ordered = traceBucket.sort((a) => (a.parentId ? 1 : -1));
+        this._buffer.push(...ordered);
+
+        logger.debug(
+          `Trace ${span.traceId} complete with ${ordered.length} spans`
+        );
+      } else {
+        this._dropTrace(span.traceId, traceBucket);
+      }
     }
 
     // flush if buffer full
@@ -168,12 +435,111 @@ export class Tracer {
       logger.debug(
         `Buffer full (${this._buffer.length} spans), triggering flush`
       );
-      void this.flush().catch((error) => {
+      void this._flushBuffer().catch((error) => {
         logger.error('[ZeroEval] Buffer full flush failed:', error);
       });
     }
   }
 
+  /**
+   * Estimate `cost_usd` of LLM spans and roll the costs of a trace up onto
+   * its root span, which ends after its children
+   */
+  private _recordCost(span: Span): void {
+    if (
+      span.attributes.kind === 'llm' &&
+      span.attributes.cost_usd === undefined
+    ) {
+      const cost = estimateCost(span.attributes);
+      if (cost !== undefined) span.attributes.cost_usd = cost;
+    }
+
+    const cost =
+      typeof span.attributes.cost_usd === 'number'
+        ? span.attributes.cost_usd
+        : 0;
+    if (span.parentId) {
+      if (cost > 0) {
+        this._traceCosts[span.traceId] =
+          (this._traceCosts[span.traceId] ?? 0) + cost;
+      }
+      return;
+    }
+
+    const total = (this._traceCosts[span.traceId] ?? 0) + cost;
+    if (total > 0) span.attributes.cost_usd = roundUsd(total);
+  }
+
+  /* SPAN PROCESSORS -------------------------------------------------------*/
+  private _runOnStart(span: Span): void {
+    for (const processor of this._processors) {
+      try {
+        processor.onStart?.(span);
+      } catch (error) {
+        logger.error('[ZeroEval] Span processor onStart failed:', error);
+      }
+    }
+  }
+
+  /** Run onEnd hooks; false means a processor dropped the span */
+  private _runOnEnd(span: Span): boolean {
+    for (const processor of this._processors) {
+      let result: boolean | void;
+      try {
+        result = processor.onEnd?.(span);
+      } catch (error) {
+        logger.error('[ZeroEval] Span processor onEnd failed:', error);
+        continue;
+      }
+      if (result === false) {
+        logger.debug(`Span ${span.name} dropped by span processor`);
+        // without its root the rest of the trace is meaningless
+        if (!span.parentId) this._unsampled.add(span.traceId);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /** Truncate a span once it is final and spool it until it is delivered */
+  private _finishSpan(span: Span): void {
+    if (this._truncation) truncateSpan(span, this._truncation);
+    this._spool?.appendSpan(span.spanId, span.toJSON());
+  }
+
+  /**
+   * Hold writes until an async redaction is done. A span that could not
+   * be redacted is dropped rather than sent as is.
+   */
+  private _trackRedaction(span: Span, redacted: Promise<void>): void {
+    const done = redacted.then(
+      () => this._finishSpan(span),
+      (error) => {
+        logger.error('[ZeroEval] Redaction failed, dropping span:', error);
+        const bucket = this._traceBuckets[span.traceId];
+        if (bucket) {
+          this._traceBuckets[span.traceId] = bucket.filter((s) => s !== span);
+        }
+        this._buffer = this._buffer.filter((s) => s !== span);
+      }
+    );
+    this._holdWritesFor(done);
+  }
+
+  private _holdWritesFor(done: Promise<void>): void {
+    this._redacting.add(done);
+    void done.then(() => this._redacting.delete(done));
+  }
+
+  /** Discard a finished trace the sampler or a processor did not keep */
+  private _dropTrace(traceId: string, spans: Span[]): void {
+    this._unsampled.delete(traceId);
+    this._pendingEntities.delete(`trace:${traceId}`);
+    this.pendingSignals.popTraceSignals(traceId);
+    this._spool?.ack([...spans.map((s) => s.spanId), `trace:${traceId}`]);
+    logger.debug(`Trace ${traceId} dropped by sampler`);
+  }
+
   /* TAG HELPERS -----------------------------------------------------------*/
   addTraceTags(traceId: string, tags: Record<string, string>): void {
     logger.debug(`Adding trace tags to ${traceId}:`, tags);
@@ -200,10 +566,174 @@ export class Tracer {
     return traceId in this._activeTraceCounts || traceId in this._traceBuckets;
   }
 
+  /* SPOOL -----------------------------------------------------------------*/
+  /**
+   * Hold a trace/session signal until its entity is written, and persist it
+   * so it survives a crash. Signals are redacted before they are held.
+   */
+  recordPendingSignal(
+    signal: SignalCreate & { entity_type: 'trace' | 'session' }
+  ): void {
+    const entity = `${signal.entity_type}:${signal.entity_id}`;
+    this._pendingEntities.add(entity);
+
+    const redacted = this._redactor?.redactSignal(signal) ?? signal;
+    if (redacted instanceof Promise) {
+      this._holdWritesFor(
+        redacted.then(
+          (s) => this._holdSignal(entity, s),
+          (error) => {
+            logger.error(
+              '[ZeroEval] Redaction failed, dropping signal:',
+              error
+            );
+          }
+        )
+      );
+    } else {
+      this._holdSignal(entity, redacted);
+    }
+  }
+
+  private _holdSignal(entity: string, signal: SignalCreate): void {
+    const sig: Signal = {
+      value: signal.value,
+      type: signal.signal_type ?? detectSignalType(signal.value),
+    };
+    if (signal.entity_type === 'trace') {
+      this.pendingSignals.addTraceSignal(signal.entity_id, signal.name, sig);
+    } else {
+      this.pendingSignals.addSessionSignal(signal.entity_id, signal.name, sig);
+    }
+    this._spool?.appendSignal(entity, signal);
+  }
+
+  /** The ZeroEval backend writer, on its own or among the exporters */
+  private _backendWriter(): BackendSpanWriter | undefined {
+    const writers =
+      this._writer instanceof CompositeSpanWriter
+        ? this._writer.writers
+        : [this._writer];
+    return writers.find(
+      (w): w is BackendSpanWriter => w instanceof BackendSpanWriter
+    );
+  }
+
+  /**
+   * Share pending signals with the backend writer, which sends them after
+   * their spans, and let writers that track delivery acknowledge spool
+   * records themselves
+   */
+  private _bindWriter(): void {
+    const backend = this._backendWriter();
+    if (backend) backend.pendingSignals = this.pendingSignals;
+    if (this._writer instanceof BackendSpanWriter) {
+      this._writer.onSettled = (spans) => this._settle(spans);
+    }
+  }
+
+  /**
+   * Acknowledge delivered spans, plus trace/session signals that are no
+   * longer pending, in the spool.
+   */
+  private _settle(spans: unknown[]): void {
+    if (!this._spool) return;
+
+    const ids = new Set<string>();
+    for (const s of spans) {
+      const { spanId, traceId, sessionId } =
+        s instanceof Span
+          ? s
+          : {
+              spanId: (s as Record<string, string>).span_id,
+              traceId: (s as Record<string, string>).trace_id,
+              sessionId: (s as Record<string, string>).session_id,
+            };
+      ids.add(spanId);
+      if (!this.pendingSignals.hasTraceSignals(traceId)) {
+        ids.add(`trace:${traceId}`);
+      }
+      if (sessionId && !this.pendingSignals.hasSessionSignals(sessionId)) {
+        ids.add(`session:${sessionId}`);
+      }
+    }
+    this._spool.ack([...ids]);
+  }
+
+  /** Upload spans and signals left in the spool by a previous process */
+  private async _replaySpool(): Promise<void> {
+    if (!this._spool) return;
+    const { spans, signals } = this._spool.recover();
+
+    if (spans.length > 0) {
+      logger.info(`[ZeroEval] Replaying ${spans.length} spooled spans...`);
+      await this._writer.write(spans);
+      if (!(this._writer instanceof BackendSpanWriter)) this._settle(spans);
+    }
+
+    if (signals.length > 0) {
+      const res = await this.signalWriter.createBulkSignals(signals);
+      if (res.status !== 'error') {
+        this._spool.ack(
+          signals.map((sig) => `${sig.entity_type}:${sig.entity_id}`)
+        );
+      }
+    }
+  }
+
   /* FLUSH -----------------------------------------------------------------*/
-  async flush(): Promise<void> {
-    if (this._buffer.length === 0) return;
+  /**
+   * Write buffered spans, wait for uploads already in flight and send
+   * pending signals of finished traces/sessions. Resolves to false if
+   * `timeoutMs` elapsed first.
+   */
+  async flush(opts: FlushOptions = {}): Promise<boolean> {
+    const work = this._flushAll();
+    if (opts.timeoutMs === undefined) {
+      await work;
+      return true;
+    }
+    const done = await withTimeout(work, opts.timeoutMs);
+    if (!done) {
+      logger.warn(`[ZeroEval] Flush did not finish within ${opts.timeoutMs}ms`);
+    }
+    return done;
+  }
+
+  /**
+   * Flush without holding up the response on request-scoped runtimes: the
+   * work is handed to `waitUntil` (Cloudflare's `ctx`, `@vercel/functions`).
+   */
+  flushInBackground(waitUntil: WaitUntil, opts: FlushOptions = {}): void {
+    const work = this.flush(opts).catch((error) => {
+      logger.error('[ZeroEval] Background flush failed:', error);
+      return false;
+    });
+    if (typeof waitUntil === 'function') waitUntil(work);
+    else waitUntil.waitUntil(work);
+  }
+
+  private async _flushAll(): Promise<void> {
+    const own = this._flushBuffer();
+    const inFlight = [...this._inFlight];
+    await own;
+    await Promise.allSettled(inFlight);
+    await this._flushPendingSignals();
+  }
 
+  private _flushBuffer(): Promise<void> {
+    const hasQueued = (this._writer.queuedSpans ?? 0) > 0;
+    if (this._buffer.length === 0 && !hasQueued) return Promise.resolve();
+
+    const write = this._writeBuffer();
+    this._inFlight.add(write);
+    const untrack = () => this._inFlight.delete(write);
+    void write.then(untrack, untrack);
+    return write;
+  }
+
+  private async _writeBuffer(): Promise<void> {
+    if (this._redacting.size > 0) await Promise.all(this._redacting);
     const spanCount = this._buffer.length;
     logger.info(`[ZeroEval] Flushing ${spanCount} spans to backend...`);
 
@@ -213,6 +743,9 @@ export class Tracer {
     try {
       const startTime = Date.now();
       await this._writer.write(spansToFlush);
+      if (!(this._writer instanceof BackendSpanWriter)) {
+        this._settle(spansToFlush);
+      }
       const duration = Date.now() - startTime;
 
       logger.info(
@@ -223,12 +756,45 @@ export class Tracer {
         `[ZeroEval] Failed to flush ${spanCount} spans:`,
         error instanceof Error ? error.message : error
       );
-      // Re-add the spans to the buffer for retry
-      this._buffer.unshift(...spansToFlush);
       throw error;
     }
   }
 
+  /**
+   * Signals sent after their trace was written stay pending until the next
+   * write for that trace, which may never come. Send those recorded by this
+   * tracer for traces and sessions that have no open spans left.
+   */
+  private async _flushPendingSignals(): Promise<void> {
+    const openSessions = new Set(
+      Object.values(this._traceBuckets)
+        .flat()
+        .map((s) => s.sessionId)
+    );
+    const bulk: SignalCreate[] = [];
+
+    for (const entity of this._pendingEntities) {
+      const [type, id] = entity.split(':') as ['trace' | 'session', string];
+      if (type === 'trace' ? this.isActiveTrace(id) : openSessions.has(id)) {
+        continue;
+      }
+      this._pendingEntities.delete(entity);
+      const signals =
+        type === 'trace'
+          ? this.pendingSignals.popTraceSignals(id)
+          : this.pendingSignals.popSessionSignals(id);
+      bulk.push(...toSignalCreates(type, id, signals));
+    }
+    if (bulk.length === 0) return;
+
+    const res = await this.signalWriter.createBulkSignals(bulk);
+    if (res.status !== 'error') {
+      this._spool?.ack(
+        bulk.map((sig) => `${sig.entity_type}:${sig.entity_id}`)
+      );
+    }
+  }
+
   private async _setupAvailableIntegrations(): Promise<void> {
     logger.info('Checking for available integrations...');
 
@@ -257,16 +823,22 @@ export class Tracer {
     }
   }
 
-  /** Flush remaining spans and teardown integrations */
-  shutdown(): void {
-    if (this._shuttingDown) return;
+  /**
+   * Flush remaining spans and signals, then teardown integrations. Spans
+   * that end after this are dropped. Safe to call more than once; later
+   * calls return the first call's result.
+   */
+  shutdown(opts: FlushOptions = {}): Promise<boolean> {
+    if (this._shutdownPromise) return this._shutdownPromise;
     this._shuttingDown = true;
 
     logger.info('Shutting down tracer...');
+    clearInterval(this._flushTimer);
 
-    // Attempt to flush remaining spans
-    void this.flush().catch((error) => {
+    // Start the final flush before integrations are torn down
+    const flushed = this.flush(opts).catch((error) => {
       logger.error('[ZeroEval] Shutdown flush failed:', error);
+      return false;
     });
 
     for (const inst of Object.values(this._integrations)) {
@@ -276,6 +848,9 @@ export class Tracer {
         logger.error('[ZeroEval] Integration teardown failed:', error);
       }
     }
+
+    this._shutdownPromise = flushed;
+    return flushed;
   }
 }
 
@@ -0,0 +1,50 @@
+import { getBuiltin } from '../utils/runtime';
+import { getLogger } from './logger';
+
+const logger = getLogger('zeroeval.context');
+
+/** The subset of AsyncLocalStorage the tracer relies on */
+export interface ContextStorage<T> {
+  getStore(): T | undefined;
+  enterWith(store: T): void;
+}
+
+type AsyncLocalStorageCtor = new <T>() => ContextStorage<T>;
+
+/**
+ * Fallback for runtimes without AsyncLocalStorage. A single slot that
+ * follows synchronous nesting only: context is not carried across `await`,
+ * and concurrent requests share it, so pass `parent` explicitly there.
+ */
+export class SyncContextStorage<T> implements ContextStorage<T> {
+  private store?: T;
+
+  getStore(): T | undefined {
+    return this.store;
+  }
+
+  enterWith(store: T): void {
+    this.store = store;
+  }
+}
+
+/**
+ * AsyncLocalStorage from the runtime: a global on Vercel Edge and
+ * Cloudflare Workers, `node:async_hooks` on Node.js, Bun and Deno.
+ */
+function findAsyncLocalStorage(): AsyncLocalStorageCtor | undefined {
+  const global = (globalThis as { AsyncLocalStorage?: AsyncLocalStorageCtor })
+    .AsyncLocalStorage;
+  if (typeof global === 'function') return global;
+  return getBuiltin<{ AsyncLocalStorage: AsyncLocalStorageCtor }>('async_hooks')
+    ?.AsyncLocalStorage;
+}
+
+export function createContextStorage<T>(): ContextStorage<T> {
+  const AsyncLocalStorage = findAsyncLocalStorage();
+  if (AsyncLocalStorage) return new AsyncLocalStorage<T>();
+  logger.debug(
+    'AsyncLocalStorage unavailable, span context follows synchronous calls only'
+  );
+  return new SyncContextStorage<T>();
+}
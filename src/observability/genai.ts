@@ -0,0 +1,239 @@
+/**
+ * GenAI attributes of LLM spans, following the OpenTelemetry `gen_ai.*`
+ * semantic conventions. Every integration records requests, usage and
+ * responses through these helpers, so dashboards and exporters see the same
+ * keys and units whichever SDK made the call.
+ *
+ * Request options are also recorded whole, without content or secrets, as
+ * the `request` attribute.
+ *
+ * The helpers also write the keys the ZeroEval UI reads: `inputTokens`,
+ * `outputTokens`, `cachedInputTokens`, `cacheCreationInputTokens`,
+ * `reasoningTokens`, `finishReason`, `latency` (time to first token, in
+ * seconds) and `throughput` (output characters per second).
+ */
+
+import type { Span } from './Span';
+
+export type GenAIOperation =
+  | 'chat'
+  | 'text_completion'
+  | 'embeddings'
+  | 'generate_content';
+
+/** The `gen_ai.*` attributes written on LLM spans */
+export interface GenAIAttributes {
+  /** Provider, e.g. `openai`, `anthropic` */
+  'gen_ai.system': string;
+  'gen_ai.operation.name': GenAIOperation;
+  'gen_ai.request.model'?: string;
+  'gen_ai.request.temperature'?: number;
+  'gen_ai.request.top_p'?: number;
+  'gen_ai.request.top_k'?: number;
+  'gen_ai.request.max_tokens'?: number;
+  'gen_ai.request.stop_sequences'?: string[];
+  'gen_ai.request.seed'?: number;
+  'gen_ai.request.frequency_penalty'?: number;
+  'gen_ai.request.presence_penalty'?: number;
+  'gen_ai.response.id'?: string;
+  'gen_ai.response.model'?: string;
+  'gen_ai.response.finish_reasons'?: string[];
+  /** Milliseconds from the request to the first streamed token */
+  'gen_ai.response.time_to_first_token_ms'?: number;
+  /** All input tokens, cache reads and writes included */
+  'gen_ai.usage.input_tokens'?: number;
+  /** All output tokens, reasoning included */
+  'gen_ai.usage.output_tokens'?: number;
+  'gen_ai.usage.cache_read.input_tokens'?: number;
+  'gen_ai.usage.cache_creation.input_tokens'?: number;
+  'gen_ai.usage.reasoning.output_tokens'?: number;
+}
+
+export interface GenAIRequest {
+  system: string;
+  operation?: GenAIOperation;
+  model?: string;
+  /** Request options, in the provider's snake_case or camelCase naming */
+  params?: object;
+}
+
+/** Token usage, normalised: cached and reasoning tokens are included */
+export interface GenAIUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedInputTokens?: number;
+  cacheCreationInputTokens?: number;
+  reasoningTokens?: number;
+}
+
+export interface GenAIResponse {
+  id?: string;
+  model?: string;
+  finishReasons?: Array<string | null | undefined>;
+}
+
+// gen_ai.request.* attribute, then the option names used by the SDKs
+const REQUEST_PARAMS: Array<[keyof GenAIAttributes, string[]]> = [
+  ['gen_ai.request.temperature', ['temperature']],
+  ['gen_ai.request.top_p', ['top_p', 'topP']],
+  ['gen_ai.request.top_k', ['top_k', 'topK']],
+  [
+    'gen_ai.request.max_tokens',
+    [
+      'max_tokens',
+      'max_completion_tokens',
+      'max_output_tokens',
+      'maxTokens',
+      'maxOutputTokens',
+    ],
+  ],
+  [
+    'gen_ai.request.stop_sequences',
+    ['stop', 'stop_sequences', 'stopSequences'],
+  ],
+  ['gen_ai.request.seed', ['seed']],
+  [
+    'gen_ai.request.frequency_penalty',
+    ['frequency_penalty', 'frequencyPenalty'],
+  ],
+  ['gen_ai.request.presence_penalty', ['presence_penalty', 'presencePenalty']],
+];
+
+/** The `gen_ai.*` attributes describing a request, to start a span with */
+export function genAIRequestAttributes(
+  request: GenAIRequest
+): Partial<GenAIAttributes> {
+  const attributes: Partial<GenAIAttributes> = {
+    'gen_ai.system': request.system,
+    'gen_ai.operation.name': request.operation ?? 'chat',
+  };
+  if (request.model) attributes['gen_ai.request.model'] = request.model;
+
+  const params = (request.params ?? {}) as Record<string, unknown>;
+  for (const [key, names] of REQUEST_PARAMS) {
+    const name = names.find((n) => params[n] != null);
+    if (!name) continue;
+    const value = params[name];
+    Object.assign(attributes, {
+      [key]:
+        key === 'gen_ai.request.stop_sequences' && typeof value === 'string'
+          ? [value]
+          : value,
+    });
+  }
+  return attributes;
+}
+
+// Credentials and transport options passed alongside request params
+const SECRET_KEY = /api_?key|secret|password|token$|authorization|headers/i;
+const TRANSPORT_KEYS = new Set(['signal', 'abortSignal', 'fetch', 'httpAgent']);
+const MAX_PARAM_DEPTH = 6;
+
+function sanitizeParam(value: unknown, depth: number): unknown {
+  if (
+    value === null ||
+    ['string', 'number', 'boolean'].includes(typeof value)
+  ) {
+    // Inline files (`data:image/png;base64,...`) are binary too
+    return typeof value === 'string' && /^data:[^,]*;base64,/.test(value)
+      ? undefined
+      : value;
+  }
+  if (typeof value !== 'object' || depth > MAX_PARAM_DEPTH) return undefined;
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => sanitizeParam(item, depth + 1))
+      .filter((item) => item !== undefined);
+  }
+  // Buffers, blobs, streams, schema objects and other class instances
+  const proto = Object.getPrototypeOf(value) as object | null;
+  if (proto !== Object.prototype && proto !== null) return undefined;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (SECRET_KEY.test(key) || TRANSPORT_KEYS.has(key)) continue;
+    const sanitized = sanitizeParam(item, depth + 1);
+    if (sanitized !== undefined) result[key] = sanitized;
+  }
+  return result;
+}
+
+/**
+ * The request options of an LLM call, for the span's `request` attribute.
+ * Content (`messages`, `prompt`, ...) is left to the caller's `omit` list;
+ * secrets, transport options, callbacks and binary data are always dropped.
+ */
+export function genAIRequestParams(
+  params: object | undefined,
+  omit: string[]
+): Record<string, unknown> {
+  const kept = Object.fromEntries(
+    Object.entries(params ?? {}).filter(([key]) => !omit.includes(key))
+  );
+  return sanitizeParam(kept, 0) as Record<string, unknown>;
+}
+
+const USAGE_KEYS: Array<[keyof GenAIUsage, keyof GenAIAttributes]> = [
+  ['inputTokens', 'gen_ai.usage.input_tokens'],
+  ['outputTokens', 'gen_ai.usage.output_tokens'],
+  ['cachedInputTokens', 'gen_ai.usage.cache_read.input_tokens'],
+  ['cacheCreationInputTokens', 'gen_ai.usage.cache_creation.input_tokens'],
+  ['reasoningTokens', 'gen_ai.usage.reasoning.output_tokens'],
+];
+
+/** Record token usage under both the `gen_ai.usage.*` and the UI keys */
+export function recordGenAIUsage(span: Span, usage: GenAIUsage): void {
+  for (const [key, genAIKey] of USAGE_KEYS) {
+    const value = usage[key];
+    if (typeof value !== 'number') continue;
+    span.attributes[key] = value;
+    span.attributes[genAIKey] = value;
+  }
+}
+
+/** Record the response id, model and finish reasons (one per choice) */
+export function recordGenAIResponse(span: Span, response: GenAIResponse): void {
+  if (response.id) span.attributes['gen_ai.response.id'] = response.id;
+  if (response.model) {
+    span.attributes['gen_ai.response.model'] = response.model;
+  }
+  const finishReasons = (response.finishReasons ?? []).filter(
+    (reason): reason is string => typeof reason === 'string'
+  );
+  if (finishReasons.length > 0) {
+    span.attributes['gen_ai.response.finish_reasons'] = finishReasons;
+    span.attributes.finishReason = finishReasons[0];
+  }
+}
+
+/**
+ * Record the time to first token of a streamed response, once
+ *
+ * @param startTime - Epoch milliseconds when the request was sent
+ */
+export function recordTimeToFirstToken(span: Span, startTime: number): void {
+  if (span.attributes['gen_ai.response.time_to_first_token_ms'] !== undefined) {
+    return;
+  }
+  const elapsedMs = Date.now() - startTime;
+  span.attributes['gen_ai.response.time_to_first_token_ms'] = elapsedMs;
+  span.attributes.latency = Math.round(elapsedMs * 10) / 10000;
+}
+
+/**
+ * Record output characters per second
+ *
+ * @param startTime - Epoch milliseconds when the request was sent
+ */
+export function recordThroughput(
+  span: Span,
+  outputLength: number,
+  startTime: number,
+  endTime = Date.now()
+): void {
+  const elapsed = (endTime - startTime) / 1000;
+  span.attributes.throughput =
+    outputLength > 0 && elapsed > 0
+      ? Math.round((outputLength / elapsed) * 100) / 100
+      : 0;
+}
@@ -0,0 +1,544 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { Tracer } from '../Tracer';
+import type { Span } from '../Span';
+import type { PromptClient } from '../promptClient';
+import { recordToolResults, registerToolCalls } from '../tools';
+import { traceTarget } from '../traceTarget';
+import type { TraceTarget, WrapOptions } from '../traceTarget';
+import {
+  genAIRequestAttributes,
+  genAIRequestParams,
+  recordGenAIResponse,
+  recordGenAIUsage,
+  recordThroughput,
+  recordTimeToFirstToken,
+} from '../genai';
+import {
+  applyBoundParameters,
+  getBoundParameters,
+  overriddenParams,
+  processSystemWithMetadata,
+  summarizeBinaryContent,
+} from './utils';
+
+type AnthropicClient = InstanceType<typeof Anthropic>;
+
+// Type to preserve the original Anthropic client's structure while adding our wrapper
+type WrappedAnthropic<T extends AnthropicClient> = T & {
+  __zeroeval_wrapped?: boolean;
+};
+
+type Method = (...args: unknown[]) => unknown;
+
+// The parts of the Messages API the wrapper reads
+type SystemParam = string | Array<{ type: string; text?: string }>;
+
+interface MessageParams {
+  model?: string;
+  system?: SystemParam;
+  messages?: Array<{ role: string; content: unknown }>;
+  stream?: boolean;
+}
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+}
+
+interface Usage {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+interface Message {
+  id?: string;
+  model?: string;
+  content?: ContentBlock[];
+  stop_reason?: string | null;
+  usage?: Usage;
+}
+
+interface StreamEvent {
+  type: string;
+  index?: number;
+  message?: Message;
+  content_block?: ContentBlock;
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+  };
+  usage?: Usage;
+}
+
+interface MessageStream {
+  on?: (event: string, listener: () => void) => unknown;
+  finalMessage?: () => Promise<Message>;
+}
+
+/**
+ * Wraps an Anthropic client instance to automatically trace
+ * `messages.create` (streaming and non-streaming), `messages.stream` and
+ * `messages.countTokens`.
+ *
+ * If ze.init() hasn't been called yet and ZEROEVAL_API_KEY is set in the environment,
+ * the SDK will be automatically initialized.
+ *
+ * @param client - The Anthropic client instance to wrap
+ * @param options - `client`: the ZeroEval client to trace with
+ * @returns A wrapped Anthropic client with automatic tracing
+ *
+ * @example
+ * ```ts
+ * import Anthropic from '@anthropic-ai/sdk';
+ * import { wrapAnthropic } from '@zeroeval/sdk';
+ *
+ * const client = wrapAnthropic(new Anthropic());
+ *
+ * const message = await client.messages.create({
+ *   model: 'claude-sonnet-4-5',
+ *   max_tokens: 1024,
+ *   messages: [{ role: 'user', content: 'Hello!' }]
+ * });
+ * ```
+ */
+export function wrapAnthropic<T extends AnthropicClient>(
+  client: T,
+  options: WrapOptions = {}
+): WrappedAnthropic<T> {
+  // Check if already wrapped to avoid double wrapping
+  if ((client as WrappedAnthropic<T>).__zeroeval_wrapped) {
+    return client as WrappedAnthropic<T>;
+  }
+
+  const traced = traceTarget(options);
+
+  const wrappedClient = new Proxy(client as object, {
+    get(target, prop, receiver) {
+      const value: unknown = Reflect.get(target, prop, receiver);
+
+      if (prop === '__zeroeval_wrapped') {
+        return true;
+      }
+
+      if (prop === 'messages' && typeof value === 'object' && value !== null) {
+        return new Proxy(value, {
+          get(messagesTarget, messagesProp) {
+            const messagesValue: unknown = Reflect.get(
+              messagesTarget,
+              messagesProp
+            );
+
+            if (typeof messagesValue !== 'function') {
+              return messagesValue;
+            }
+
+            const method = (messagesValue as Method).bind(messagesTarget);
+
+            if (messagesProp === 'create') {
+              return wrapMessagesCreate(method, traced);
+            }
+
+            if (messagesProp === 'stream') {
+              return wrapMessagesStream(method, traced.tracer);
+            }
+
+            if (messagesProp === 'countTokens') {
+              return wrapCountTokens(method, traced.tracer);
+            }
+
+            return messagesValue;
+          },
+        });
+      }
+
+      return value;
+    },
+  }) as WrappedAnthropic<T>;
+
+  return wrappedClient;
+}
+
+interface PreparedCall {
+  params: MessageParams;
+  tracer: Tracer;
+  span: Span;
+  serializedMessages: Array<{ role: string; content: unknown }>;
+  startTime: number;
+}
+
+/**
+ * Bound prompt-version parameters accepted by the Messages API, mapped to
+ * their option names
+ */
+const MESSAGES_PARAM_NAMES: Record<string, string> = {
+  max_tokens: 'max_tokens',
+  temperature: 'temperature',
+  top_p: 'top_p',
+  top_k: 'top_k',
+  stop_sequences: 'stop_sequences',
+};
+
+/**
+ * Applies ZeroEval prompt metadata from the `system` parameter and starts
+ * the LLM span for a messages call. `model` overrides the requested model
+ * and `bound` holds the prompt version's bound parameters.
+ */
+function startCall(
+  tracer: Tracer,
+  params: MessageParams | undefined,
+  spanName: string,
+  isStreaming: boolean,
+  model: string | undefined = params?.model,
+  bound: Record<string, unknown> = {}
+): PreparedCall {
+  const startTime = Date.now();
+
+  const {
+    system,
+    messages,
+    metadata: zeMetadata,
+    originalSystemContent,
+    toolResults,
+  } = processSystemWithMetadata(params?.system, params?.messages);
+
+  // tool_result blocks in this request close the tool_use of an earlier one
+  recordToolResults(tracer, toolResults);
+
+  const { params: modifiedParams, overridden } = applyBoundParameters(
+    { ...params, system, messages, model },
+    bound,
+    MESSAGES_PARAM_NAMES
+  );
+
+  // Record the system prompt as the first message, like OpenAI's format
+  const serializedMessages = [
+    ...(system !== undefined ? [{ role: 'system', content: system }] : []),
+    ...(messages ?? []).map((msg) => ({
+      role: msg.role,
+      content: summarizeBinaryContent(msg.content),
+    })),
+  ];
+
+  const spanAttributes: Record<string, unknown> = {
+    'service.name': 'anthropic',
+    kind: 'llm',
+    provider: 'anthropic',
+    model,
+    messages: serializedMessages,
+    streaming: isStreaming,
+    request: genAIRequestParams(modifiedParams, [
+      'model',
+      'messages',
+      'system',
+    ]),
+    ...genAIRequestAttributes({
+      system: 'anthropic',
+      model,
+      params: modifiedParams,
+    }),
+    ...overriddenParams(overridden, params?.model, model),
+  };
+
+  if (zeMetadata) {
+    spanAttributes.task = zeMetadata.task;
+    spanAttributes.zeroeval = zeMetadata;
+    if (originalSystemContent) {
+      spanAttributes.system_prompt_template = originalSystemContent;
+    }
+  }
+
+  const span = tracer.startSpan(spanName, {
+    attributes: spanAttributes,
+    tags: { integration: 'anthropic' },
+  });
+
+  return {
+    params: modifiedParams,
+    tracer,
+    span,
+    serializedMessages,
+    startTime,
+  };
+}
+
+/**
+ * The Claude model bound to the prompt version, if any
+ */
+async function getBoundModel(
+  promptClient: PromptClient,
+  promptVersionId: string | undefined
+): Promise<string | undefined> {
+  if (!promptVersionId || !promptClient.isApplyingPromptSettings()) {
+    return undefined;
+  }
+
+  try {
+    const boundModel =
+      await promptClient.getModelForPromptVersion(promptVersionId);
+    const model = boundModel?.replace(/^zeroeval\//, '');
+    // Models bound for other providers cannot be sent to the Anthropic API
+    return model?.startsWith('claude') ? model : undefined;
+  } catch {
+    // Silently ignore model lookup failures, use original model
+    return undefined;
+  }
+}
+
+/**
+ * Records usage, stop reason, tool calls and output of a complete Message
+ */
+function recordMessage(call: PreparedCall, message: Message | undefined) {
+  const { span, serializedMessages, startTime } = call;
+  const content = Array.isArray(message?.content) ? message.content : [];
+
+  recordUsage(span, message?.usage);
+  recordGenAIResponse(span, {
+    id: message?.id,
+    model: message?.model,
+    finishReasons: [message?.stop_reason],
+  });
+
+  const toolCalls = content
+    .filter((block) => block?.type === 'tool_use')
+    .map((block) => ({ id: block.id, name: block.name, input: block.input }));
+  if (toolCalls.length > 0) {
+    span.attributes.toolCalls = toolCalls;
+    registerToolCalls(call.tracer, span, toolCalls);
+  }
+
+  const text = content
+    .filter((block) => block?.type === 'text')
+    .map((block) => block.text ?? '')
+    .join('');
+  const output =
+    text || (toolCalls.length > 0 ? JSON.stringify(toolCalls) : '');
+
+  recordThroughput(span, output.length, startTime);
+
+  span.setIO(JSON.stringify(serializedMessages), output);
+}
+
+// Anthropic counts cache reads and writes apart from `input_tokens`; the
+// recorded input count includes them, as for the other providers
+function recordUsage(span: Span, usage: Usage | undefined): void {
+  if (!usage) return;
+  const cacheRead = usage.cache_read_input_tokens ?? undefined;
+  const cacheCreation = usage.cache_creation_input_tokens ?? undefined;
+  recordGenAIUsage(span, {
+    inputTokens:
+      typeof usage.input_tokens === 'number'
+        ? usage.input_tokens + (cacheRead ?? 0) + (cacheCreation ?? 0)
+        : undefined,
+    outputTokens: usage.output_tokens ?? undefined,
+    cachedInputTokens: cacheRead,
+    cacheCreationInputTokens: cacheCreation,
+  });
+}
+
+// message_delta may report counts as null; keep the earlier values then
+function mergeUsage(target: Usage, update: Usage | undefined): void {
+  for (const [key, value] of Object.entries(update ?? {})) {
+    if (typeof value === 'number') target[key as keyof Usage] = value;
+  }
+}
+
+function recordError(span: Span, error: unknown, fallbackCode: string) {
+  const err = error as Partial<Error> | undefined;
+  span.setError({
+    code: err?.name || fallbackCode,
+    message: err?.message || 'An unknown error occurred',
+    stack: err?.stack,
+  });
+}
+
+/**
+ * Wraps messages.create, including `stream: true` calls
+ */
+function wrapMessagesCreate(
+  originalMethod: Method,
+  { tracer, promptClient }: TraceTarget
+): Method {
+  return async function wrappedCreate(...args: unknown[]) {
+    const [params, ...rest] = args as [MessageParams | undefined];
+    const isStreaming = !!params?.stream;
+    // Patch model and parameters if the prompt version has them bound
+    const { metadata } = processSystemWithMetadata(params?.system, undefined);
+    const promptVersionId = metadata?.prompt_version_id;
+    const boundModel = await getBoundModel(promptClient, promptVersionId);
+    const call = startCall(
+      tracer,
+      params,
+      'anthropic.messages.create',
+      isStreaming,
+      boundModel ?? params?.model,
+      await getBoundParameters(promptClient, promptVersionId)
+    );
+
+    try {
+      const result = await originalMethod(call.params, ...rest);
+
+      if (
+        isStreaming &&
+        typeof (result as AsyncIterable<unknown> | null)?.[
+          Symbol.asyncIterator
+        ] === 'function'
+      ) {
+        return wrapEventStream(result as AsyncIterable<StreamEvent>, call);
+      }
+
+      recordMessage(call, result as Message);
+      tracer.endSpan(call.span);
+      return result;
+    } catch (error) {
+      recordError(call.span, error, 'UnknownError');
+      tracer.endSpan(call.span);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Wraps messages.stream. The returned MessageStream is handed back as is;
+ * the span ends once its final message is assembled or the stream fails.
+ */
+function wrapMessagesStream(originalMethod: Method, tracer: Tracer): Method {
+  return function wrappedStream(...args: unknown[]) {
+    const [params, ...rest] = args as [MessageParams | undefined];
+    // messages.stream returns synchronously, so bound models and parameters
+    // (which need a lookup request) are not applied here
+    const call = startCall(tracer, params, 'anthropic.messages.stream', true);
+    const { span } = call;
+
+    let stream: MessageStream | undefined;
+    try {
+      stream = originalMethod(call.params, ...rest) as MessageStream;
+    } catch (error) {
+      recordError(span, error, 'UnknownError');
+      tracer.endSpan(span);
+      throw error;
+    }
+
+    stream?.on?.('text', () => recordTimeToFirstToken(span, call.startTime));
+
+    if (typeof stream?.finalMessage === 'function') {
+      stream.finalMessage().then(
+        (message) => {
+          recordMessage(call, message);
+          tracer.endSpan(span);
+        },
+        (error) => {
+          recordError(span, error, 'StreamError');
+          tracer.endSpan(span);
+        }
+      );
+    } else {
+      tracer.endSpan(span);
+    }
+
+    return stream;
+  };
+}
+
+/**
+ * Wraps messages.countTokens with tracing
+ */
+function wrapCountTokens(originalMethod: Method, tracer: Tracer): Method {
+  return async function wrappedCountTokens(...args: unknown[]) {
+    const [params] = args as [MessageParams | undefined];
+
+    const span = tracer.startSpan('anthropic.messages.countTokens', {
+      attributes: {
+        'service.name': 'anthropic',
+        kind: 'operation',
+        provider: 'anthropic',
+        ...(params?.model && { model: params.model }),
+      },
+      tags: { integration: 'anthropic' },
+    });
+
+    try {
+      const result = (await originalMethod(...args)) as Usage | undefined;
+      recordGenAIUsage(span, {
+        inputTokens: result?.input_tokens ?? undefined,
+      });
+      span.setIO(JSON.stringify(params), JSON.stringify(result));
+      tracer.endSpan(span);
+      return result;
+    } catch (error) {
+      recordError(span, error, 'UnknownError');
+      tracer.endSpan(span);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Wraps a `stream: true` event stream, assembling the message from its
+ * events so the span gets the same attributes as a non-streaming call
+ */
+async function* wrapEventStream(
+  stream: AsyncIterable<StreamEvent>,
+  call: PreparedCall
+): AsyncIterable<StreamEvent> {
+  const content: ContentBlock[] = [];
+  const message: Message & { usage: Usage } = { content, usage: {} };
+  const partialJson = new Map<number, string>();
+
+  try {
+    for await (const event of stream) {
+      const index = event?.index ?? 0;
+      switch (event?.type) {
+        case 'message_start':
+          message.id = event.message?.id;
+          message.model = event.message?.model;
+          mergeUsage(message.usage, event.message?.usage);
+          break;
+        case 'content_block_start':
+          if (event.content_block) content[index] = { ...event.content_block };
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && content[index]) {
+            recordTimeToFirstToken(call.span, call.startTime);
+            content[index].text =
+              (content[index].text ?? '') + (event.delta.text ?? '');
+          } else if (event.delta?.type === 'input_json_delta') {
+            partialJson.set(
+              index,
+              (partialJson.get(index) ?? '') + (event.delta.partial_json ?? '')
+            );
+          }
+          break;
+        case 'content_block_stop': {
+          const json = partialJson.get(index);
+          if (json && content[index]) {
+            try {
+              content[index].input = JSON.parse(json);
+            } catch {
+              content[index].input = json;
+            }
+          }
+          break;
+        }
+        case 'message_delta':
+          message.stop_reason = event.delta?.stop_reason;
+          mergeUsage(message.usage, event.usage);
+          break;
+      }
+      yield event;
+    }
+
+    recordMessage(call, message);
+  } catch (error) {
+    recordError(call.span, error, 'StreamError');
+    throw error;
+  } finally {
+    call.tracer.endSpan(call.span);
+  }
+}
@@ -13,13 +13,41 @@ import type {
 import type { ChainValues } from '@langchain/core/dist/utils/types';
 import { ToolMessage } from '@langchain/core/messages';
 import type { RunnableConfig } from '@langchain/core/runnables';
-import { tracer } from '../../Tracer';
+import type { Tracer } from '../../Tracer';
 import type { Span } from '../../Span';
 import { getLogger } from '../../logger';
+import { traceTarget } from '../../traceTarget';
+import type { WrapOptions } from '../../traceTarget';
+import {
+  genAIRequestAttributes,
+  recordGenAIResponse,
+  recordGenAIUsage,
+  recordThroughput,
+} from '../../genai';
 
 const logger = getLogger('zeroeval.langchain');
 
-export interface ZeroEvalCallbackHandlerOptions {
+// The usage_metadata of AI messages
+interface UsageMetadata {
+  input_tokens?: number;
+  output_tokens?: number;
+  input_token_details?: { cache_read?: number; cache_creation?: number };
+  output_token_details?: { reasoning?: number };
+}
+
+// The token counts of `llmOutput`, which LangChain leaves untyped
+interface LLMOutput {
+  tokenUsage?: TokenUsage;
+  estimatedTokens?: TokenUsage;
+}
+
+interface TokenUsage {
+  totalTokens?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface ZeroEvalCallbackHandlerOptions extends WrapOptions {
   debug?: boolean;
   excludeMetadataProps?: RegExp;
   maxConcurrentSpans?: number;
@@ -76,7 +104,8 @@ export class ZeroEvalCallbackHandler
   name = 'ZeroEvalCallbackHandler';
   private spans: Map<string, Span>;
   private rootRunId?: string;
-  private options: Required<ZeroEvalCallbackHandlerOptions>;
+  private options: Required<Omit<ZeroEvalCallbackHandlerOptions, 'client'>>;
+  private readonly tracer: Tracer;
 
   private metadataPool: ObjectPool<Record<string, unknown>>;
   private cleanupTimer?: NodeJS.Timeout;
@@ -105,6 +134,7 @@ export class ZeroEvalCallbackHandler
       spanCleanupIntervalMs: options?.spanCleanupIntervalMs ?? 60000,
     };
 
+    this.tracer = traceTarget(options).tracer;
     this.cachedRegex = this.options.excludeMetadataProps;
 
     this.metadataPool = new ObjectPool<Record<string, unknown>>(
@@ -135,7 +165,7 @@ export class ZeroEvalCallbackHandler
           span.setError({
             message: 'Span orphaned - auto-cleaned after timeout',
           });
-          tracer.endSpan(span);
+          this.tracer.endSpan(span);
         }
         this.spans.delete(runId);
         this.spanStartTimes.delete(runId);
@@ -151,6 +181,7 @@ export class ZeroEvalCallbackHandler
     input,
     tags,
     metadata,
+    callParams,
   }: {
     runId: string;
     parentRunId?: string;
@@ -159,6 +190,8 @@ export class ZeroEvalCallbackHandler
     input?: unknown;
     tags?: string[];
     metadata?: Record<string, unknown>;
+    /** LLM call options from normalizeCallParamsOptimized */
+    callParams?: Record<string, unknown>;
   }) {
     if (this.spans.has(runId)) {
       logger.warn(`Span already exists for runId ${runId}`);
@@ -184,7 +217,7 @@ export class ZeroEvalCallbackHandler
       attributes.kind = 'llm';
 
       if (attributes.provider === undefined) {
-        attributes.provider = 'openai';
+        attributes.provider = metadata?.ls_provider ?? 'openai';
       }
 
       if (attributes['service.name'] === undefined) {
@@ -200,6 +233,20 @@ export class ZeroEvalCallbackHandler
       }
     }
 
+    if (type === 'llm') {
+      Object.assign(
+        attributes,
+        genAIRequestAttributes({
+          system: String(attributes.provider),
+          model:
+            typeof callParams?.model === 'string'
+              ? callParams.model
+              : undefined,
+          params: callParams,
+        })
+      );
+    }
+
     if (this.options.debug) {
       attributes.runId = runId;
       attributes.parentRunId = parentRunId;
@@ -208,7 +255,7 @@ export class ZeroEvalCallbackHandler
     const spanTags: Record<string, string> = { integration: 'langchain' };
     if (type) spanTags[`langchain.${type}`] = 'true';
 
-    const span = tracer.startSpan(name, {
+    const span = this.tracer.startSpan(name, {
       attributes,
       tags: spanTags,
     });
@@ -275,22 +322,8 @@ export class ZeroEvalCallbackHandler
       this.metadataPool.release(additionalAttrs);
     }
 
-    // End the span to get duration, then calculate throughput
     span.end();
-
-    // Calculate throughput after ending the span when we have the duration
-    if (
-      span.attributes.outputTokens &&
-      span.durationMs &&
-      span.durationMs > 0
-    ) {
-      const outputTokens = span.attributes.outputTokens as number;
-      // Calculate tokens per second
-      span.attributes.throughput =
-        Math.round((outputTokens / (span.durationMs / 1000)) * 100) / 100;
-    }
-
-    tracer.endSpan(span);
+    this.tracer.endSpan(span);
   }
 
   private beginTracerSegment({
@@ -301,6 +334,7 @@ export class ZeroEvalCallbackHandler
     input,
     tags,
     metadata,
+    callParams,
   }: {
     runId: string;
     parentRunId?: string;
@@ -309,6 +343,7 @@ export class ZeroEvalCallbackHandler
     input: unknown;
     tags?: string[];
     metadata?: Record<string, unknown>;
+    callParams?: Record<string, unknown>;
   }) {
     this.startSpan({
       runId,
@@ -318,6 +353,7 @@ export class ZeroEvalCallbackHandler
       input,
       tags,
       metadata,
+      callParams,
     });
   }
 
@@ -377,6 +413,7 @@ export class ZeroEvalCallbackHandler
       input: prompts,
       tags,
       metadata: normalizedMetadata,
+      callParams,
     });
 
     if (metadata) this.metadataPool.release(normalizedMetadata);
@@ -403,21 +440,18 @@ export class ZeroEvalCallbackHandler
     if (!span) return;
 
     const { llmOutput, generations, ...metadata } = output;
-    const tokenUsage =
-      llmOutput?.tokenUsage || llmOutput?.estimatedTokens || {};
+    const counts = llmOutput as LLMOutput | undefined;
+    const tokenUsage = counts?.tokenUsage || counts?.estimatedTokens || {};
 
     if (
       tokenUsage.totalTokens ||
       tokenUsage.promptTokens ||
       tokenUsage.completionTokens
     ) {
-      // Set tokens in the format expected by the UI
-      if (tokenUsage.promptTokens) {
-        span.attributes.inputTokens = tokenUsage.promptTokens;
-      }
-      if (tokenUsage.completionTokens) {
-        span.attributes.outputTokens = tokenUsage.completionTokens;
-      }
+      recordGenAIUsage(span, {
+        inputTokens: tokenUsage.promptTokens || undefined,
+        outputTokens: tokenUsage.completionTokens || undefined,
+      });
 
       // Also keep the metrics for backward compatibility
       if (!span.attributes.metrics) {
@@ -429,8 +463,24 @@ export class ZeroEvalCallbackHandler
         metrics.prompt_tokens = tokenUsage.promptTokens;
       if (tokenUsage.completionTokens)
         metrics.completion_tokens = tokenUsage.completionTokens;
+    } else {
+      this.recordMessageUsage(span, generations);
     }
 
+    const flat = (generations as Array<Generation | Generation[]>).flat();
+    recordGenAIResponse(span, {
+      finishReasons: flat.map(
+        (gen) =>
+          (gen.generationInfo?.finish_reason ??
+            gen.generationInfo?.stop_reason) as string | undefined
+      ),
+    });
+    recordThroughput(
+      span,
+      flat.reduce((length, gen) => length + (gen.text?.length ?? 0), 0),
+      span.startTime
+    );
+
     this.finishTracerSegment({
       runId,
       output: this.flattenGenerationsOptimized(generations),
@@ -482,6 +532,7 @@ export class ZeroEvalCallbackHandler
       input: this.flattenMessagesInputOptimized(messages),
       tags,
       metadata: normalizedMetadata,
+      callParams,
     });
 
     this.metadataPool.release(normalizedMetadata);
@@ -666,6 +717,34 @@ export class ZeroEvalCallbackHandler
     }
   }
 
+  /**
+   * Usage from the `usage_metadata` of chat messages, for models that do not
+   * report `llmOutput.tokenUsage`
+   */
+  private recordMessageUsage(
+    span: Span,
+    generations: Generation[][] | ChatGeneration[]
+  ): void {
+    const usage = (generations as Array<Generation | Generation[]>)
+      .flat()
+      .map(
+        (gen) =>
+          (gen as Partial<ChatGeneration>).message as
+            | { usage_metadata?: UsageMetadata }
+            | undefined
+      )
+      .find((message) => message?.usage_metadata)?.usage_metadata;
+    if (!usage) return;
+
+    recordGenAIUsage(span, {
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cachedInputTokens: usage.input_token_details?.cache_read,
+      cacheCreationInputTokens: usage.input_token_details?.cache_creation,
+      reasoningTokens: usage.output_token_details?.reasoning,
+    });
+  }
+
   // Optimized helper functions
   private normalizeCallParamsOptimized(
     llm: Serialized,
@@ -855,7 +934,7 @@ export class ZeroEvalCallbackHandler
 
     for (const span of this.spans.values()) {
       span.setError({ message: 'Handler destroyed with active span' });
-      tracer.endSpan(span);
+      this.tracer.endSpan(span);
     }
 
     this.spans.clear();
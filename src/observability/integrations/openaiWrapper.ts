@@ -1,7 +1,26 @@
 import type { OpenAI } from 'openai';
-import { tracer } from '../Tracer';
-import { getPromptClient } from '../promptClient';
-import { processMessagesWithMetadata } from './utils';
+import type { Tracer } from '../Tracer';
+import type { Span } from '../Span';
+import type { PromptClient } from '../promptClient';
+import { recordToolResults, registerToolCalls } from '../tools';
+import { traceTarget } from '../traceTarget';
+import type { TraceTarget, WrapOptions } from '../traceTarget';
+import {
+  genAIRequestAttributes,
+  genAIRequestParams,
+  recordGenAIResponse,
+  recordGenAIUsage,
+  recordThroughput,
+  recordTimeToFirstToken,
+} from '../genai';
+import {
+  applyBoundParameters,
+  getBoundParameters,
+  overriddenParams,
+  processMessagesWithMetadata,
+  processSystemWithMetadata,
+  summarizeBinaryContent,
+} from './utils';
 
 type OpenAIClient = InstanceType<typeof OpenAI>;
 
@@ -10,6 +29,119 @@ type WrappedOpenAI<T extends OpenAIClient> = T & {
   __zeroeval_wrapped?: boolean;
 };
 
+type Method = (...args: unknown[]) => unknown;
+
+// The parts of the Chat Completions and Responses APIs the wrapper reads
+interface ChatMessage {
+  role: string;
+  content: unknown;
+}
+
+interface ChatParams {
+  model?: string;
+  messages?: ChatMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  max_completion_tokens?: number;
+}
+
+interface ChatToolCall {
+  index?: number;
+  id?: string;
+  type?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number } | null;
+  completion_tokens_details?: { reasoning_tokens?: number } | null;
+}
+
+interface ChatCompletion {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index?: number;
+    message?: {
+      content?: string | null;
+      refusal?: string | null;
+      tool_calls?: ChatToolCall[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatUsage | null;
+}
+
+interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index?: number;
+    delta?: {
+      content?: string | null;
+      refusal?: string | null;
+      tool_calls?: ChatToolCall[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatUsage | null;
+}
+
+interface ResponsesParams {
+  model?: string;
+  instructions?: string;
+  input?: string | ChatMessage[];
+  stream?: boolean;
+}
+
+interface ResponseOutputItem {
+  type?: string;
+  id?: string;
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  content?: Array<{ type?: string; text?: string }>;
+}
+
+interface ResponseObject {
+  id?: string;
+  model?: string;
+  status?: string;
+  incomplete_details?: { reason?: string } | null;
+  error?: { code?: string; message?: string } | null;
+  output?: ResponseOutputItem[];
+  output_text?: string;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    input_tokens_details?: { cached_tokens?: number } | null;
+    output_tokens_details?: { reasoning_tokens?: number } | null;
+  } | null;
+}
+
+interface ResponseStreamEvent {
+  type?: string;
+  delta?: string;
+  response?: ResponseObject;
+  code?: string | null;
+  message?: string;
+}
+
+interface ResponseStream {
+  on?: (event: string, listener: () => void) => unknown;
+  finalResponse?: () => Promise<ResponseObject>;
+}
+
+// Results of the other traced methods (embeddings, images, audio, ...)
+interface GenericResult {
+  data?: unknown[];
+  text?: string;
+  embedding?: unknown[];
+  usage?: { prompt_tokens?: number };
+}
+
 /**
  * Wraps an OpenAI client instance to automatically trace all API calls.
  * This approach provides better TypeScript support and is more maintainable
@@ -19,6 +151,7 @@ type WrappedOpenAI<T extends OpenAIClient> = T & {
  * the SDK will be automatically initialized.
  *
  * @param client - The OpenAI client instance to wrap
+ * @param options - `client`: the ZeroEval client to trace with
  * @returns A wrapped OpenAI client with automatic tracing
  *
  * @example
@@ -37,17 +170,21 @@ type WrappedOpenAI<T extends OpenAIClient> = T & {
  * ```
  */
 export function wrapOpenAI<T extends OpenAIClient>(
-  client: T
+  client: T,
+  options: WrapOptions = {}
 ): WrappedOpenAI<T> {
   // Check if already wrapped to avoid double wrapping
   if ((client as WrappedOpenAI<T>).__zeroeval_wrapped) {
     return client as WrappedOpenAI<T>;
   }
 
+  const traced = traceTarget(options);
+  const { tracer } = traced;
+
   // Create a proxy to intercept method calls
   const wrappedClient = new Proxy(client as object, {
     get(target, prop, receiver) {
-      const value = Reflect.get(target, prop, receiver);
+      const value: unknown = Reflect.get(target, prop, receiver);
 
       // Handle special properties
       if (prop === '__zeroeval_wrapped') {
@@ -55,23 +192,29 @@ export function wrapOpenAI<T extends OpenAIClient>(
       }
 
       // Handle chat.completions.create
-      if (prop === 'chat') {
+      if (prop === 'chat' && isObject(value)) {
         return new Proxy(value, {
           get(chatTarget, chatProp) {
-            const chatValue = Reflect.get(chatTarget, chatProp);
+            const chatValue: unknown = Reflect.get(chatTarget, chatProp);
 
-            if (chatProp === 'completions') {
+            if (chatProp === 'completions' && isObject(chatValue)) {
               return new Proxy(chatValue, {
                 get(completionsTarget, completionsProp) {
-                  const completionsValue = Reflect.get(
+                  const completionsValue: unknown = Reflect.get(
                     completionsTarget,
                     completionsProp
                   );
 
+                  if (typeof completionsValue !== 'function') {
+                    return completionsValue;
+                  }
+
+                  const method = (completionsValue as Method).bind(
+                    completionsTarget
+                  );
+
                   if (completionsProp === 'create') {
-                    return wrapCompletionsCreate(
-                      completionsValue.bind(completionsTarget)
-                    );
+                    return wrapCompletionsCreate(method, traced);
                   }
 
                   // Add other completion methods as needed
@@ -82,8 +225,9 @@ export function wrapOpenAI<T extends OpenAIClient>(
                     completionsProp === 'delete'
                   ) {
                     return wrapGenericMethod(
-                      completionsValue.bind(completionsTarget),
-                      `openai.chat.completions.${String(completionsProp)}`
+                      method,
+                      `openai.chat.completions.${String(completionsProp)}`,
+                      tracer
                     );
                   }
 
@@ -97,15 +241,47 @@ export function wrapOpenAI<T extends OpenAIClient>(
         });
       }
 
+      // Handle responses.create and responses.stream
+      if (prop === 'responses' && isObject(value)) {
+        return new Proxy(value, {
+          get(responsesTarget, responsesProp) {
+            const responsesValue: unknown = Reflect.get(
+              responsesTarget,
+              responsesProp
+            );
+
+            if (typeof responsesValue !== 'function') {
+              return responsesValue;
+            }
+
+            const method = (responsesValue as Method).bind(responsesTarget);
+
+            if (responsesProp === 'create') {
+              return wrapResponsesCreate(method, traced);
+            }
+
+            if (responsesProp === 'stream') {
+              return wrapResponsesStream(method, tracer);
+            }
+
+            if (responsesProp === 'retrieve' || responsesProp === 'delete') {
+              return wrapGenericMethod(
+                method,
+                `openai.responses.${String(responsesProp)}`,
+                tracer
+              );
+            }
+
+            return responsesValue;
+          },
+        });
+      }
+
       // Handle other top-level APIs
-      if (
-        prop === 'embeddings' &&
-        typeof value === 'object' &&
-        value !== null
-      ) {
+      if (prop === 'embeddings' && isObject(value)) {
         return new Proxy(value, {
           get(embeddingsTarget, embeddingsProp) {
-            const embeddingsValue = Reflect.get(
+            const embeddingsValue: unknown = Reflect.get(
               embeddingsTarget,
               embeddingsProp
             );
@@ -115,8 +291,9 @@ export function wrapOpenAI<T extends OpenAIClient>(
               typeof embeddingsValue === 'function'
             ) {
               return wrapGenericMethod(
-                embeddingsValue.bind(embeddingsTarget),
-                'openai.embeddings.create'
+                (embeddingsValue as Method).bind(embeddingsTarget),
+                'openai.embeddings.create',
+                tracer
               );
             }
 
@@ -126,10 +303,10 @@ export function wrapOpenAI<T extends OpenAIClient>(
       }
 
       // Handle images API
-      if (prop === 'images' && typeof value === 'object' && value !== null) {
+      if (prop === 'images' && isObject(value)) {
         return new Proxy(value, {
           get(imagesTarget, imagesProp) {
-            const imagesValue = Reflect.get(imagesTarget, imagesProp);
+            const imagesValue: unknown = Reflect.get(imagesTarget, imagesProp);
 
             if (
               (imagesProp === 'generate' ||
@@ -138,8 +315,9 @@ export function wrapOpenAI<T extends OpenAIClient>(
               typeof imagesValue === 'function'
             ) {
               return wrapGenericMethod(
-                imagesValue.bind(imagesTarget),
-                `openai.images.${String(imagesProp)}`
+                (imagesValue as Method).bind(imagesTarget),
+                `openai.images.${String(imagesProp)}`,
+                tracer
               );
             }
 
@@ -149,26 +327,26 @@ export function wrapOpenAI<T extends OpenAIClient>(
       }
 
       // Handle audio API
-      if (prop === 'audio' && typeof value === 'object' && value !== null) {
+      if (prop === 'audio' && isObject(value)) {
         return new Proxy(value, {
           get(audioTarget, audioProp) {
-            const audioValue = Reflect.get(audioTarget, audioProp);
+            const audioValue: unknown = Reflect.get(audioTarget, audioProp);
 
             // Handle audio.transcriptions and audio.translations
             if (
               (audioProp === 'transcriptions' ||
                 audioProp === 'translations') &&
-              typeof audioValue === 'object' &&
-              audioValue !== null
+              isObject(audioValue)
             ) {
               return new Proxy(audioValue, {
                 get(subTarget, subProp) {
-                  const subValue = Reflect.get(subTarget, subProp);
+                  const subValue: unknown = Reflect.get(subTarget, subProp);
 
                   if (subProp === 'create' && typeof subValue === 'function') {
                     return wrapGenericMethod(
-                      subValue.bind(subTarget),
-                      `openai.audio.${String(audioProp)}.create`
+                      (subValue as Method).bind(subTarget),
+                      `openai.audio.${String(audioProp)}.create`,
+                      tracer
                     );
                   }
 
@@ -189,45 +367,65 @@ export function wrapOpenAI<T extends OpenAIClient>(
   return wrappedClient;
 }
 
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+  return (
+    typeof (value as AsyncIterable<T> | null)?.[Symbol.asyncIterator] ===
+    'function'
+  );
+}
+
+function recordError(
+  span: Span,
+  error: unknown,
+  fallbackCode: string,
+  fallbackMessage: string
+) {
+  const err = error as Partial<Error> | undefined;
+  span.setError({
+    code: err?.name || fallbackCode,
+    message: err?.message || fallbackMessage,
+    stack: err?.stack,
+  });
+}
+
 /**
  * Wraps the chat.completions.create method with tracing
  */
-function wrapCompletionsCreate(originalMethod: Function): Function {
-  return async function wrappedCreate(...args: any[]) {
-    const [params] = args;
+function wrapCompletionsCreate(
+  originalMethod: Method,
+  { tracer, promptClient }: TraceTarget
+): Method {
+  return async function wrappedCreate(...args: unknown[]) {
+    const [params] = args as [ChatParams | undefined];
     const isStreaming = !!params?.stream;
-    const startTime = Date.now() / 1000; // Convert to seconds for consistency with Python
+    const startTime = Date.now();
 
     // Process messages to extract ZeroEval metadata
     const {
       processedMessages,
       metadata: zeMetadata,
       originalSystemContent,
+      toolResults,
     } = processMessagesWithMetadata(params?.messages);
 
-    // Patch model if prompt version has a bound model
-    let patchedModel = params?.model;
-    if (zeMetadata?.prompt_version_id) {
-      try {
-        const client = getPromptClient();
-        const boundModel = await client.getModelForPromptVersion(
-          zeMetadata.prompt_version_id
-        );
-        if (boundModel) {
-          // Strip zeroeval/ prefix before sending to OpenAI API
-          patchedModel = boundModel.replace(/^zeroeval\//, '');
-        }
-      } catch {
-        // Silently ignore model lookup failures, use original model
-      }
-    }
+    // Tool results in this request close the tool calls of an earlier one
+    recordToolResults(tracer, toolResults);
 
-    // Build the modified params with processed messages and potentially patched model
-    const modifiedParams = {
-      ...params,
-      messages: processedMessages,
-      model: patchedModel,
-    };
+    // Patch model and parameters if the prompt version has them bound
+    const patchedModel = await getPatchedModel(
+      promptClient,
+      params?.model,
+      zeMetadata?.prompt_version_id
+    );
+    const { params: modifiedParams, overridden } = applyBoundParameters(
+      { ...params, messages: processedMessages, model: patchedModel },
+      await getBoundParameters(promptClient, zeMetadata?.prompt_version_id),
+      chatParamNames(patchedModel, params)
+    );
 
     // Enable usage tracking for streaming on OpenAI-native models
     if (
@@ -241,9 +439,9 @@ function wrapCompletionsCreate(originalMethod: Function): Function {
 
     // Serialize processed messages for attributes (after variable interpolation)
     const serializedMessages = processedMessages
-      ? processedMessages.map((msg: any) => ({
+      ? processedMessages.map((msg) => ({
           role: msg.role,
-          content: msg.content,
+          content: summarizeBinaryContent(msg.content),
         }))
       : [];
 
@@ -255,6 +453,13 @@ function wrapCompletionsCreate(originalMethod: Function): Function {
       model: patchedModel,
       messages: serializedMessages,
       streaming: isStreaming,
+      request: genAIRequestParams(modifiedParams, ['model', 'messages']),
+      ...genAIRequestAttributes({
+        system: 'openai',
+        model: patchedModel,
+        params: modifiedParams,
+      }),
+      ...overriddenParams(overridden, params?.model, patchedModel),
     };
 
     // Add ZeroEval metadata to span attributes if present
@@ -275,59 +480,519 @@ function wrapCompletionsCreate(originalMethod: Function): Function {
       const result = await originalMethod(modifiedParams);
 
       // Handle streaming responses
-      if (
-        isStreaming &&
-        result &&
-        typeof result[Symbol.asyncIterator] === 'function'
-      ) {
+      if (isStreaming && isAsyncIterable<ChatCompletionChunk>(result)) {
         // Return a wrapped stream that traces chunks
-        return wrapStream(result, span, serializedMessages, startTime);
+        return wrapStream(tracer, result, span, serializedMessages, startTime);
       }
 
       // Handle non-streaming responses
-      if (!isStreaming && result) {
-        const elapsed = Date.now() / 1000 - startTime;
-        const output = result.choices?.[0]?.message?.content || '';
+      const completion = result as ChatCompletion | undefined;
+      if (!isStreaming && completion) {
+        const output = recordChoices(
+          tracer,
+          span,
+          (completion.choices ?? []).map(
+            (choice, i): ChoiceSummary => ({
+              index: choice.index ?? i,
+              content: choice.message?.content ?? '',
+              refusal: choice.message?.refusal ?? undefined,
+              toolCalls: (choice.message?.tool_calls ?? []).map((call) => ({
+                id: call.id,
+                type: call.type,
+                name: call.function?.name,
+                arguments: call.function?.arguments,
+              })),
+              finishReason: choice.finish_reason ?? undefined,
+            })
+          ),
+          completion
+        );
 
         // Add usage information if available
-        if (result.usage) {
-          span.attributes.inputTokens = result.usage.prompt_tokens;
-          span.attributes.outputTokens = result.usage.completion_tokens;
+        if (completion.usage) {
+          recordChatUsage(span, completion.usage);
         }
 
-        // Calculate throughput
-        const throughput =
-          output.length > 0 && elapsed > 0
-            ? Math.round((output.length / elapsed) * 100) / 100
-            : 0;
-        span.attributes.throughput = throughput;
+        recordThroughput(span, output.length, startTime);
 
         span.setIO(JSON.stringify(serializedMessages), output);
       }
 
       tracer.endSpan(span);
       return result;
-    } catch (error: any) {
-      span.setError({
-        code: error?.name || 'UnknownError',
-        message: error?.message || 'An unknown error occurred',
-        stack: error?.stack,
-      });
+    } catch (error) {
+      recordError(span, error, 'UnknownError', 'An unknown error occurred');
       tracer.endSpan(span);
       throw error;
     }
   };
 }
 
+/**
+ * Records token counts of a chat completion, including the cached input
+ * and reasoning tokens they contain (used for cost estimation)
+ */
+function recordChatUsage(span: Span, usage: ChatUsage): void {
+  recordGenAIUsage(span, {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    cachedInputTokens: usage.prompt_tokens_details?.cached_tokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+  });
+}
+
+/**
+ * One chat completion choice, from a response or reassembled from a stream
+ */
+interface ChoiceSummary {
+  index: number;
+  content: string;
+  refusal?: string;
+  toolCalls: Array<{
+    id?: string;
+    type?: string;
+    name?: string;
+    arguments?: string;
+  }>;
+  finishReason?: string;
+}
+
+/**
+ * Records response id and model, the finish reasons, and tool calls and
+ * refusal of the first choice (and all choices when `n > 1`), returning the
+ * first choice's output
+ */
+function recordChoices(
+  tracer: Tracer,
+  span: Span,
+  choices: ChoiceSummary[],
+  response: { id?: string; model?: string }
+): string {
+  recordGenAIResponse(span, {
+    id: response.id,
+    model: response.model,
+    finishReasons: choices.map((choice) => choice.finishReason),
+  });
+
+  const [first] = choices;
+  if (!first) return '';
+
+  if (first.toolCalls.length > 0) {
+    span.attributes.toolCalls = first.toolCalls;
+    registerToolCalls(tracer, span, first.toolCalls);
+  }
+  if (first.refusal) {
+    span.attributes.refusal = first.refusal;
+  }
+  if (choices.length > 1) {
+    span.attributes.choices = choices;
+  }
+
+  // Tool-calling turns have no content; show the calls instead
+  return (
+    first.content ||
+    first.refusal ||
+    (first.toolCalls.length > 0 ? JSON.stringify(first.toolCalls) : '')
+  );
+}
+
+/**
+ * Patches the model if the prompt version has a bound model
+ */
+async function getPatchedModel(
+  promptClient: PromptClient,
+  model: string | undefined,
+  promptVersionId: string | undefined
+): Promise<string | undefined> {
+  if (!promptVersionId || !promptClient.isApplyingPromptSettings()) {
+    return model;
+  }
+  try {
+    const boundModel =
+      await promptClient.getModelForPromptVersion(promptVersionId);
+    // Strip zeroeval/ prefix before sending to OpenAI API
+    return boundModel ? boundModel.replace(/^zeroeval\//, '') : model;
+  } catch {
+    // Silently ignore model lookup failures, use original model
+    return model;
+  }
+}
+
+/**
+ * Bound prompt-version parameters accepted by chat completions, mapped to
+ * their option names
+ */
+const CHAT_PARAM_NAMES: Record<string, string> = {
+  temperature: 'temperature',
+  top_p: 'top_p',
+  max_tokens: 'max_tokens',
+  max_completion_tokens: 'max_completion_tokens',
+  frequency_penalty: 'frequency_penalty',
+  presence_penalty: 'presence_penalty',
+  seed: 'seed',
+  stop: 'stop',
+};
+
+/**
+ * Reasoning models (o-series, GPT-5) reject `max_tokens` and non-default
+ * sampling options; only the output limit applies, as max_completion_tokens
+ */
+const REASONING_CHAT_PARAM_NAMES: Record<string, string> = {
+  max_tokens: 'max_completion_tokens',
+  max_completion_tokens: 'max_completion_tokens',
+};
+
+function isReasoningModel(model: string | undefined): boolean {
+  const name = model?.split('/').pop() ?? '';
+  return /^(o\d|gpt-5)/.test(name) && !name.includes('-chat');
+}
+
+/** The chat completions parameter names for a call to `model` */
+function chatParamNames(
+  model: string | undefined,
+  params: ChatParams | undefined
+): Record<string, string> {
+  if (isReasoningModel(model)) return REASONING_CHAT_PARAM_NAMES;
+  return {
+    ...CHAT_PARAM_NAMES,
+    // Newer models take max_completion_tokens instead of max_tokens
+    ...(params?.max_completion_tokens !== undefined && {
+      max_tokens: 'max_completion_tokens',
+    }),
+  };
+}
+
+/** The same for the Responses API, which takes fewer sampling options */
+const RESPONSES_PARAM_NAMES: Record<string, string> = {
+  temperature: 'temperature',
+  top_p: 'top_p',
+  max_tokens: 'max_output_tokens',
+  max_output_tokens: 'max_output_tokens',
+};
+
+/**
+ * Extracts ZeroEval metadata from `instructions`, interpolates variables
+ * into the input and starts the span for a responses call. `bound` holds
+ * the prompt version's parameters.
+ */
+function startResponsesSpan(
+  tracer: Tracer,
+  params: ResponsesParams | undefined,
+  spanName: string,
+  model: string | undefined,
+  bound: Record<string, unknown> = {}
+) {
+  const isStreaming = spanName.endsWith('.stream') || !!params?.stream;
+  const inputItems =
+    typeof params?.input === 'string'
+      ? [{ role: 'user', content: params.input }]
+      : params?.input;
+
+  const {
+    system: instructions,
+    messages: processedItems,
+    metadata: zeMetadata,
+    originalSystemContent,
+    toolResults,
+  } = processSystemWithMetadata(params?.instructions, inputItems);
+
+  recordToolResults(tracer, toolResults);
+
+  const input =
+    typeof params?.input === 'string'
+      ? processedItems?.[0]?.content
+      : processedItems;
+  const { params: modifiedParams, overridden } = applyBoundParameters(
+    {
+      ...params,
+      instructions,
+      ...(input !== undefined && { input }),
+      model,
+    },
+    bound,
+    RESPONSES_PARAM_NAMES
+  );
+
+  // Serialize instructions and input items like chat messages
+  const serializedMessages = [
+    ...(instructions ? [{ role: 'system', content: instructions }] : []),
+    ...summarizeBinaryContent(processedItems ?? []),
+  ];
+
+  const spanAttributes: Record<string, unknown> = {
+    'service.name': 'openai',
+    kind: 'llm',
+    provider: 'openai',
+    model,
+    messages: serializedMessages,
+    streaming: isStreaming,
+    request: genAIRequestParams(modifiedParams, [
+      'model',
+      'input',
+      'instructions',
+    ]),
+    ...genAIRequestAttributes({
+      system: 'openai',
+      model,
+      params: modifiedParams,
+    }),
+    ...overriddenParams(overridden, params?.model, model),
+  };
+
+  if (zeMetadata) {
+    spanAttributes.task = zeMetadata.task;
+    spanAttributes.zeroeval = zeMetadata;
+    if (originalSystemContent) {
+      spanAttributes.system_prompt_template = originalSystemContent;
+    }
+  }
+
+  const span = tracer.startSpan(spanName, {
+    attributes: spanAttributes,
+    tags: { integration: 'openai' },
+  });
+
+  return { modifiedParams, span, serializedMessages };
+}
+
+/**
+ * Records usage, tool calls and output text of a complete Response
+ */
+function recordResponse(
+  tracer: Tracer,
+  span: Span,
+  response: ResponseObject | undefined,
+  serializedMessages: unknown,
+  startTime: number
+): void {
+  const output = Array.isArray(response?.output) ? response.output : [];
+
+  if (response?.usage) {
+    recordGenAIUsage(span, {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      cachedInputTokens: response.usage.input_tokens_details?.cached_tokens,
+      reasoningTokens: response.usage.output_tokens_details?.reasoning_tokens,
+    });
+  }
+
+  // Incomplete responses say why (e.g. `max_output_tokens`)
+  recordGenAIResponse(span, {
+    id: response?.id,
+    model: response?.model,
+    finishReasons: [response?.incomplete_details?.reason ?? response?.status],
+  });
+
+  // Function calls and built-in tool calls (web search, file search, ...)
+  const toolCalls = output
+    .filter((item) => item?.type?.endsWith('_call'))
+    .map((item) => ({
+      type: item.type,
+      id: item.call_id ?? item.id,
+      ...(item.name && { name: item.name }),
+      ...(item.arguments !== undefined && { arguments: item.arguments }),
+    }));
+  if (toolCalls.length > 0) {
+    span.attributes.toolCalls = toolCalls;
+    // Built-in tools run on OpenAI's side; only function calls come back
+    registerToolCalls(
+      tracer,
+      span,
+      toolCalls.filter((call) => call.type === 'function_call')
+    );
+  }
+
+  const text =
+    typeof response?.output_text === 'string'
+      ? response.output_text
+      : output
+          .filter((item) => item?.type === 'message')
+          .flatMap((item) => item.content ?? [])
+          .filter((part) => part?.type === 'output_text')
+          .map((part) => part.text)
+          .join('');
+
+  recordThroughput(span, text.length, startTime);
+
+  span.setIO(JSON.stringify(serializedMessages), text);
+}
+
+/**
+ * Wraps the responses.create method with tracing, including `stream: true`
+ */
+function wrapResponsesCreate(
+  originalMethod: Method,
+  { tracer, promptClient }: TraceTarget
+): Method {
+  return async function wrappedCreate(...args: unknown[]) {
+    const [params, ...rest] = args as [ResponsesParams | undefined];
+    const startTime = Date.now();
+
+    const { metadata } = processSystemWithMetadata(
+      params?.instructions,
+      undefined
+    );
+    const patchedModel = await getPatchedModel(
+      promptClient,
+      params?.model,
+      metadata?.prompt_version_id
+    );
+    const { modifiedParams, span, serializedMessages } = startResponsesSpan(
+      tracer,
+      params,
+      'openai.responses.create',
+      patchedModel,
+      await getBoundParameters(promptClient, metadata?.prompt_version_id)
+    );
+
+    try {
+      const result = await originalMethod(modifiedParams, ...rest);
+
+      if (params?.stream && isAsyncIterable<ResponseStreamEvent>(result)) {
+        return wrapResponsesEventStream(
+          tracer,
+          result,
+          span,
+          serializedMessages,
+          startTime
+        );
+      }
+
+      recordResponse(
+        tracer,
+        span,
+        result as ResponseObject | undefined,
+        serializedMessages,
+        startTime
+      );
+      tracer.endSpan(span);
+      return result;
+    } catch (error) {
+      recordError(span, error, 'UnknownError', 'An unknown error occurred');
+      tracer.endSpan(span);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Wraps responses.stream. The returned ResponseStream is handed back as is;
+ * the span ends once its final response arrives or the stream fails.
+ */
+function wrapResponsesStream(originalMethod: Method, tracer: Tracer): Method {
+  return function wrappedStream(...args: unknown[]) {
+    const [params, ...rest] = args as [ResponsesParams | undefined];
+    const startTime = Date.now();
+
+    // responses.stream returns synchronously, so bound models (which need a
+    // lookup request) are not applied here
+    const { modifiedParams, span, serializedMessages } = startResponsesSpan(
+      tracer,
+      params,
+      'openai.responses.stream',
+      params?.model
+    );
+
+    let stream: ResponseStream | undefined;
+    try {
+      stream = originalMethod(modifiedParams, ...rest) as ResponseStream;
+    } catch (error) {
+      recordError(span, error, 'UnknownError', 'An unknown error occurred');
+      tracer.endSpan(span);
+      throw error;
+    }
+
+    if (typeof stream?.on === 'function') {
+      stream.on('response.output_text.delta', () => {
+        recordTimeToFirstToken(span, startTime);
+      });
+    }
+
+    if (typeof stream?.finalResponse === 'function') {
+      stream.finalResponse().then(
+        (response) => {
+          recordResponse(tracer, span, response, serializedMessages, startTime);
+          tracer.endSpan(span);
+        },
+        (error) => {
+          recordError(span, error, 'StreamError', 'Stream error occurred');
+          tracer.endSpan(span);
+        }
+      );
+    } else {
+      tracer.endSpan(span);
+    }
+
+    return stream;
+  };
+}
+
+/**
+ * Wraps a responses event stream, taking usage and output from the final
+ * `response.completed` event
+ */
+async function* wrapResponsesEventStream(
+  tracer: Tracer,
+  stream: AsyncIterable<ResponseStreamEvent>,
+  span: Span,
+  serializedMessages: unknown,
+  startTime: number
+): AsyncIterable<ResponseStreamEvent> {
+  let fullResponse = '';
+  let finalResponse: ResponseObject | undefined;
+
+  try {
+    for await (const event of stream) {
+      switch (event?.type) {
+        case 'response.output_text.delta':
+          recordTimeToFirstToken(span, startTime);
+          fullResponse += event.delta ?? '';
+          break;
+        case 'response.completed':
+        case 'response.incomplete':
+          finalResponse = event.response;
+          break;
+        case 'response.failed':
+          span.setError({
+            code: event.response?.error?.code || 'ResponseFailed',
+            message: event.response?.error?.message || 'The response failed',
+          });
+          break;
+        case 'error':
+          span.setError({
+            code: event.code || 'StreamError',
+            message: event.message || 'Stream error occurred',
+          });
+          break;
+      }
+      yield event;
+    }
+
+    recordResponse(
+      tracer,
+      span,
+      finalResponse ?? { output_text: fullResponse },
+      serializedMessages,
+      startTime
+    );
+  } catch (error) {
+    recordError(span, error, 'StreamError', 'Stream error occurred');
+    throw error;
+  } finally {
+    tracer.endSpan(span);
+  }
+}
+
 /**
  * Wraps a generic OpenAI API method with tracing
  */
 function wrapGenericMethod(
-  originalMethod: Function,
-  spanName: string
-): Function {
-  return async function wrappedMethod(...args: any[]) {
-    const [params] = args;
+  originalMethod: Method,
+  spanName: string,
+  tracer: Tracer
+): Method {
+  return async function wrappedMethod(...args: unknown[]) {
+    const [params] = args as [{ model?: string } | undefined];
 
     // Determine the kind based on the span name
     let kind = 'operation';
@@ -341,15 +1006,21 @@ function wrapGenericMethod(
         kind,
         provider: 'openai',
         ...(params?.model && { model: params.model }),
+        ...(kind === 'embedding' &&
+          genAIRequestAttributes({
+            system: 'openai',
+            operation: 'embeddings',
+            model: params?.model,
+          })),
       },
       tags: { integration: 'openai' },
     });
 
     try {
-      const result = await originalMethod(...args);
+      const result = (await originalMethod(...args)) as GenericResult;
 
       // Try to extract meaningful output for tracing
-      let output: any;
+      let output: string;
       if (result?.data && Array.isArray(result.data)) {
         output = `${result.data.length} items`;
       } else if (result?.text) {
@@ -359,16 +1030,15 @@ function wrapGenericMethod(
       } else {
         output = JSON.stringify(result);
       }
+      if (kind === 'embedding' && result?.usage) {
+        recordGenAIUsage(span, { inputTokens: result.usage.prompt_tokens });
+      }
 
       span.setIO(JSON.stringify(params), output);
       tracer.endSpan(span);
       return result;
-    } catch (error: any) {
-      span.setError({
-        code: error?.name || 'UnknownError',
-        message: error?.message || 'An unknown error occurred',
-        stack: error?.stack,
-      });
+    } catch (error) {
+      recordError(span, error, 'UnknownError', 'An unknown error occurred');
       tracer.endSpan(span);
       throw error;
     }
@@ -379,63 +1049,79 @@ function wrapGenericMethod(
  * Wraps a streaming response to trace chunks
  */
 async function* wrapStream(
-  stream: AsyncIterable<any>,
-  span: any,
-  serializedMessages: any,
+  tracer: Tracer,
+  stream: AsyncIterable<ChatCompletionChunk>,
+  span: Span,
+  serializedMessages: unknown,
   startTime: number
-): AsyncIterable<any> {
-  const chunks: any[] = [];
-  let errorOccurred = false;
-  let firstTokenTime: number | null = null;
-  let fullResponse = '';
+): AsyncIterable<ChatCompletionChunk> {
+  let responseId: string | undefined;
+  let responseModel: string | undefined;
+  // Choices reassembled from deltas, by choice index
+  const choices = new Map<number, ChoiceSummary>();
 
   try {
     for await (const chunk of stream) {
-      // Check for usage-only chunks (final chunk with token counts)
-      if (!chunk.choices && chunk.usage) {
-        span.attributes.inputTokens = chunk.usage.prompt_tokens;
-        span.attributes.outputTokens = chunk.usage.completion_tokens;
-        chunks.push(chunk);
-        yield chunk;
-        continue;
+      // Usage arrives on the final chunk, whose choices are empty
+      if (chunk.usage) {
+        recordChatUsage(span, chunk.usage);
       }
+      responseId ??= chunk.id;
+      responseModel ??= chunk.model;
+
+      for (const choice of chunk.choices ?? []) {
+        const index = choice.index ?? 0;
+        let summary = choices.get(index);
+        if (!summary) {
+          summary = { index, content: '', toolCalls: [] };
+          choices.set(index, summary);
+        }
 
-      // Process content chunks
-      if (chunk.choices?.[0]?.delta?.content) {
-        const content = chunk.choices[0].delta.content;
-        if (firstTokenTime === null) {
-          firstTokenTime = Date.now() / 1000;
-          // Time to first token (latency)
-          span.attributes.latency =
-            Math.round((firstTokenTime - startTime) * 10000) / 10000;
+        const delta = choice.delta ?? {};
+        if (delta.content || delta.refusal || delta.tool_calls?.length) {
+          recordTimeToFirstToken(span, startTime);
+        }
+
+        if (delta.content) {
+          summary.content += delta.content;
+        }
+        if (delta.refusal) {
+          summary.refusal = (summary.refusal ?? '') + delta.refusal;
+        }
+        // Tool calls stream as fragments keyed by their index: the first
+        // carries id and name, the rest append to the arguments
+        for (const fragment of delta.tool_calls ?? []) {
+          const i = fragment.index ?? 0;
+          const call = (summary.toolCalls[i] ??= { arguments: '' });
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.type) call.type = fragment.type;
+          if (fragment.function?.name) call.name = fragment.function.name;
+          if (fragment.function?.arguments) {
+            call.arguments += fragment.function.arguments;
+          }
+        }
+        if (choice.finish_reason) {
+          summary.finishReason = choice.finish_reason;
         }
-        fullResponse += content;
       }
 
-      chunks.push(chunk);
       yield chunk;
     }
 
-    // Calculate throughput
-    const elapsed = Date.now() / 1000 - startTime;
-    const throughput =
-      fullResponse.length > 0 && elapsed > 0
-        ? Math.round((fullResponse.length / elapsed) * 100) / 100
-        : 0;
-    span.attributes.throughput = throughput;
+    const fullResponse = recordChoices(
+      tracer,
+      span,
+      [...choices.values()].sort((a, b) => a.index - b.index),
+      { id: responseId, model: responseModel }
+    );
+
+    recordThroughput(span, fullResponse.length, startTime);
 
     span.setIO(JSON.stringify(serializedMessages), fullResponse);
-  } catch (error: any) {
-    errorOccurred = true;
-    span.setError({
-      code: error?.name || 'StreamError',
-      message: error?.message || 'Stream error occurred',
-      stack: error?.stack,
-    });
+  } catch (error) {
+    recordError(span, error, 'StreamError', 'Stream error occurred');
     throw error;
   } finally {
-    if (!errorOccurred) {
-      tracer.endSpan(span);
-    }
+    tracer.endSpan(span);
   }
 }
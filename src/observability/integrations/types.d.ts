@@ -1,3 +1,4 @@
+declare module '@anthropic-ai/sdk';
 declare module 'openai';
 declare module 'langchain';
 declare module 'langgraph';
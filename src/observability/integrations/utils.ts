@@ -3,6 +3,8 @@ import type { Integration } from './base';
 import { extractZeroEvalMetadata } from '../../utils/metadata';
 import { renderTemplate } from '../../utils/template';
 import type { PromptMetadata } from '../../types/prompt';
+import type { ToolResult } from '../tools';
+import type { PromptClient } from '../promptClient';
 
 /**
  * Result of processing messages to extract ZeroEval metadata.
@@ -13,70 +15,388 @@ export interface ProcessedMessagesResult {
     | undefined;
   metadata: PromptMetadata | null;
   originalSystemContent: string | null;
+  toolResults: ToolResult[];
+}
+
+/**
+ * Tool results sent back to the model, in the formats of OpenAI chat
+ * (`role: 'tool'`), OpenAI Responses (`function_call_output` items),
+ * Anthropic (`tool_result` blocks) and the Vercel AI SDK (`tool-result`
+ * parts).
+ */
+export function extractToolResults(messages: unknown[] | undefined) {
+  const results: ToolResult[] = [];
+  for (const message of messages ?? []) {
+    const msg = message as Record<string, unknown> | null;
+    if (msg?.role === 'tool' && typeof msg.tool_call_id === 'string') {
+      results.push({ toolCallId: msg.tool_call_id, content: msg.content });
+    } else if (
+      msg?.type === 'function_call_output' &&
+      typeof msg.call_id === 'string'
+    ) {
+      results.push({ toolCallId: msg.call_id, content: msg.output });
+    }
+    if (!Array.isArray(msg?.content)) continue;
+
+    for (const part of msg.content as Array<Record<string, unknown>>) {
+      if (
+        part?.type === 'tool_result' &&
+        typeof part.tool_use_id === 'string'
+      ) {
+        results.push({
+          toolCallId: part.tool_use_id,
+          content: part.content,
+          isError: part.is_error === true,
+        });
+      } else if (
+        part?.type === 'tool-result' &&
+        typeof part.toolCallId === 'string'
+      ) {
+        results.push({
+          toolCallId: part.toolCallId,
+          content: part.output ?? part.result,
+        });
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Copies plain objects and arrays; binary parts (Uint8Array, Blob, URL, ...)
+ * are kept as they are so they still reach the provider SDK intact
+ */
+function copyPlain<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(copyPlain) as T;
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, copyPlain(item)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * The text parts of array message content: `text` (OpenAI chat, Anthropic,
+ * Vercel AI SDK) and `input_text` (OpenAI Responses)
+ */
+function textParts(content: unknown): Array<{ text: string }> {
+  if (!Array.isArray(content)) return [];
+  return (content as Array<Record<string, unknown> | null>).filter(
+    (part): part is { type: string; text: string } =>
+      (part?.type === 'text' || part?.type === 'input_text') &&
+      typeof part.text === 'string'
+  );
 }
 
 /**
  * Process messages to extract ZeroEval metadata and interpolate variables.
  * Shared by OpenAI and Vercel AI wrappers.
  *
- * - Extracts <zeroeval> metadata from the first system message
- * - Deep copies messages to avoid mutation
- * - Strips metadata tags from system message
- * - Interpolates {{variables}} if metadata.variables is provided
+ * - Extracts <zeroeval> metadata from the first message when it is a system
+ *   message, or from its first text part when the content is an array of
+ *   parts. Other roles are never parsed: their text is often end-user input
+ * - Copies messages to avoid mutation
+ * - Strips metadata tags from system message, and drops a system message
+ *   that only carried metadata (see `ResolvedPrompt.toMessages()`)
+ * - Interpolates {{variables}} in string contents and text parts if
+ *   metadata.variables is provided
+ * - Collects tool results sent back to the model
  */
 export function processMessagesWithMetadata(
   messages: Array<{ role: string; content: string | unknown }> | undefined
 ): ProcessedMessagesResult {
+  const toolResults = extractToolResults(messages);
+
   if (!messages || messages.length === 0) {
     return {
       processedMessages: messages,
       metadata: null,
       originalSystemContent: null,
+      toolResults,
     };
   }
 
-  // Deep copy to avoid mutation
-  const processed = JSON.parse(JSON.stringify(messages)) as Array<{
-    role: string;
-    content: string | unknown;
-  }>;
+  const processed = copyPlain(messages);
 
   // Check first message for system role and metadata
   const firstMsg = processed[0];
-  if (firstMsg?.role !== 'system' || typeof firstMsg.content !== 'string') {
+  const systemPart =
+    typeof firstMsg?.content === 'string'
+      ? undefined
+      : textParts(firstMsg?.content)[0];
+  const systemText =
+    typeof firstMsg?.content === 'string' ? firstMsg.content : systemPart?.text;
+  if (systemText === undefined || firstMsg.role !== 'system') {
     return {
       processedMessages: processed,
       metadata: null,
       originalSystemContent: null,
+      toolResults,
     };
   }
 
-  const originalSystemContent = firstMsg.content;
-  const { metadata, cleanContent } = extractZeroEvalMetadata(firstMsg.content);
+  const originalSystemContent = systemText;
+  const { metadata, cleanContent } = extractZeroEvalMetadata(systemText);
 
   if (!metadata) {
     return {
       processedMessages: processed,
       metadata: null,
       originalSystemContent,
+      toolResults,
     };
   }
 
   // Update system message with clean content (metadata stripped)
-  firstMsg.content = cleanContent;
+  if (systemPart) {
+    systemPart.text = cleanContent;
+  } else if (cleanContent.trim() === '') {
+    processed.shift();
+  } else {
+    firstMsg.content = cleanContent;
+  }
 
   // Interpolate variables in all messages if variables are provided
-  if (metadata.variables && Object.keys(metadata.variables).length > 0) {
+  const { variables } = metadata;
+  if (variables && Object.keys(variables).length > 0) {
+    const render = (text: string) =>
+      renderTemplate(text, variables, { missing: 'leave' });
     for (const msg of processed) {
       if (typeof msg.content === 'string') {
-        msg.content = renderTemplate(msg.content, metadata.variables, {
-          missing: 'leave',
-        });
+        msg.content = render(msg.content);
       }
+      for (const part of textParts(msg.content)) {
+        part.text = render(part.text);
+      }
+    }
+  }
+
+  return {
+    processedMessages: processed,
+    metadata,
+    originalSystemContent,
+    toolResults,
+  };
+}
+
+/**
+ * Result of processing a top-level system prompt (Anthropic style).
+ */
+export interface ProcessedSystemResult<S> {
+  system: S;
+  messages: Array<{ role: string; content: unknown }> | undefined;
+  metadata: PromptMetadata | null;
+  originalSystemContent: string | null;
+  toolResults: ToolResult[];
+}
+
+/**
+ * Like processMessagesWithMetadata, for APIs that take the system prompt as
+ * a separate parameter (Anthropic's `system`, OpenAI Responses'
+ * `instructions`): a string or an array of text blocks, of which the first
+ * one may carry the metadata. A system prompt that is only metadata comes
+ * back `undefined` (or without that block).
+ */
+export function processSystemWithMetadata<
+  S extends string | Array<{ type: string; text?: string }> | undefined,
+>(
+  system: S,
+  messages: Array<{ role: string; content: unknown }> | undefined
+): ProcessedSystemResult<S> {
+  const blockIndex = Array.isArray(system)
+    ? system.findIndex((b) => b.type === 'text')
+    : -1;
+  const systemText =
+    typeof system === 'string'
+      ? system
+      : blockIndex >= 0
+        ? (system as Array<{ text?: string }>)[blockIndex].text
+        : undefined;
+
+  if (typeof systemText !== 'string') {
+    const { processedMessages, toolResults } =
+      processMessagesWithMetadata(messages);
+    return {
+      system,
+      messages: processedMessages,
+      metadata: null,
+      originalSystemContent: null,
+      toolResults,
+    };
+  }
+
+  const { processedMessages, metadata, originalSystemContent, toolResults } =
+    processMessagesWithMetadata([
+      { role: 'system', content: systemText },
+      ...(messages ?? []),
+    ]);
+  // a system prompt holding nothing but the metadata is dropped from the list
+  const systemKept = processedMessages!.length > (messages?.length ?? 0);
+  const rest = systemKept ? processedMessages!.slice(1) : processedMessages!;
+  const cleanText = systemKept
+    ? (processedMessages![0].content as string)
+    : undefined;
+
+  let newSystem: S = system;
+  if (cleanText === undefined) {
+    const blocks = Array.isArray(system)
+      ? system.filter((_, i) => i !== blockIndex)
+      : [];
+    newSystem = (blocks.length ? blocks : undefined) as S;
+  } else if (typeof system === 'string') {
+    newSystem = cleanText as S;
+  } else if (Array.isArray(system)) {
+    newSystem = system.map((block, i) =>
+      i === blockIndex ? { ...block, text: cleanText } : block
+    ) as S;
+  }
+
+  return {
+    system: newSystem,
+    messages: messages ? rest : messages,
+    metadata,
+    originalSystemContent,
+    toolResults,
+  };
+}
+
+// Fields holding inline file data: OpenAI `input_audio.data` and
+// `file_data`, Anthropic `source.data`, Vercel AI SDK `image` and `data`
+const BINARY_KEYS = new Set(['data', 'file_data', 'image']);
+const BASE64 = /^[A-Za-z0-9+/\r\n]+={0,2}$/;
+const DATA_URL = /^data:([^;,]*)[^,]*;base64,/;
+
+function base64Bytes(base64: string): number {
+  const length = base64.replace(/[\r\n=]/g, '').length;
+  return Math.floor((length * 3) / 4);
+}
+
+function binaryPlaceholder(mime: string | undefined, bytes: number): string {
+  return `[${mime || 'binary'}, ${bytes} bytes]`;
+}
+
+function summarize(value: unknown, key: string, mime?: string): unknown {
+  if (typeof value === 'string') {
+    const dataUrl = DATA_URL.exec(value);
+    if (dataUrl) {
+      return binaryPlaceholder(
+        dataUrl[1],
+        base64Bytes(value.slice(dataUrl[0].length))
+      );
     }
+    // Short strings are ids and text, not files
+    return BINARY_KEYS.has(key) && value.length >= 64 && BASE64.test(value)
+      ? binaryPlaceholder(mime, base64Bytes(value))
+      : value;
   }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return binaryPlaceholder(mime, value.byteLength);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => summarize(item, key, mime));
+  }
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    const obj = value as Record<string, unknown>;
+    const format = obj.format;
+    const partMime =
+      obj.media_type ??
+      obj.mediaType ??
+      obj.mimeType ??
+      (typeof format === 'string' ? `audio/${format}` : undefined);
+    return Object.fromEntries(
+      Object.entries(obj).map(([k, item]) => [
+        k,
+        summarize(item, k, typeof partMime === 'string' ? partMime : mime),
+      ])
+    );
+  }
+  return value;
+}
 
-  return { processedMessages: processed, metadata, originalSystemContent };
+/**
+ * A copy of message content for span attributes, with inline images, audio
+ * and files (base64 data URLs and fields, byte arrays) replaced by
+ * `[<mime type>, <size> bytes]` placeholders. URLs pointing at files are kept.
+ */
+export function summarizeBinaryContent<T>(content: T): T {
+  return summarize(content, '') as T;
+}
+
+/** A request option replaced by the value bound to the prompt version */
+export interface ParamOverride {
+  requested: unknown;
+  applied: unknown;
+}
+
+/**
+ * The request parameters bound to a prompt version, in snake_case, or none
+ * when the version has none or applyPromptSettings is off
+ */
+export async function getBoundParameters(
+  promptClient: PromptClient,
+  promptVersionId: string | undefined
+): Promise<Record<string, unknown>> {
+  if (!promptVersionId || !promptClient.isApplyingPromptSettings()) return {};
+  try {
+    const settings =
+      await promptClient.getPromptVersionSettings(promptVersionId);
+    return settings.parameters;
+  } catch {
+    // Settings lookup failures leave the call as it is
+    return {};
+  }
+}
+
+/**
+ * Applies bound parameters to a call's options. Bound values take
+ * precedence over the call's own, like the bound model does; parameters
+ * the SDK does not accept are skipped.
+ *
+ * @param names - Bound (snake_case) parameter names mapped to the SDK's
+ *   option names, e.g. `{ top_p: 'topP' }`
+ * @returns The options to send and the overridden options, by option name
+ */
+export function applyBoundParameters<P extends object>(
+  params: P,
+  bound: Record<string, unknown>,
+  names: Record<string, string>
+): { params: P; overridden: Record<string, ParamOverride> } {
+  const applied = { ...params } as Record<string, unknown>;
+  const overridden: Record<string, ParamOverride> = {};
+  for (const [name, value] of Object.entries(bound)) {
+    const option = names[name];
+    if (!option || value == null || applied[option] === value) continue;
+    overridden[option] = { requested: applied[option] ?? null, applied: value };
+    applied[option] = value;
+  }
+  return { params: applied as P, overridden };
+}
+
+/**
+ * The `overriddenParams` span attribute: options replaced by the prompt
+ * version's bound model and parameters, if any
+ */
+export function overriddenParams(
+  overridden: Record<string, ParamOverride>,
+  requestedModel: unknown,
+  model: unknown
+): { overriddenParams?: Record<string, ParamOverride> } {
+  const all = {
+    ...(model !== requestedModel && {
+      model: { requested: requestedModel ?? null, applied: model },
+    }),
+    ...overridden,
+  };
+  return Object.keys(all).length > 0 ? { overriddenParams: all } : {};
 }
 
 export async function discoverIntegrations(): Promise<
@@ -1,9 +1,26 @@
-import { tracer } from '../Tracer';
+import type { Tracer } from '../Tracer';
+import type { Span } from '../Span';
+import { traceTarget } from '../traceTarget';
+import type { WrapOptions } from '../traceTarget';
 import { init, isInitialized } from '../../init';
 import { extractZeroEvalMetadata } from '../../utils/metadata';
 import { renderTemplate } from '../../utils/template';
+import { getEnv } from '../../utils/runtime';
 import type { PromptMetadata } from '../../types/prompt';
-import { processMessagesWithMetadata } from './utils';
+import {
+  applyBoundParameters,
+  getBoundParameters,
+  processMessagesWithMetadata,
+  summarizeBinaryContent,
+} from './utils';
+import {
+  genAIRequestAttributes,
+  genAIRequestParams,
+  recordGenAIResponse,
+  recordGenAIUsage,
+  recordThroughput,
+  recordTimeToFirstToken,
+} from '../genai';
 
 // Type to preserve the original function's structure while adding our wrapper
 type WrappedVercelAI<T> = T & {
@@ -13,6 +30,98 @@ type WrappedVercelAI<T> = T & {
 // Type for the Vercel AI SDK functions we want to wrap
 type VercelAIFunction = (...args: any[]) => any;
 
+// Token usage of AI SDK 4 (`promptTokens`) and AI SDK 5 (`inputTokens`)
+interface Usage {
+  inputTokens?: number;
+  outputTokens?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  cachedInputTokens?: number;
+  reasoningTokens?: number;
+}
+
+// The call options the wrapper reads or rewrites
+interface CallOptions {
+  model?: string | { modelId?: string; provider?: string };
+  messages?: Array<{ role: string; content: unknown }>;
+  prompt?: unknown;
+  tools?: object;
+  maxSteps?: number;
+  maxRetries?: number;
+  temperature?: number;
+  maxTokens?: number;
+  [option: string]: unknown;
+}
+
+// The parts of a generate/embed result the wrapper reads
+interface CallResult {
+  text?: string;
+  object?: unknown;
+  usage?: Usage & { tokens?: number };
+  totalUsage?: Usage;
+  finishReason?: string;
+  response?: { id?: string; modelId?: string };
+  embeddings?: unknown[];
+}
+
+// A part of `fullStream`
+interface StreamPart {
+  type?: string;
+  text?: string;
+  textDelta?: string;
+  usage?: Usage;
+  totalUsage?: Usage;
+  finishReason?: string;
+}
+
+/**
+ * The underlying provider of a model: `openai.chat` → `openai` for provider
+ * instances, `openai/gpt-4o` → `openai` for gateway model strings
+ */
+function getModelProvider(model: unknown): string {
+  const provider =
+    typeof model === 'string'
+      ? model.split('/')[0]
+      : (model as { provider?: unknown } | undefined)?.provider;
+  return typeof provider === 'string' && provider && provider !== model
+    ? provider.split('.')[0]
+    : 'vercel-ai-sdk';
+}
+
+/**
+ * Bound prompt-version parameters mapped to AI SDK call options. The output
+ * limit is `maxTokens` in AI SDK 4 and `maxOutputTokens` in AI SDK 5.
+ */
+function getParamNames(
+  options: { maxTokens?: unknown } | undefined
+): Record<string, string> {
+  const maxTokens =
+    options?.maxTokens !== undefined ? 'maxTokens' : 'maxOutputTokens';
+  return {
+    temperature: 'temperature',
+    top_p: 'topP',
+    top_k: 'topK',
+    max_tokens: maxTokens,
+    frequency_penalty: 'frequencyPenalty',
+    presence_penalty: 'presencePenalty',
+    seed: 'seed',
+  };
+}
+
+/**
+ * Records token usage reported as `promptTokens`/`completionTokens` (AI SDK
+ * 4) or `inputTokens`/`outputTokens` (AI SDK 5)
+ */
+function recordUsage(span: Span, usage: Usage | undefined): void {
+  if (!usage) return;
+  recordGenAIUsage(span, {
+    inputTokens: usage.inputTokens ?? usage.promptTokens,
+    outputTokens: usage.outputTokens ?? usage.completionTokens,
+    cachedInputTokens: usage.cachedInputTokens,
+    reasoningTokens: usage.reasoningTokens,
+  });
+}
+
 /**
  * Process a prompt string to extract ZeroEval metadata and interpolate variables.
  */
@@ -22,6 +131,15 @@ interface ProcessedPromptResult {
   originalPrompt: string;
 }
 
+function recordError(span: Span, error: unknown, fallbackCode: string) {
+  const err = error as Partial<Error> | undefined;
+  span.setError({
+    code: err?.name || fallbackCode,
+    message: err?.message || 'An unknown error occurred',
+    stack: err?.stack,
+  });
+}
+
 function processPromptForVercelAI(
   prompt: string | undefined
 ): ProcessedPromptResult {
@@ -61,11 +179,13 @@ function processPromptForVercelAI(
  *
  * @param fn - The Vercel AI SDK function to wrap
  * @param functionName - The name of the function for tracing
+ * @param options - `client`: the ZeroEval client to trace with
  * @returns A wrapped function with automatic tracing
  */
 function wrapVercelAIFunction<T extends VercelAIFunction>(
   fn: T,
-  functionName: string
+  functionName: string,
+  wrapOptions: WrapOptions = {}
 ): WrappedVercelAI<T> {
   // Check if already wrapped to avoid double wrapping
   if ((fn as WrappedVercelAI<T>).__zeroeval_wrapped) {
@@ -73,22 +193,24 @@ function wrapVercelAIFunction<T extends VercelAIFunction>(
   }
 
   // Auto-initialize if needed
-  if (!isInitialized()) {
-    const envApiKey = process.env.ZEROEVAL_API_KEY;
+  if (!wrapOptions.client && !isInitialized()) {
+    const envApiKey = getEnv('ZEROEVAL_API_KEY');
     if (envApiKey) {
       init({ apiKey: envApiKey });
     }
   }
 
+  const { tracer, promptClient } = traceTarget(wrapOptions);
+
   const wrappedFn = async function wrappedVercelAIFunction(
     ...args: Parameters<T>
   ) {
-    const [options] = args;
+    const options = args[0] as CallOptions | undefined;
 
     // Process messages or prompt to extract ZeroEval metadata
     let zeMetadata: PromptMetadata | null = null;
     let originalSystemContent: string | null = null;
-    let modifiedOptions = { ...options };
+    let modifiedOptions: CallOptions = { ...options };
 
     // Handle messages-based input
     if (options?.messages) {
@@ -110,11 +232,22 @@ function wrapVercelAIFunction<T extends VercelAIFunction>(
       modifiedOptions.prompt = processedPrompt;
     }
 
+    // Bound prompt-version parameters take precedence over the call's own
+    const { params: boundOptions, overridden } = applyBoundParameters(
+      modifiedOptions,
+      await getBoundParameters(promptClient, zeMetadata?.prompt_version_id),
+      getParamNames(modifiedOptions)
+    );
+    modifiedOptions = boundOptions;
+
     // Extract relevant information from options
+    const { model: modelOption } = modifiedOptions;
     const model =
-      modifiedOptions?.model?.modelId || modifiedOptions?.model || 'unknown';
-    const messages = modifiedOptions?.messages;
-    const prompt = modifiedOptions?.prompt;
+      (typeof modelOption === 'string' ? modelOption : modelOption?.modelId) ||
+      'unknown';
+    // Traced without inline file data; the call itself gets the originals
+    const messages = summarizeBinaryContent(modifiedOptions?.messages);
+    const prompt = summarizeBinaryContent(modifiedOptions?.prompt);
     const tools = modifiedOptions?.tools;
     const maxSteps = modifiedOptions?.maxSteps;
     const maxRetries = modifiedOptions?.maxRetries;
@@ -146,6 +279,13 @@ function wrapVercelAIFunction<T extends VercelAIFunction>(
       kind,
       provider: 'vercel-ai-sdk',
       model,
+      ...((kind === 'llm' || kind === 'embedding') &&
+        genAIRequestAttributes({
+          system: getModelProvider(modifiedOptions?.model),
+          operation: kind === 'llm' ? 'chat' : 'embeddings',
+          model,
+          params: modifiedOptions,
+        })),
       ...(messages && { messages: messages }),
       ...(temperature !== undefined && { temperature }),
       ...(maxTokens !== undefined && { maxTokens }),
@@ -153,6 +293,17 @@ function wrapVercelAIFunction<T extends VercelAIFunction>(
       ...(maxRetries !== undefined && { maxRetries }),
       ...(tools && { toolCount: Object.keys(tools).length }),
       ...(functionName.includes('stream') && { streaming: true }),
+      ...(Object.keys(overridden).length > 0 && {
+        overriddenParams: overridden,
+      }),
+      request: genAIRequestParams(modifiedOptions, [
+        'model',
+        'messages',
+        'prompt',
+        'system',
+        'value',
+        'values',
+      ]),
     };
 
     // Add ZeroEval metadata to span attributes if present
@@ -169,7 +320,7 @@ function wrapVercelAIFunction<T extends VercelAIFunction>(
       tags: { integration: 'vercel-ai-sdk' },
     });
 
-    const startTime = Date.now() / 1000;
+    const startTime = Date.now();
 
     try {
       // Prepare input for tracing
@@ -186,50 +337,53 @@ function wrapVercelAIFunction<T extends VercelAIFunction>(
 
       // Handle different result types
       if (result && typeof result === 'object') {
-        const elapsed = Date.now() / 1000 - startTime;
-
+        const generated = result as CallResult;
         // For generateText and similar functions
         if ('text' in result) {
-          const output = result.text || '';
+          const output = generated.text || '';
 
           // Add usage information if available
-          if (result.usage) {
-            span.attributes.inputTokens = result.usage.promptTokens;
-            span.attributes.outputTokens = result.usage.completionTokens;
-          }
+          recordUsage(span, generated.totalUsage ?? generated.usage);
+          recordGenAIResponse(span, {
+            id: generated.response?.id,
+            model: generated.response?.modelId,
+            finishReasons: [generated.finishReason],
+          });
 
-          // Calculate throughput
-          const throughput =
-            output.length > 0 && elapsed > 0
-              ? Math.round((output.length / elapsed) * 100) / 100
-              : 0;
-          span.attributes.throughput = throughput;
+          recordThroughput(span, output.length, startTime);
 
           span.setIO(input, String(output));
         }
         // For streamText and similar streaming functions
         else if ('textStream' in result || 'fullStream' in result) {
           // Return a wrapped result that traces streaming
-          return wrapStreamingResult(result, span, input, startTime);
+          return wrapStreamingResult(tracer, result, span, input, startTime);
         }
         // For generateObject
         else if ('object' in result) {
-          const output = result.object ? JSON.stringify(result.object) : '{}';
+          const output = generated.object
+            ? JSON.stringify(generated.object)
+            : '{}';
 
-          if (result.usage) {
-            span.attributes.inputTokens = result.usage.promptTokens;
-            span.attributes.outputTokens = result.usage.completionTokens;
-          }
+          recordUsage(span, generated.usage);
+          recordGenAIResponse(span, {
+            id: generated.response?.id,
+            model: generated.response?.modelId,
+            finishReasons: [generated.finishReason],
+          });
 
           span.setIO(input, output);
         }
         // For embed
         else if ('embedding' in result || 'embeddings' in result) {
-          const embeddingCount = result.embeddings?.length || 1;
+          const embeddingCount = generated.embeddings?.length || 1;
           const output = `${embeddingCount} embedding(s) generated`;
 
-          if (result.usage) {
-            span.attributes.inputTokens = result.usage.promptTokens;
+          if (generated.usage) {
+            recordGenAIUsage(span, {
+              inputTokens:
+                generated.usage.tokens ?? generated.usage.promptTokens,
+            });
           }
 
           span.setIO(input, output);
@@ -245,12 +399,8 @@ function wrapVercelAIFunction<T extends VercelAIFunction>(
 
       tracer.endSpan(span);
       return result;
-    } catch (error: any) {
-      span.setError({
-        code: error?.name || 'UnknownError',
-        message: error?.message || 'An unknown error occurred',
-        stack: error?.stack,
-      });
+    } catch (error) {
+      recordError(span, error, 'UnknownError');
       tracer.endSpan(span);
       throw error;
     }
@@ -270,8 +420,9 @@ function wrapVercelAIFunction<T extends VercelAIFunction>(
  * Wraps a streaming result to trace chunks
  */
 function wrapStreamingResult(
+  tracer: Tracer,
   result: any,
-  span: any,
+  span: Span,
   input: string,
   startTime: number
 ): any {
@@ -286,7 +437,7 @@ function wrapStreamingResult(
         value &&
         typeof value[Symbol.asyncIterator] === 'function'
       ) {
-        return wrapAsyncIterator(value, span, input, startTime, 'text');
+        return wrapAsyncIterator(tracer, value, span, input, startTime, 'text');
       }
 
       // Wrap the full stream
@@ -295,7 +446,7 @@ function wrapStreamingResult(
         value &&
         typeof value[Symbol.asyncIterator] === 'function'
       ) {
-        return wrapAsyncIterator(value, span, input, startTime, 'full');
+        return wrapAsyncIterator(tracer, value, span, input, startTime, 'full');
       }
 
       // Back-compat: some codebases expect consumeStream() to drain the stream
@@ -324,11 +475,12 @@ function wrapStreamingResult(
             } catch {
               // ignore if already ended
             }
-          } catch (error: any) {
+          } catch (error) {
+            const err = error as Partial<Error> | undefined;
             span.setError({
-              code: error?.name || 'StreamError',
-              message: error?.message || 'Stream error occurred',
-              stack: error?.stack,
+              code: err?.name || 'StreamError',
+              message: err?.message || 'Stream error occurred',
+              stack: err?.stack,
             });
             try {
               tracer.endSpan(span);
@@ -378,77 +530,62 @@ function wrapStreamingResult(
  * Wraps an async iterator to trace streaming chunks
  */
 async function* wrapAsyncIterator(
-  iterator: AsyncIterable<any>,
-  span: any,
+  tracer: Tracer,
+  iterator: AsyncIterable<unknown>,
+  span: Span,
   input: string,
   startTime: number,
   streamType: 'text' | 'full'
-): AsyncIterable<any> {
+): AsyncIterable<unknown> {
   let fullText = '';
   let chunkCount = 0;
-  let tokenCount = 0;
-  let firstTokenTime: number | null = null;
 
   try {
     for await (const chunk of iterator) {
       chunkCount++;
+      const part = streamType === 'full' ? (chunk as StreamPart | null) : null;
 
       // Track time to first token for streaming
       if (
-        firstTokenTime === null &&
-        ((streamType === 'text' && chunk) ||
-          (streamType === 'full' &&
-            (chunk.type === 'text-delta' || chunk.type === 'text')))
+        (streamType === 'text' && chunk) ||
+        part?.type === 'text-delta' ||
+        part?.type === 'text'
       ) {
-        firstTokenTime = Date.now() / 1000;
-        // Time to first token (latency)
-        span.attributes.latency =
-          Math.round((firstTokenTime - startTime) * 10000) / 10000;
+        recordTimeToFirstToken(span, startTime);
       }
 
       // Extract text from different chunk types
       if (streamType === 'text' && typeof chunk === 'string') {
         fullText += chunk;
-      } else if (streamType === 'full' && chunk) {
-        if (chunk.type === 'text-delta' && chunk.textDelta) {
-          fullText += chunk.textDelta;
-        } else if (chunk.type === 'text' && chunk.text) {
-          fullText += chunk.text;
+      } else if (part) {
+        if (part.type === 'text-delta') {
+          fullText += part.textDelta ?? part.text ?? '';
+        } else if (part.type === 'text' && part.text) {
+          fullText += part.text;
         }
 
-        // Track token usage from chunks
-        if (chunk.usage) {
-          tokenCount = chunk.usage.completionTokens || tokenCount;
-          if (chunk.usage.promptTokens) {
-            span.attributes.inputTokens = chunk.usage.promptTokens;
-          }
+        // Usage and finish reason arrive on the final `finish` chunk
+        recordUsage(span, part.totalUsage ?? part.usage);
+        if (part.type === 'finish') {
+          recordGenAIResponse(span, { finishReasons: [part.finishReason] });
         }
       }
 
       yield chunk;
     }
 
-    // Calculate final metrics
-    const elapsed = Date.now() / 1000 - startTime;
-    const throughput =
-      fullText.length > 0 && elapsed > 0
-        ? Math.round((fullText.length / elapsed) * 100) / 100
-        : 0;
-
-    span.attributes.throughput = throughput;
+    recordThroughput(span, fullText.length, startTime);
     span.attributes.chunkCount = chunkCount;
-    if (tokenCount > 0) {
-      span.attributes.outputTokens = tokenCount;
-    }
 
     // Ensure output is always a string
     span.setIO(input, fullText || '');
     tracer.endSpan(span);
-  } catch (error: any) {
+  } catch (error) {
+    const err = error as Partial<Error> | undefined;
     span.setError({
-      code: error?.name || 'StreamError',
-      message: error?.message || 'An error occurred during streaming',
-      stack: error?.stack,
+      code: err?.name || 'StreamError',
+      message: err?.message || 'An error occurred during streaming',
+      stack: err?.stack,
     });
     tracer.endSpan(span);
     throw error;
@@ -461,6 +598,7 @@ async function* wrapAsyncIterator(
  * generateObject, and embed.
  *
  * @param aiModule - The Vercel AI SDK module exports
+ * @param options - `client`: the ZeroEval client to trace with
  * @returns A wrapped module with automatic tracing
  *
  * @example
@@ -479,7 +617,8 @@ async function* wrapAsyncIterator(
  * ```
  */
 export function wrapVercelAI<T extends Record<string, any>>(
-  aiModule: T
+  aiModule: T,
+  options: WrapOptions = {}
 ): WrappedVercelAI<T> {
   // Check if already wrapped
   if ((aiModule as WrappedVercelAI<T>).__zeroeval_wrapped) {
@@ -507,7 +646,7 @@ export function wrapVercelAI<T extends Record<string, any>>(
 
     if (functionsToWrap.includes(key) && typeof value === 'function') {
       // Wrap the function
-      wrappedModule[key] = wrapVercelAIFunction(value, key);
+      wrappedModule[key] = wrapVercelAIFunction(value, key, options);
     } else {
       // Copy other properties as-is
       wrappedModule[key] = value;
@@ -1,7 +1,11 @@
 import type { OpenAI } from 'openai';
+import type Anthropic from '@anthropic-ai/sdk';
 import { wrapOpenAI } from './openaiWrapper';
+import { wrapAnthropic } from './anthropicWrapper';
 import { wrapVercelAI } from './vercelAIWrapper';
 import { init, isInitialized } from '../../init';
+import { getEnv } from '../../utils/runtime';
+import type { WrapOptions } from '../traceTarget';
 
 // Type for wrapped clients
 type WrappedClient<T> = T & {
@@ -26,10 +30,27 @@ function isOpenAIClient(
     obj.embeddings !== undefined &&
     typeof obj.embeddings === 'object' &&
     obj.embeddings !== null &&
-    'create' in obj.embeddings &&
-    obj.constructor !== undefined &&
-    typeof obj.constructor === 'function' &&
-    obj.constructor.name === 'OpenAI'
+    'create' in obj.embeddings
+  );
+}
+
+function isAnthropicClient(
+  client: unknown
+): client is InstanceType<typeof Anthropic> {
+  // Check for Anthropic-specific properties; constructor names are not
+  // reliable once bundlers minify them
+  if (typeof client !== 'object' || client === null) {
+    return false;
+  }
+
+  const obj = client as Record<string, unknown>;
+  const messages = obj.messages as Record<string, unknown> | undefined;
+  return (
+    obj.chat === undefined &&
+    typeof messages === 'object' &&
+    messages !== null &&
+    typeof messages.create === 'function' &&
+    typeof messages.countTokens === 'function'
   );
 }
 
@@ -55,7 +76,9 @@ function isVercelAIModule(client: unknown): boolean {
  * If ze.init() hasn't been called yet and ZEROEVAL_API_KEY is set in the environment,
  * the SDK will be automatically initialized.
  *
- * @param client - The AI client instance to wrap (currently supports OpenAI and Vercel AI SDK)
+ * @param client - The AI client instance to wrap (currently supports OpenAI, Anthropic and Vercel AI SDK)
+ * @param options - `client`: the ZeroEval client to trace with instead of
+ * the one configured by `ze.init()`
  * @returns A wrapped client with automatic tracing
  *
  * @example
@@ -88,15 +111,18 @@ function isVercelAIModule(client: unknown): boolean {
  * });
  * ```
  */
-export function wrap<T extends object>(client: T): WrappedClient<T> {
+export function wrap<T extends object>(
+  client: T,
+  options: WrapOptions = {}
+): WrappedClient<T> {
   // Check if already wrapped
   if ((client as WrappedClient<T>).__zeroeval_wrapped) {
     return client as WrappedClient<T>;
   }
 
   // Auto-initialize if needed
-  if (!isInitialized()) {
-    const envApiKey = process.env.ZEROEVAL_API_KEY;
+  if (!options.client && !isInitialized()) {
+    const envApiKey = getEnv('ZEROEVAL_API_KEY');
     if (envApiKey) {
       init({ apiKey: envApiKey });
     }
@@ -104,11 +130,15 @@ export function wrap<T extends object>(client: T): WrappedClient<T> {
 
   // Detect client type and apply appropriate wrapper
   if (isOpenAIClient(client)) {
-    return wrapOpenAI(client) as WrappedClient<T>;
+    return wrapOpenAI(client, options) as WrappedClient<T>;
+  }
+
+  if (isAnthropicClient(client)) {
+    return wrapAnthropic(client, options) as WrappedClient<T>;
   }
 
   if (isVercelAIModule(client)) {
-    return wrapVercelAI(client) as WrappedClient<T>;
+    return wrapVercelAI(client, options) as WrappedClient<T>;
   }
 
   // If we reach here, the client type is not supported
@@ -126,12 +156,14 @@ export function wrap<T extends object>(client: T): WrappedClient<T> {
   throw new Error(
     `Unsupported client type. ze.wrap() currently supports:\n` +
       `- OpenAI clients (from 'openai' package)\n` +
+      `- Anthropic clients (from '@anthropic-ai/sdk' package)\n` +
       `- Vercel AI SDK (from 'ai' package)\n` +
       `\n` +
       `Received: ${clientType}\n` +
       `\n` +
       `Make sure you're passing a valid client instance, e.g.:\n` +
       `  const openai = ze.wrap(new OpenAI());\n` +
+      `  const anthropic = ze.wrap(new Anthropic());\n` +
       `  const ai = ze.wrap(await import('ai'));`
   );
 }
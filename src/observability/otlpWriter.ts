@@ -0,0 +1,234 @@
+/* global fetch */
+import type { SpanWriter } from './writer';
+import { getLogger, Logger } from './logger';
+
+const logger = getLogger('zeroeval.otlpWriter');
+
+const DEFAULT_OTLP_URL = 'http://localhost:4318/v1/traces';
+
+// OpenTelemetry enum values (see opentelemetry-proto trace.proto)
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+export interface OTLPSpanWriterOptions {
+  /** Collector endpoint (default: http://localhost:4318/v1/traces) */
+  url?: string;
+  /** Extra request headers, e.g. collector auth tokens */
+  headers?: Record<string, string>;
+  /** `service.name` resource attribute (default: "zeroeval") */
+  serviceName?: string;
+  /** Additional resource attributes attached to every export */
+  resourceAttributes?: Record<string, unknown>;
+}
+
+/** Shape of Span.toJSON() as consumed by the exporter */
+interface SerializedSpan {
+  span_id: string;
+  trace_id: string;
+  parent_id?: string;
+  name: string;
+  start_time: string;
+  end_time?: string;
+  duration_ms?: number;
+  session_id?: string;
+  session_name?: string;
+  attributes?: Record<string, unknown>;
+  tags?: Record<string, string>;
+  input_data?: string;
+  output_data?: string;
+  error_code?: string;
+  error_message?: string;
+  error_stack?: string;
+  status: 'ok' | 'error';
+}
+
+interface OTLPAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string;
+  doubleValue?: number;
+  arrayValue?: { values: OTLPAnyValue[] };
+}
+
+interface OTLPKeyValue {
+  key: string;
+  value: OTLPAnyValue;
+}
+
+/**
+ * Convert a JS value to an OTLP AnyValue. Nested objects are JSON encoded
+ * since most collectors flatten kvlist values anyway.
+ */
+function toAnyValue(value: unknown): OTLPAnyValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  if (
+    Array.isArray(value) &&
+    value.every((v) => ['string', 'number', 'boolean'].includes(typeof v))
+  ) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+  return { stringValue: JSON.stringify(value) };
+}
+
+function toKeyValues(
+  attrs: Record<string, unknown> | undefined,
+  prefix = ''
+): OTLPKeyValue[] {
+  const out: OTLPKeyValue[] = [];
+  for (const [key, value] of Object.entries(attrs ?? {})) {
+    if (value === undefined || value === null) continue;
+    out.push({ key: `${prefix}${key}`, value: toAnyValue(value) });
+  }
+  return out;
+}
+
+/** ZeroEval ids are UUIDs; OTLP wants 16-byte trace ids and 8-byte span ids. */
+function toTraceId(id: string): string {
+  return id.replace(/-/g, '').padStart(32, '0').slice(0, 32);
+}
+
+function toSpanId(id: string): string {
+  return id.replace(/-/g, '').padStart(16, '0').slice(0, 16);
+}
+
+function toUnixNano(iso: string | undefined, fallbackMs: number): string {
+  const ms = iso ? Date.parse(iso) : fallbackMs;
+  return `${ms}000000`;
+}
+
+/**
+ * Map a serialized ZeroEval span (Span.toJSON()) to an OTLP span.
+ */
+export function toOTLPSpan(base: SerializedSpan): Record<string, unknown> {
+  const startMs = Date.parse(base.start_time);
+  const attributes: OTLPKeyValue[] = [
+    ...toKeyValues(base.attributes),
+    ...toKeyValues(base.tags, 'zeroeval.tags.'),
+    ...toKeyValues({
+      'zeroeval.kind': base.attributes?.kind ?? 'generic',
+      'zeroeval.session.id': base.session_id,
+      'zeroeval.session.name': base.session_name,
+      'zeroeval.input': base.input_data,
+      'zeroeval.output': base.output_data,
+    }),
+  ];
+
+  const otlpSpan: Record<string, unknown> = {
+    traceId: toTraceId(base.trace_id),
+    spanId: toSpanId(base.span_id),
+    name: base.name,
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(base.start_time, Date.now()),
+    endTimeUnixNano: toUnixNano(
+      base.end_time,
+      startMs + (base.duration_ms ?? 0)
+    ),
+    attributes,
+    status:
+      base.status === 'error'
+        ? { code: STATUS_CODE_ERROR, message: base.error_message ?? '' }
+        : { code: STATUS_CODE_OK },
+  };
+
+  if (base.parent_id) {
+    otlpSpan.parentSpanId = toSpanId(base.parent_id);
+  }
+
+  if (base.status === 'error') {
+    otlpSpan.events = [
+      {
+        name: 'exception',
+        timeUnixNano: otlpSpan.endTimeUnixNano,
+        attributes: toKeyValues({
+          'exception.type': base.error_code,
+          'exception.message': base.error_message,
+          'exception.stacktrace': base.error_stack,
+        }),
+      },
+    ];
+  }
+
+  return otlpSpan;
+}
+
+/**
+ * Exports spans to an OpenTelemetry collector using OTLP/HTTP with JSON
+ * encoding. Can be combined with BackendSpanWriter via `init({ exporters })`
+ * to send the same traces to ZeroEval and to Jaeger, Tempo, etc.
+ */
+export class OTLPSpanWriter implements SpanWriter {
+  private url: string;
+  private headers: Record<string, string>;
+  private resource: { attributes: OTLPKeyValue[] };
+
+  constructor(options: OTLPSpanWriterOptions = {}) {
+    this.url = options.url ?? DEFAULT_OTLP_URL;
+    this.headers = options.headers ?? {};
+    this.resource = {
+      attributes: toKeyValues({
+        'service.name': options.serviceName ?? 'zeroeval',
+        'telemetry.sdk.name': 'zeroeval',
+        'telemetry.sdk.language': 'nodejs',
+        ...options.resourceAttributes,
+      }),
+    };
+  }
+
+  async write(spans: Array<{ toJSON?: () => unknown }>): Promise<void> {
+    if (!spans.length) return;
+
+    const payload = {
+      resourceSpans: [
+        {
+          resource: this.resource,
+          scopeSpans: [
+            {
+              scope: { name: 'zeroeval' },
+              spans: spans.map((s) =>
+                toOTLPSpan(
+                  (typeof s.toJSON === 'function'
+                    ? s.toJSON()
+                    : s) as SerializedSpan
+                )
+              ),
+            },
+          ],
+        },
+      ],
+    };
+
+    logger.debug(`[ZeroEval] Exporting ${spans.length} spans to ${this.url}`);
+    if (Logger.isDebugEnabled()) {
+      logger.debug(
+        '[ZeroEval] OTLP request body:',
+        JSON.stringify(payload, null, 2)
+      );
+    }
+
+    try {
+      const res = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        body: JSON.stringify(payload),
+      });
+      const text = await res.text();
+
+      if (!res.ok) {
+        logger.error(`[ZeroEval] OTLP export failed: ${res.status} ${text}`);
+      } else {
+        logger.info(
+          `[ZeroEval] Exported ${spans.length} spans to OTLP collector`
+        );
+      }
+    } catch (err) {
+      logger.error('[ZeroEval] Error exporting spans to OTLP collector', err);
+    }
+  }
+}
@@ -1,41 +1,43 @@
 import type { Signal } from './signals';
 
-// Internal buffers for pending signals
-const traceBuffer: Record<string, Record<string, Signal>> = {};
-const sessionBuffer: Record<string, Record<string, Signal>> = {};
+/**
+ * Trace and session signals held back until their spans are written. Each
+ * tracer has its own, shared with its backend writer, so one client's
+ * sampling or flushes never take another client's signals.
+ */
+export class PendingSignals {
+  private readonly traceBuffer: Record<string, Record<string, Signal>> = {};
+  private readonly sessionBuffer: Record<string, Record<string, Signal>> = {};
 
-/* ---------------- Trace signals ---------------- */
-export function addPendingTraceSignal(
-  traceId: string,
-  name: string,
-  signal: Signal
-): void {
-  const bucket = (traceBuffer[traceId] ||= {});
-  bucket[name] = signal;
-}
+  /* ---------------- Trace signals ---------------- */
+  addTraceSignal(traceId: string, name: string, signal: Signal): void {
+    const bucket = (this.traceBuffer[traceId] ||= {});
+    bucket[name] = signal;
+  }
 
-export function popPendingTraceSignals(
-  traceId: string
-): Record<string, Signal> | undefined {
-  const sigs = traceBuffer[traceId];
-  if (sigs) delete traceBuffer[traceId];
-  return sigs;
-}
+  popTraceSignals(traceId: string): Record<string, Signal> | undefined {
+    const sigs = this.traceBuffer[traceId];
+    if (sigs) delete this.traceBuffer[traceId];
+    return sigs;
+  }
 
-/* ---------------- Session signals -------------- */
-export function addPendingSessionSignal(
-  sessionId: string,
-  name: string,
-  signal: Signal
-): void {
-  const bucket = (sessionBuffer[sessionId] ||= {});
-  bucket[name] = signal;
-}
+  hasTraceSignals(traceId: string): boolean {
+    return traceId in this.traceBuffer;
+  }
+
+  /* ---------------- Session signals -------------- */
+  addSessionSignal(sessionId: string, name: string, signal: Signal): void {
+    const bucket = (this.sessionBuffer[sessionId] ||= {});
+    bucket[name] = signal;
+  }
+
+  popSessionSignals(sessionId: string): Record<string, Signal> | undefined {
+    const sigs = this.sessionBuffer[sessionId];
+    if (sigs) delete this.sessionBuffer[sessionId];
+    return sigs;
+  }
 
-export function popPendingSessionSignals(
-  sessionId: string
-): Record<string, Signal> | undefined {
-  const sigs = sessionBuffer[sessionId];
-  if (sigs) delete sessionBuffer[sessionId];
-  return sigs;
+  hasSessionSignals(sessionId: string): boolean {
+    return sessionId in this.sessionBuffer;
+  }
 }
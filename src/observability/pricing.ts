@@ -0,0 +1,220 @@
+/**
+ * Token prices for estimating the cost of LLM spans. Prices are USD per
+ * million tokens, keyed by `provider/model` (or a bare model name for
+ * self-hosted models). A key also matches dated or suffixed model versions,
+ * so `openai/gpt-4o` prices `gpt-4o-2024-08-06`.
+ */
+
+export interface ModelPrice {
+  /** Uncached input tokens */
+  input: number;
+  output: number;
+  /** Input tokens read from the prompt cache (default: `input`) */
+  cachedInput?: number;
+  /** Input tokens written to the prompt cache (default: `input`) */
+  cacheWrite?: number;
+  /** Reasoning tokens, when billed apart from output (default: `output`) */
+  reasoning?: number;
+}
+
+// List prices; register your own to override them
+const BUILTIN_PRICES: Record<string, ModelPrice> = {
+  'openai/gpt-5': { input: 1.25, cachedInput: 0.125, output: 10 },
+  'openai/gpt-5-mini': { input: 0.25, cachedInput: 0.025, output: 2 },
+  'openai/gpt-5-nano': { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  'openai/gpt-4.1': { input: 2, cachedInput: 0.5, output: 8 },
+  'openai/gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  'openai/gpt-4.1-nano': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  'openai/gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+  'openai/gpt-4o-mini': { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  'openai/gpt-4-turbo': { input: 10, output: 30 },
+  'openai/gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'openai/o1': { input: 15, cachedInput: 7.5, output: 60 },
+  'openai/o1-mini': { input: 1.1, cachedInput: 0.55, output: 4.4 },
+  'openai/o3': { input: 2, cachedInput: 0.5, output: 8 },
+  'openai/o3-mini': { input: 1.1, cachedInput: 0.55, output: 4.4 },
+  'openai/o4-mini': { input: 1.1, cachedInput: 0.275, output: 4.4 },
+  'anthropic/claude-opus-4': {
+    input: 15,
+    cachedInput: 1.5,
+    cacheWrite: 18.75,
+    output: 75,
+  },
+  'anthropic/claude-opus-4-5': {
+    input: 5,
+    cachedInput: 0.5,
+    cacheWrite: 6.25,
+    output: 25,
+  },
+  'anthropic/claude-sonnet-4': {
+    input: 3,
+    cachedInput: 0.3,
+    cacheWrite: 3.75,
+    output: 15,
+  },
+  'anthropic/claude-haiku-4-5': {
+    input: 1,
+    cachedInput: 0.1,
+    cacheWrite: 1.25,
+    output: 5,
+  },
+  'anthropic/claude-3-7-sonnet': {
+    input: 3,
+    cachedInput: 0.3,
+    cacheWrite: 3.75,
+    output: 15,
+  },
+  'anthropic/claude-3-5-sonnet': {
+    input: 3,
+    cachedInput: 0.3,
+    cacheWrite: 3.75,
+    output: 15,
+  },
+  'anthropic/claude-3-5-haiku': {
+    input: 0.8,
+    cachedInput: 0.08,
+    cacheWrite: 1,
+    output: 4,
+  },
+  'anthropic/claude-3-opus': {
+    input: 15,
+    cachedInput: 1.5,
+    cacheWrite: 18.75,
+    output: 75,
+  },
+  'anthropic/claude-3-haiku': {
+    input: 0.25,
+    cachedInput: 0.03,
+    cacheWrite: 0.3,
+    output: 1.25,
+  },
+  'google/gemini-2.5-pro': { input: 1.25, cachedInput: 0.31, output: 10 },
+  'google/gemini-2.5-flash': { input: 0.3, cachedInput: 0.075, output: 2.5 },
+  'google/gemini-2.0-flash': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+};
+
+// The same prices keyed by model alone, for callers with unknown providers
+const BUILTIN_PRICES_BY_MODEL: Record<string, ModelPrice> = Object.fromEntries(
+  Object.entries(BUILTIN_PRICES).map(([key, price]) => [
+    key.slice(key.indexOf('/') + 1),
+    price,
+  ])
+);
+
+const customPrices: Record<string, ModelPrice> = {};
+
+/**
+ * Register (or override) the price of a model, e.g. a fine-tuned or
+ * self-hosted one.
+ *
+ * @param model - `provider/model` (e.g. `openai/ft:gpt-4o-mini:acme::abc`),
+ *   or a bare model name to match it under any provider
+ * @param price - USD per million tokens
+ */
+export function registerModelPrice(model: string, price: ModelPrice): void {
+  customPrices[model] = price;
+}
+
+/** Remove all prices registered with registerModelPrice() */
+export function clearModelPrices(): void {
+  for (const key of Object.keys(customPrices)) delete customPrices[key];
+}
+
+// A key matches the model itself or a version of it (`-2024-08-06`, `@001`)
+function matches(key: string, name: string): boolean {
+  return (
+    name === key ||
+    (name.startsWith(key) && ['-', '@', ':'].includes(name[key.length]))
+  );
+}
+
+/** The longest key matching `name`, which is `provider/model` or `model` */
+function findPrice(
+  table: Record<string, ModelPrice>,
+  name: string
+): ModelPrice | undefined {
+  let best: string | undefined;
+  for (const key of Object.keys(table)) {
+    if (matches(key, name) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? table[best] : undefined;
+}
+
+/**
+ * The price of a model, from registered prices first, then the built-in
+ * table. Models named `provider/model` (as routers do) are split, and when
+ * the provider has no built-in prices (e.g. `vercel-ai-sdk`) any provider
+ * matches.
+ */
+export function getModelPrice(
+  provider: string | undefined,
+  model: string
+): ModelPrice | undefined {
+  let name = model.replace(/^zeroeval\//, '');
+  const slash = name.indexOf('/');
+  if (slash > 0) {
+    provider = name.slice(0, slash);
+    name = name.slice(slash + 1);
+  }
+
+  const custom =
+    (provider && findPrice(customPrices, `${provider}/${name}`)) ||
+    findPrice(customPrices, name);
+  if (custom) return custom;
+
+  const knownProvider = Object.keys(BUILTIN_PRICES).some((key) =>
+    key.startsWith(`${provider}/`)
+  );
+  return knownProvider
+    ? findPrice(BUILTIN_PRICES, `${provider}/${name}`)
+    : findPrice(BUILTIN_PRICES_BY_MODEL, name);
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' && value > 0 ? value : 0;
+}
+
+/**
+ * Estimated cost in USD of an LLM span, from its `provider`, `model` and
+ * token count attributes, or undefined when the model has no known price.
+ *
+ * Token counts follow the GenAI conventions (see `genai.ts`):
+ * `cachedInputTokens` and `cacheCreationInputTokens` are part of
+ * `inputTokens`, and `reasoningTokens` is part of `outputTokens`.
+ */
+export function estimateCost(
+  attributes: Record<string, unknown>
+): number | undefined {
+  const { provider, model } = attributes;
+  if (typeof model !== 'string') return undefined;
+  const price = getModelPrice(
+    typeof provider === 'string' ? provider : undefined,
+    model
+  );
+  if (!price) return undefined;
+
+  const input = count(attributes.inputTokens);
+  const output = count(attributes.outputTokens);
+  const cacheRead = Math.min(count(attributes.cachedInputTokens), input);
+  const cacheWrite = Math.min(
+    count(attributes.cacheCreationInputTokens),
+    input - cacheRead
+  );
+  const reasoning = Math.min(count(attributes.reasoningTokens), output);
+  if (input + output === 0) return undefined;
+
+  const cost =
+    (input - cacheRead - cacheWrite) * price.input +
+    cacheRead * (price.cachedInput ?? price.input) +
+    cacheWrite * (price.cacheWrite ?? price.input) +
+    (output - reasoning) * price.output +
+    reasoning * (price.reasoning ?? price.output);
+  return roundUsd(cost / 1_000_000);
+}
+
+/** Round away floating point noise from summed costs */
+export function roundUsd(value: number): number {
+  return Math.round(value * 1e10) / 1e10;
+}
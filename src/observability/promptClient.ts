@@ -3,31 +3,106 @@
  * Ports the logic from zeroeval-sdk/src/zeroeval/client.py
  */
 
+/* global setInterval, clearInterval */
+
 import { TTLCache } from '../utils/cache';
+import { parseChatTemplate } from '../utils/template';
 import { getApiUrl, getApiKey } from '../utils/api';
+import { unrefTimer } from '../utils/runtime';
+import type { ApiConfig } from '../utils/api';
 import type {
   Prompt,
   PromptResponse,
   PromptVersionCreate,
+  PromptVersionSettings,
 } from '../types/prompt';
 import { PromptNotFoundError, PromptRequestError } from '../errors';
 import { getLogger } from './logger';
+import { readPromptSnapshot, writePromptSnapshot } from './promptSnapshot';
+import type {
+  PromptSnapshot,
+  PromptSnapshotEntry,
+  PullPromptsOptions,
+} from './promptSnapshot';
 
 const logger = getLogger('zeroeval.promptClient');
 
+// How long fetched prompts are kept to serve while the API is unreachable
+const STALE_MS = 24 * 60 * 60 * 1000;
+
+// Prompts fetched this recently are served while being refreshed in the
+// background once their 60s TTL is up; older ones are refetched first
+const REVALIDATE_MS = 10 * 60 * 1000;
+
+/** Called when a watched prompt moves to a new version */
+export type PromptChangeListener = (prompt: Prompt, previous: Prompt) => void;
+
+export interface PromptWatchOptions {
+  /** Watch the version a tag points at instead of the latest one */
+  tag?: string;
+  /**
+   * How often to check for a new version (default: 30000ms). Watches of the
+   * same prompt share the first one's interval.
+   */
+  intervalMs?: number;
+}
+
+interface PromptWatch {
+  timer: ReturnType<typeof setInterval>;
+  current: Prompt | null;
+  listeners: Set<PromptChangeListener>;
+}
+
+/** Cache key and path of a task's latest version, or of a tag */
+function latestOrTag(
+  taskName: string,
+  tag?: string
+): { cacheKey: string; path: string } {
+  const task = encodeURIComponent(taskName);
+  return tag === undefined
+    ? {
+        cacheKey: `latest:${taskName}`,
+        path: `/v1/tasks/${task}/prompt/latest`,
+      }
+    : {
+        cacheKey: `tag:${taskName}:${tag}`,
+        path: `/v1/tasks/${task}/prompt/tags/${encodeURIComponent(tag)}`,
+      };
+}
+
+/**
+ * Whether a request failed because the API could not be reached or could
+ * not answer (network errors, timeouts, 429 and 5xx), as opposed to being
+ * refused (401, 404, ...)
+ */
+export function isUnavailableError(err: unknown): boolean {
+  if (err instanceof PromptNotFoundError) return false;
+  if (!(err instanceof PromptRequestError)) return true;
+  return err.status === null || err.status === 429 || err.status >= 500;
+}
+
 /**
  * Client for prompt-related API operations.
  */
-class PromptClient {
+export class PromptClient {
   private promptCache: TTLCache<string, Prompt>;
-  private modelCache: TTLCache<string, string | null>;
+  private settingsCache: TTLCache<string, PromptVersionSettings>;
+  private snapshot: PromptSnapshot | string | undefined;
+  /** ETags of fetched prompts, by cache key, for conditional refetches */
+  private etags = new Map<string, string>();
+  /** Fetches in flight, by cache key */
+  private fetching = new Map<string, Promise<Prompt>>();
+  private watches = new Map<string, PromptWatch>();
+  /** Whether wrapped LLM calls use the model and parameters of prompt versions */
+  private applyPromptSettings = true;
 
-  constructor() {
+  constructor(private readonly config: ApiConfig = {}) {
     this.promptCache = new TTLCache<string, Prompt>({
       ttlMs: 60000,
       maxSize: 512,
+      staleMs: STALE_MS,
     });
-    this.modelCache = new TTLCache<string, string | null>({
+    this.settingsCache = new TTLCache<string, PromptVersionSettings>({
       ttlMs: 60000,
       maxSize: 256,
     });
@@ -37,7 +112,7 @@ class PromptClient {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
-    const apiKey = getApiKey();
+    const apiKey = getApiKey(this.config);
     if (apiKey) {
       headers.Authorization = `Bearer ${apiKey}`;
     }
@@ -52,8 +127,22 @@ class PromptClient {
     path: string,
     body?: unknown
   ): Promise<T> {
-    const url = `${getApiUrl()}${path}`;
-    const headers = this.getHeaders();
+    const res = await this.send(method, path, body);
+    return res.json();
+  }
+
+  /**
+   * Make an API request to the backend, returning the response. Failed
+   * requests throw PromptRequestError; 304 Not Modified is returned.
+   */
+  private async send(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: unknown,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = `${getApiUrl(this.config)}${path}`;
+    const headers = { ...this.getHeaders(), ...extraHeaders };
 
     logger.debug(`[ZeroEval] ${method} ${url}`);
 
@@ -63,7 +152,7 @@ class PromptClient {
       body: body ? JSON.stringify(body) : undefined,
     });
 
-    if (!res.ok) {
+    if (!res.ok && res.status !== 304) {
       const text = await res.text();
       logger.error(`[ZeroEval] Request failed: ${res.status} ${text}`);
       throw new PromptRequestError(
@@ -73,15 +162,26 @@ class PromptClient {
       );
     }
 
-    return res.json();
+    return res;
   }
 
   /**
    * Convert backend response to internal Prompt type.
    */
   private responseToPrompt(response: PromptResponse): Prompt {
-    return {
+    const messages =
+      response.metadata?.content_type === 'chat'
+        ? parseChatTemplate(response.content)
+        : null;
+    if (response.metadata?.content_type === 'chat' && !messages) {
+      logger.warn(
+        `[ZeroEval] Prompt version ${response.version_id} is not a valid chat template, using it as text`
+      );
+    }
+
+    const prompt: Prompt = {
       content: response.content,
+      messages,
       version: response.version,
       versionId: response.version_id,
       taskId: response.task_id || null,
@@ -93,10 +193,20 @@ class PromptClient {
           ? response.model_id
           : `zeroeval/${response.model_id}`
         : null,
+      parameters: toParameters(response),
       contentHash: response.content_hash,
       metadata: response.metadata,
       source: 'server',
     };
+
+    // Calls made with this version need no lookup for its settings
+    if (prompt.versionId) {
+      this.settingsCache.set(prompt.versionId, {
+        model: prompt.model,
+        parameters: prompt.parameters,
+      });
+    }
+    return prompt;
   }
 
   /**
@@ -118,38 +228,312 @@ class PromptClient {
   }
 
   /**
-   * Get the latest prompt version for a task.
-   * GET /v1/tasks/{task_name}/prompt/latest
+   * GET a prompt version, through the prompt cache. A 404 is thrown as
+   * the given PromptNotFoundError. When the API is unavailable, the last
+   * fetched copy or the snapshot entry matching `inSnapshot` is returned
+   * instead, with `source: 'fallback'`.
+   *
+   * Recently expired prompts are returned at once and refreshed in the
+   * background (stale-while-revalidate).
    */
-  async getTaskPromptLatest(taskName: string): Promise<Prompt> {
-    const cacheKey = `latest:${taskName}`;
+  private async getPrompt(
+    cacheKey: string,
+    path: string,
+    notFound: PromptNotFoundError,
+    inSnapshot: (entry: PromptSnapshotEntry) => boolean
+  ): Promise<Prompt> {
     const cached = this.promptCache.get(cacheKey);
     if (cached) {
-      logger.debug(`[ZeroEval] Cache hit for latest prompt: ${taskName}`);
+      logger.debug(`[ZeroEval] Cache hit for prompt: ${cacheKey}`);
       return cached;
     }
 
-    let response: PromptResponse;
+    const age = this.promptCache.age(cacheKey);
+    if (age !== undefined && age <= REVALIDATE_MS) {
+      logger.debug(`[ZeroEval] Refreshing prompt in background: ${cacheKey}`);
+      this.fetchPrompt(cacheKey, path).catch((err) =>
+        logger.debug(`[ZeroEval] Background refresh of ${cacheKey} failed`, err)
+      );
+      return this.promptCache.getStale(cacheKey)!;
+    }
+
     try {
-      response = await this.request<PromptResponse>(
+      return await this.fetchPrompt(cacheKey, path);
+    } catch (err) {
+      if (err instanceof PromptRequestError && err.status === 404) {
+        throw notFound;
+      }
+      const fallback = isUnavailableError(err)
+        ? this.getFallback(cacheKey, inSnapshot)
+        : undefined;
+      if (!fallback) throw err;
+      logger.warn(
+        `[ZeroEval] Prompt API unavailable, using ${fallback.from} copy of ${cacheKey}`,
+        err
+      );
+      return fallback.prompt;
+    }
+  }
+
+  /**
+   * Fetch a prompt into the cache. Requests for a prompt already fetched
+   * carry its ETag, so an unchanged prompt costs a 304. Concurrent fetches
+   * of the same prompt share one request.
+   */
+  private fetchPrompt(cacheKey: string, path: string): Promise<Prompt> {
+    let pending = this.fetching.get(cacheKey);
+    if (pending) return pending;
+
+    pending = (async () => {
+      const known = this.promptCache.getStale(cacheKey);
+      const etag = known && this.etags.get(cacheKey);
+      const res = await this.send(
         'GET',
-        `/v1/tasks/${encodeURIComponent(taskName)}/prompt/latest`
+        path,
+        undefined,
+        etag ? { 'If-None-Match': etag } : {}
+      );
+
+      if (res.status === 304 && known) {
+        this.promptCache.set(cacheKey, known);
+        return known;
+      }
+
+      const normalized = this.normalizeVersionId(
+        (await res.json()) as Record<string, unknown>
+      );
+      const prompt = this.responseToPrompt(
+        normalized as unknown as PromptResponse
+      );
+      this.promptCache.set(cacheKey, prompt);
+      const newEtag = res.headers.get('ETag');
+      if (newEtag) this.etags.set(cacheKey, newEtag);
+      else this.etags.delete(cacheKey);
+      return prompt;
+    })().finally(() => this.fetching.delete(cacheKey));
+
+    this.fetching.set(cacheKey, pending);
+    return pending;
+  }
+
+  /**
+   * Call `listener` whenever the latest version of a task (or the version
+   * a tag points at) changes, so long-running services can swap prompts
+   * without a restart. The prompt is polled with conditional requests;
+   * new versions are also put in the cache for the next prompt() call.
+   *
+   * @returns A function that stops this subscription
+   */
+  onPromptChange(
+    taskName: string,
+    listener: PromptChangeListener,
+    options: PromptWatchOptions = {}
+  ): () => void {
+    const { cacheKey, path } = latestOrTag(taskName, options.tag);
+
+    let watch = this.watches.get(cacheKey);
+    if (!watch) {
+      const timer = setInterval(
+        () => void this.poll(cacheKey, path),
+        options.intervalMs ?? 30000
       );
+      unrefTimer(timer);
+      watch = {
+        timer,
+        current: this.promptCache.getStale(cacheKey) ?? null,
+        listeners: new Set(),
+      };
+      this.watches.set(cacheKey, watch);
+      if (!watch.current) void this.poll(cacheKey, path);
+    }
+    watch.listeners.add(listener);
+
+    const subscribed = watch;
+    return () => {
+      subscribed.listeners.delete(listener);
+      if (subscribed.listeners.size === 0) {
+        clearInterval(subscribed.timer);
+        this.watches.delete(cacheKey);
+      }
+    };
+  }
+
+  private async poll(cacheKey: string, path: string): Promise<void> {
+    const watch = this.watches.get(cacheKey);
+    if (!watch) return;
+
+    let prompt: Prompt;
+    try {
+      prompt = await this.fetchPrompt(cacheKey, path);
     } catch (err) {
-      if (err instanceof PromptRequestError && err.status === 404) {
-        throw new PromptNotFoundError(taskName);
+      logger.debug(`[ZeroEval] Checking ${cacheKey} for changes failed`, err);
+      return;
+    }
+
+    const previous = watch.current;
+    watch.current = prompt;
+    if (!previous || previous.versionId === prompt.versionId) return;
+
+    logger.info(
+      `[ZeroEval] New prompt version live for ${cacheKey}: v${previous.version} -> v${prompt.version}`
+    );
+    for (const listener of watch.listeners) {
+      try {
+        listener(prompt, previous);
+      } catch (err) {
+        logger.error('[ZeroEval] Prompt change listener failed', err);
       }
-      throw err;
     }
+  }
 
-    const normalized = this.normalizeVersionId(
-      response as unknown as Record<string, unknown>
+  /** Stop all onPromptChange() subscriptions */
+  close(): void {
+    for (const watch of this.watches.values()) clearInterval(watch.timer);
+    this.watches.clear();
+  }
+
+  /** The last fetched copy of a prompt, or its entry in the snapshot */
+  private getFallback(
+    cacheKey: string,
+    inSnapshot: (entry: PromptSnapshotEntry) => boolean
+  ): { prompt: Prompt; from: 'cached' | 'snapshot' } | undefined {
+    const stale = this.promptCache.getStale(cacheKey);
+    if (stale) {
+      return { prompt: { ...stale, source: 'fallback' }, from: 'cached' };
+    }
+
+    let snapshot: PromptSnapshot | undefined;
+    try {
+      snapshot = this.loadSnapshot();
+    } catch (err) {
+      logger.error('[ZeroEval] Could not read the prompt snapshot', err);
+      return undefined;
+    }
+    const entry = snapshot?.prompts.find(inSnapshot);
+    if (!entry) return undefined;
+
+    const { prompt } = entry;
+    if (prompt.versionId) {
+      this.settingsCache.set(prompt.versionId, {
+        model: prompt.model,
+        parameters: prompt.parameters,
+      });
+    }
+    return { prompt: { ...prompt, source: 'fallback' }, from: 'snapshot' };
+  }
+
+  private loadSnapshot(): PromptSnapshot | undefined {
+    if (typeof this.snapshot === 'string') {
+      this.snapshot = readPromptSnapshot(this.snapshot);
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Serve prompts from a snapshot, or a snapshot file, when the API is
+   * unavailable and they were not fetched before. Files are read on first
+   * use.
+   */
+  setSnapshot(snapshot: PromptSnapshot | string | undefined): void {
+    this.snapshot = snapshot;
+  }
+
+  /** Set by init({ applyPromptSettings }) or the client option */
+  setApplyPromptSettings(enabled: boolean): void {
+    this.applyPromptSettings = enabled;
+  }
+
+  isApplyingPromptSettings(): boolean {
+    return this.applyPromptSettings;
+  }
+
+  /**
+   * Fetch the latest version and the given tags of each task into a
+   * snapshot, written to `options.path` if given. Tags a task does not
+   * have are skipped.
+   *
+   * @throws PromptRequestError if the API is unavailable
+   */
+  async pull(options: PullPromptsOptions): Promise<PromptSnapshot> {
+    const prompts: PromptSnapshotEntry[] = [];
+    const fresh = (prompt: Prompt) => {
+      if (prompt.source === 'fallback') {
+        throw new PromptRequestError(
+          'Cannot pull prompts while the API is unavailable',
+          null
+        );
+      }
+      return prompt;
+    };
+
+    for (const name of options.names) {
+      const latest = fresh(await this.getTaskPromptLatest(name));
+      prompts.push({ name, latest: true, tag: null, prompt: latest });
+
+      for (const tag of options.tags ?? []) {
+        try {
+          const prompt = fresh(await this.getTaskPromptByTag(name, tag));
+          prompts.push({ name, latest: false, tag, prompt });
+        } catch (err) {
+          if (!(err instanceof PromptNotFoundError)) throw err;
+          logger.debug(`[ZeroEval] No '${tag}' tag for ${name}, skipping`);
+        }
+      }
+    }
+
+    const snapshot: PromptSnapshot = {
+      version: 1,
+      pulledAt: new Date().toISOString(),
+      prompts,
+    };
+    if (options.path) writePromptSnapshot(options.path, snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Get the latest prompt version for a task.
+   * GET /v1/tasks/{task_name}/prompt/latest
+   */
+  async getTaskPromptLatest(taskName: string): Promise<Prompt> {
+    const { cacheKey, path } = latestOrTag(taskName);
+    return this.getPrompt(
+      cacheKey,
+      path,
+      new PromptNotFoundError(taskName),
+      (entry) => entry.name === taskName && entry.latest
     );
-    const prompt = this.responseToPrompt(
-      normalized as unknown as PromptResponse
+  }
+
+  /**
+   * Get the prompt version a tag (e.g. "production", "staging") points at.
+   * Tags are moved between versions in the Prompt Library, so the result is
+   * only cached as long as the latest version is.
+   * GET /v1/tasks/{task_name}/prompt/tags/{tag}
+   */
+  async getTaskPromptByTag(taskName: string, tag: string): Promise<Prompt> {
+    const { cacheKey, path } = latestOrTag(taskName, tag);
+    return this.getPrompt(
+      cacheKey,
+      path,
+      new PromptNotFoundError(taskName, undefined, tag),
+      (entry) => entry.name === taskName && entry.tag === tag
+    );
+  }
+
+  /**
+   * Get a prompt version by its version number.
+   * GET /v1/tasks/{task_name}/prompt/versions/{version}
+   */
+  async getTaskPromptVersion(
+    taskName: string,
+    version: number
+  ): Promise<Prompt> {
+    return this.getPrompt(
+      `version:${taskName}:${version}`,
+      `/v1/tasks/${encodeURIComponent(taskName)}/prompt/versions/${version}`,
+      new PromptNotFoundError(taskName, version),
+      (entry) => entry.name === taskName && entry.prompt.version === version
     );
-    this.promptCache.set(cacheKey, prompt);
-    return prompt;
   }
 
   /**
@@ -196,34 +580,13 @@ class PromptClient {
     taskName: string,
     contentHash: string
   ): Promise<Prompt> {
-    const cacheKey = `hash:${taskName}:${contentHash}`;
-    const cached = this.promptCache.get(cacheKey);
-    if (cached) {
-      logger.debug(`[ZeroEval] Cache hit for prompt hash: ${contentHash}`);
-      return cached;
-    }
-
-    let response: PromptResponse;
-    try {
-      response = await this.request<PromptResponse>(
-        'GET',
-        `/v1/tasks/${encodeURIComponent(taskName)}/prompt/versions/by-hash/${contentHash}`
-      );
-    } catch (err) {
-      if (err instanceof PromptRequestError && err.status === 404) {
-        throw new PromptNotFoundError(taskName);
-      }
-      throw err;
-    }
-
-    const normalized = this.normalizeVersionId(
-      response as unknown as Record<string, unknown>
-    );
-    const prompt = this.responseToPrompt(
-      normalized as unknown as PromptResponse
+    return this.getPrompt(
+      `hash:${taskName}:${contentHash}`,
+      `/v1/tasks/${encodeURIComponent(taskName)}/prompt/versions/by-hash/${contentHash}`,
+      new PromptNotFoundError(taskName),
+      (entry) =>
+        entry.name === taskName && entry.prompt.contentHash === contentHash
     );
-    this.promptCache.set(cacheKey, prompt);
-    return prompt;
   }
 
   /**
@@ -234,17 +597,29 @@ class PromptClient {
    * Caches negative results to avoid repeated requests.
    */
   async getModelForPromptVersion(versionId: string): Promise<string | null> {
-    // Check cache first (including negative results)
-    const cached = this.modelCache.get(versionId);
+    return (await this.getPromptVersionSettings(versionId)).model;
+  }
+
+  /**
+   * Get the model and request parameters bound to a prompt version.
+   * Versions fetched through this client are answered from cache; others
+   * are looked up with GET /v1/prompt-versions/{version_id}/model.
+   *
+   * Failed lookups are cached as "nothing bound".
+   */
+  async getPromptVersionSettings(
+    versionId: string
+  ): Promise<PromptVersionSettings> {
+    const cached = this.settingsCache.get(versionId);
     if (cached !== undefined) {
       return cached;
     }
 
+    let settings: PromptVersionSettings;
     try {
-      const response = await this.request<{ model: string | null }>(
-        'GET',
-        `/v1/prompt-versions/${versionId}/model`
-      );
+      const response = await this.request<
+        { model: string | null } & Partial<PromptResponse>
+      >('GET', `/v1/prompt-versions/${versionId}/model`);
 
       let model = response.model;
       if (model && typeof model === 'string') {
@@ -254,14 +629,14 @@ class PromptClient {
       } else {
         model = null;
       }
-
-      this.modelCache.set(versionId, model);
-      return model;
+      settings = { model, parameters: toParameters(response) };
     } catch {
       // Cache negative result to avoid hammering
-      this.modelCache.set(versionId, null);
-      return null;
+      settings = { model: null, parameters: {} };
     }
+
+    this.settingsCache.set(versionId, settings);
+    return settings;
   }
 
   /**
@@ -269,10 +644,23 @@ class PromptClient {
    */
   clearCaches(): void {
     this.promptCache.clear();
-    this.modelCache.clear();
+    this.settingsCache.clear();
+    this.etags.clear();
   }
 }
 
+/** The tuned parameters of a version, `temperature` included */
+function toParameters(
+  response: Pick<Partial<PromptResponse>, 'temperature' | 'parameters'>
+): Record<string, unknown> {
+  return {
+    ...response.parameters,
+    ...(typeof response.temperature === 'number' && {
+      temperature: response.temperature,
+    }),
+  };
+}
+
 // Singleton instance
 let promptClient: PromptClient | null = null;
 
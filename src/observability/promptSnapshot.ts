@@ -0,0 +1,62 @@
+/**
+ * Local snapshots of prompt versions, served when the ZeroEval API cannot
+ * be reached. Written by `ze.prompts.pull()`, read by PromptClient.
+ */
+
+import type * as Fs from 'fs';
+import type { Prompt } from '../types/prompt';
+import { getBuiltin } from '../utils/runtime';
+
+export interface PromptSnapshotEntry {
+  /** Task name the prompt was pulled for */
+  name: string;
+  /** Whether this was the latest version when pulled */
+  latest: boolean;
+  /** Tag the prompt was pulled by, if any */
+  tag: string | null;
+  prompt: Prompt;
+}
+
+export interface PromptSnapshot {
+  /** Format version of the file */
+  version: 1;
+  /** When the snapshot was pulled, as an ISO timestamp */
+  pulledAt: string;
+  prompts: PromptSnapshotEntry[];
+}
+
+export interface PullPromptsOptions {
+  /** Task names whose latest version to pull */
+  names: string[];
+  /** Tags to pull for each task too, e.g. `["production", "staging"]` */
+  tags?: string[];
+  /** JSON file to write the snapshot to (Node.js only) */
+  path?: string;
+}
+
+function getFs(): typeof Fs {
+  const fs = getBuiltin<typeof Fs>('fs');
+  if (!fs) {
+    throw new Error(
+      'Prompt snapshot files need a file system and are Node.js only; pass the snapshot object instead'
+    );
+  }
+  return fs;
+}
+
+export function readPromptSnapshot(path: string): PromptSnapshot {
+  const snapshot = JSON.parse(
+    getFs().readFileSync(path, 'utf8')
+  ) as PromptSnapshot;
+  if (snapshot?.version !== 1 || !Array.isArray(snapshot.prompts)) {
+    throw new Error(`${path} is not a prompt snapshot`);
+  }
+  return snapshot;
+}
+
+export function writePromptSnapshot(
+  path: string,
+  snapshot: PromptSnapshot
+): void {
+  getFs().writeFileSync(path, `${JSON.stringify(snapshot, null, 2)}\n`);
+}
@@ -0,0 +1,274 @@
+import { sha256HexRaw, sha256HexSync } from '../utils/hash';
+import type { Span } from './Span';
+import type { SignalCreate } from './signals';
+
+export type BuiltinDetector = 'email' | 'phone' | 'creditCard' | 'apiKey';
+
+export interface RedactionOptions {
+  /** Built-in detectors to run on every string (default: all) */
+  detectors?: BuiltinDetector[];
+  /** Extra patterns to scrub; matches are replaced like built-in ones */
+  patterns?: RegExp[];
+  /** Custom scrubber, called last with each string and its key path */
+  redact?: (value: string, path: string) => string;
+  /**
+   * Attribute key paths whose values are replaced entirely. A bare key
+   * ("password") matches at any depth; dotted paths match from the root
+   * and `*` matches one segment ("messages.*.content").
+   */
+  denyKeys?: string[];
+  /**
+   * 'mask' replaces matches with `[REDACTED:<kind>]`, 'hash' with a stable
+   * `[HASH:<digest>]` so values stay correlatable (default: 'mask'). Off
+   * Node.js, hashing uses async Web Crypto.
+   */
+  mode?: 'mask' | 'hash';
+  /** Salt mixed into hashes in 'hash' mode */
+  hashSalt?: string;
+}
+
+const DETECTORS: Record<BuiltinDetector, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  apiKey:
+    /\b(?:sk|pk|rk)[-_][A-Za-z0-9_-]{16,}|\bAKIA[0-9A-Z]{16}\b|\bgh[pousr]_[A-Za-z0-9]{36,}\b|\bxox[abpr]-[A-Za-z0-9-]{10,}|\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g,
+  creditCard: /\b\d(?:[ -]?\d){12,18}\b/g,
+  // A `+country` code, an `(area)` code or separators between every group,
+  // so bare digit runs (timestamps, ids) and dotted numbers are left alone
+  phone:
+    /(?<![\w+.-])(?:\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)|\d{1,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}|\(\d{2,4}\)[\s.-]?\d{3,4}[\s.-]?\d{3,4}|\d{2,4}[\s.-]\d{3,4}[\s.-]\d{3,4})(?!\w|[.-]\d)/g,
+};
+
+// Cards first so their digits are not picked up as phone numbers
+const DETECTOR_ORDER: BuiltinDetector[] = [
+  'email',
+  'apiKey',
+  'creditCard',
+  'phone',
+];
+
+/** Luhn checksum, to avoid masking arbitrary long numbers as cards */
+function isLuhnValid(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function pathMatches(pattern: string, path: string[]): boolean {
+  const parts = pattern.split('.');
+  if (parts.length === 1) return path[path.length - 1] === pattern;
+  if (parts.length !== path.length) return false;
+  return parts.every((p, i) => p === '*' || p === path[i]);
+}
+
+/** A span's redacted fields, computed before any is assigned */
+interface RedactedSpan {
+  inputData?: string;
+  outputData?: string;
+  attributes: Record<string, unknown>;
+  errorMessage?: string;
+  errorStack?: string;
+  signals: Record<string, unknown>;
+  sessionName?: string;
+  tags: Record<string, string>;
+  traceTags: Record<string, string>;
+  sessionTags: Record<string, string>;
+}
+
+/**
+ * Scrubs sensitive data from spans, signals and feedback before they
+ * leave the process.
+ *
+ * Results are synchronous, except in 'hash' mode on runtimes without
+ * node:crypto, where they are promises.
+ */
+export class Redactor {
+  private readonly detectors: BuiltinDetector[];
+  private readonly patterns: RegExp[];
+  private readonly options: RedactionOptions;
+  /** Digests from Web Crypto during a pass, by salted value */
+  private hashes?: Map<string, string | undefined>;
+  /** Set while a pass only collects the values to hash */
+  private collecting = false;
+
+  constructor(options: RedactionOptions = {}) {
+    this.options = options;
+    this.detectors = DETECTOR_ORDER.filter((d) =>
+      (options.detectors ?? DETECTOR_ORDER).includes(d)
+    );
+    // Replace every occurrence, not just the first
+    this.patterns = (options.patterns ?? []).map((p) =>
+      p.global ? p : new RegExp(p.source, `${p.flags}g`)
+    );
+  }
+
+  private replacement(kind: string, value: string): string {
+    if (this.options.mode !== 'hash') return `[REDACTED:${kind}]`;
+    const salted = `${this.options.hashSalt ?? ''}${value}`;
+    const digest = sha256HexSync(salted) ?? this.hashes?.get(salted);
+    if (digest === undefined) {
+      // Hashed by run() before the pass is repeated
+      this.hashes?.set(salted, undefined);
+      return '[HASH]';
+    }
+    return `[HASH:${digest.slice(0, 16)}]`;
+  }
+
+  /**
+   * Run a redaction pass. Without node:crypto, a first pass collects the
+   * values to hash without calling `redact`, and the pass is repeated once
+   * Web Crypto has hashed them.
+   */
+  private run<T>(pass: () => T): T | Promise<T> {
+    if (this.options.mode !== 'hash' || sha256HexSync('') !== undefined) {
+      return pass();
+    }
+    const hashes = new Map<string, string | undefined>();
+    this.collecting = true;
+    try {
+      this.withHashes(hashes, pass);
+    } finally {
+      this.collecting = false;
+    }
+    if (hashes.size === 0) return this.withHashes(hashes, pass);
+
+    return Promise.all(
+      [...hashes.keys()].map(async (value) =>
+        hashes.set(value, await sha256HexRaw(value))
+      )
+    ).then(() => this.withHashes(hashes, pass));
+  }
+
+  private withHashes<T>(
+    hashes: Map<string, string | undefined>,
+    pass: () => T
+  ): T {
+    this.hashes = hashes;
+    try {
+      return pass();
+    } finally {
+      this.hashes = undefined;
+    }
+  }
+
+  redactString(value: string, path = ''): string | Promise<string> {
+    return this.run(() => this.scrubString(value, path));
+  }
+
+  /** Deep-redact a value; keys on the deny list are replaced wholesale */
+  redactValue(value: unknown): unknown {
+    return this.run(() => this.scrubValue(value));
+  }
+
+  /** Redact a finished span in place */
+  redactSpan(span: Span): void | Promise<void> {
+    const redacted = this.run(() => this.scrubSpan(span));
+    if (!(redacted instanceof Promise))
+      return applyRedactedSpan(span, redacted);
+    return redacted.then((r) => applyRedactedSpan(span, r));
+  }
+
+  redactSignal(signal: SignalCreate): SignalCreate | Promise<SignalCreate> {
+    if (typeof signal.value !== 'string') return signal;
+    const value = signal.value;
+    const redact = (v: string) => ({ ...signal, value: v });
+    const redacted = this.redactString(value, 'signal');
+    return redacted instanceof Promise
+      ? redacted.then(redact)
+      : redact(redacted);
+  }
+
+  private scrubString(value: string, path: string): string {
+    let out = value;
+    for (const name of this.detectors) {
+      out = out.replace(DETECTORS[name], (match) =>
+        name === 'creditCard' && !isLuhnValid(match)
+          ? match
+          : this.replacement(name, match)
+      );
+    }
+    for (const pattern of this.patterns) {
+      out = out.replace(pattern, (match) => this.replacement('custom', match));
+    }
+    return this.options.redact && !this.collecting
+      ? this.options.redact(out, path)
+      : out;
+  }
+
+  private scrubValue(value: unknown, path: string[] = []): unknown {
+    if (
+      path.length > 0 &&
+      this.options.denyKeys?.some((k) => pathMatches(k, path))
+    ) {
+      return this.replacement(
+        'key',
+        typeof value === 'string' ? value : (JSON.stringify(value) ?? '')
+      );
+    }
+    if (typeof value === 'string') {
+      return this.scrubString(value, path.join('.'));
+    }
+    if (Array.isArray(value)) {
+      return value.map((v, i) => this.scrubValue(v, [...path, String(i)]));
+    }
+    if (value && typeof value === 'object' && value.constructor === Object) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [
+          k,
+          this.scrubValue(v, [...path, k]),
+        ])
+      );
+    }
+    return value;
+  }
+
+  private scrubSpan(span: Span): RedactedSpan {
+    const optional = (value: string | undefined, path: string) =>
+      value ? this.scrubString(value, path) : value;
+    const tags = (value: Record<string, string>, path: string) =>
+      this.scrubValue(value, [path]) as Record<string, string>;
+    return {
+      inputData: optional(span.inputData, 'input_data'),
+      outputData: optional(span.outputData, 'output_data'),
+      attributes: this.scrubValue(span.attributes) as Record<string, unknown>,
+      errorMessage: optional(span.error?.message, 'error'),
+      errorStack: optional(span.error?.stack, 'error'),
+      signals: Object.fromEntries(
+        Object.entries(span.signals).map(([name, signal]) => [
+          name,
+          typeof signal.value === 'string'
+            ? this.scrubString(signal.value, 'signal')
+            : signal.value,
+        ])
+      ),
+      sessionName: optional(span.sessionName, 'session_name'),
+      tags: tags(span.tags, 'tags'),
+      traceTags: tags(span.traceTags, 'trace_tags'),
+      sessionTags: tags(span.sessionTags, 'session_tags'),
+    };
+  }
+}
+
+function applyRedactedSpan(span: Span, redacted: RedactedSpan): void {
+  span.inputData = redacted.inputData;
+  span.outputData = redacted.outputData;
+  span.attributes = redacted.attributes;
+  if (span.error) {
+    span.error.message = redacted.errorMessage ?? span.error.message;
+    span.error.stack = redacted.errorStack ?? span.error.stack;
+  }
+  for (const [name, signal] of Object.entries(span.signals)) {
+    signal.value = redacted.signals[name] as typeof signal.value;
+  }
+  span.sessionName = redacted.sessionName;
+  span.tags = redacted.tags;
+  span.traceTags = redacted.traceTags;
+  span.sessionTags = redacted.sessionTags;
+}
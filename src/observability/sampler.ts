@@ -0,0 +1,105 @@
+import type { Span } from './Span';
+
+/** What a head sampler sees when a root span starts */
+export interface SamplingContext {
+  traceId: string;
+  name: string;
+  attributes: Record<string, unknown>;
+  tags: Record<string, string>;
+  sessionId?: string;
+}
+
+export interface SamplingRule {
+  /** Match root spans by exact name or pattern */
+  name?: string | RegExp;
+  /** Match root spans carrying all of these tags */
+  tags?: Record<string, string>;
+  /** Fraction of matching traces to keep, 0..1 */
+  ratio: number;
+}
+
+export interface TailSamplingOptions {
+  /** Always keep traces containing an error span (default: true) */
+  keepErrors?: boolean;
+  /** Always keep traces whose root span took longer than this */
+  latencyThresholdMs?: number;
+  /** Fraction of the remaining traces to keep, 0..1 (default: 0) */
+  ratio?: number;
+}
+
+export interface SamplingOptions {
+  /** Fraction of traces to keep when no rule matches, 0..1 (default: 1) */
+  ratio?: number;
+  /** Evaluated in order against the root span; the first match wins */
+  rules?: SamplingRule[];
+  /** Custom head decision; overrides `ratio` and `rules` */
+  sampler?: (ctx: SamplingContext) => boolean;
+  /** Decide again once the trace has finished, from its complete spans */
+  tail?: TailSamplingOptions;
+}
+
+/**
+ * Map a trace id onto [0, 1) so every service sampling the same trace
+ * with the same ratio reaches the same decision.
+ */
+function traceIdToUnit(traceId: string): number {
+  const hex = traceId.replace(/-/g, '').slice(0, 8);
+  const value = parseInt(hex, 16);
+  return Number.isNaN(value) ? Math.random() : value / 0x1_0000_0000;
+}
+
+function matchesRule(rule: SamplingRule, ctx: SamplingContext): boolean {
+  if (rule.name !== undefined) {
+    const matched =
+      typeof rule.name === 'string'
+        ? rule.name === ctx.name
+        : rule.name.test(ctx.name);
+    if (!matched) return false;
+  }
+  for (const [key, value] of Object.entries(rule.tags ?? {})) {
+    if (ctx.tags[key] !== value) return false;
+  }
+  return true;
+}
+
+/**
+ * Decides which traces are kept. Head decisions are made once per trace at
+ * the root span and inherited by every child; tail decisions are made from
+ * the finished trace.
+ */
+export class Sampler {
+  private readonly options: SamplingOptions;
+
+  constructor(options: SamplingOptions = {}) {
+    this.options = options;
+  }
+
+  shouldSample(ctx: SamplingContext): boolean {
+    if (this.options.sampler) return this.options.sampler(ctx);
+
+    const rule = this.options.rules?.find((r) => matchesRule(r, ctx));
+    const ratio = rule?.ratio ?? this.options.ratio ?? 1;
+    if (ratio >= 1) return true;
+    if (ratio <= 0) return false;
+    return traceIdToUnit(ctx.traceId) < ratio;
+  }
+
+  shouldKeepTrace(spans: Span[]): boolean {
+    const tail = this.options.tail;
+    if (!tail) return true;
+
+    if ((tail.keepErrors ?? true) && spans.some((s) => s.status === 'error')) {
+      return true;
+    }
+
+    const root = spans.find((s) => !s.parentId);
+    if (
+      tail.latencyThresholdMs !== undefined &&
+      (root?.durationMs ?? 0) > tail.latencyThresholdMs
+    ) {
+      return true;
+    }
+
+    return Math.random() < (tail.ratio ?? 0);
+  }
+}
@@ -5,20 +5,23 @@ import type {
 } from './signals';
 import { getLogger, Logger } from './logger';
 import { getApiUrl, getApiKey } from '../utils/api';
+import type { ApiConfig } from '../utils/api';
 
 const logger = getLogger('zeroeval.signalWriter');
 
 export class SignalWriter {
+  constructor(private readonly config: ApiConfig = {}) {}
+
   /**
    * Send a single signal to the backend
    */
   async createSignal(signal: SignalCreate): Promise<SignalResponse> {
-    const endpoint = `${getApiUrl()}/signals/`;
+    const endpoint = `${getApiUrl(this.config)}/signals/`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
 
-    const apiKey = getApiKey();
+    const apiKey = getApiKey(this.config);
     if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
 
     // Log request details
@@ -99,12 +102,12 @@ export class SignalWriter {
    * Send multiple signals to the backend in bulk
    */
   async createBulkSignals(signals: SignalCreate[]): Promise<SignalResponse> {
-    const endpoint = `${getApiUrl()}/signals/bulk`;
+    const endpoint = `${getApiUrl(this.config)}/signals/bulk`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
 
-    const apiKey = getApiKey();
+    const apiKey = getApiKey(this.config);
     if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
 
     const bulkRequest: BulkSignalsCreate = { signals };
@@ -192,12 +195,12 @@ export class SignalWriter {
    * Get all signals for a specific entity
    */
   async getEntitySignals(entityType: string, entityId: string): Promise<any> {
-    const endpoint = `${getApiUrl()}/signals/entity/${entityType}/${entityId}`;
+    const endpoint = `${getApiUrl(this.config)}/signals/entity/${entityType}/${entityId}`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
 
-    const apiKey = getApiKey();
+    const apiKey = getApiKey(this.config);
     if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
 
     // Log request details
@@ -1,4 +1,6 @@
-import { tracer } from './Tracer';
+import type { Tracer } from './Tracer';
+import type { Span } from './Span';
+import { getDefaultClient } from '../client';
 
 export interface SpanOptions {
   name: string;
@@ -8,6 +10,8 @@ export interface SpanOptions {
   attributes?: Record<string, unknown>;
   inputData?: unknown;
   outputData?: unknown;
+  /** Parent span, for runtimes without AsyncLocalStorage (default: current span) */
+  parent?: Span;
 }
 
 // Utility overloads -----------------------------------------------------
@@ -25,6 +29,7 @@ export function span(
       const isAsync = original.constructor.name === 'AsyncFunction';
 
       const wrapper = function (this: any, ...args: any[]) {
+        const { tracer } = getDefaultClient();
         const spanInst = tracer.startSpan(opts.name, {
           attributes: opts.attributes,
           sessionId: opts.sessionId,
@@ -104,16 +109,26 @@ export function span(
 // Context-like helper ---------------------------------------------------
 export function withSpan<T>(
   opts: SpanOptions,
-  fn: () => Promise<T> | T
+  fn: (span: Span) => Promise<T> | T
+): Promise<T> | T {
+  return getDefaultClient().withSpan(opts, fn);
+}
+
+/** withSpan() against a specific tracer */
+export function runWithSpan<T>(
+  tracer: Tracer,
+  opts: SpanOptions,
+  fn: (span: Span) => Promise<T> | T
 ): Promise<T> | T {
   const spanInst = tracer.startSpan(opts.name, {
     attributes: opts.attributes,
     sessionId: opts.sessionId,
     sessionName: opts.sessionName,
     tags: opts.tags,
+    parent: opts.parent,
   });
   try {
-    const result = fn();
+    const result = fn(spanInst);
     if (result && typeof (result as any).then === 'function') {
       return (result as Promise<T>)
         .then((res) => {
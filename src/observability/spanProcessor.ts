@@ -0,0 +1,16 @@
+import type { Span } from './Span';
+
+/**
+ * Hook into the span lifecycle, similar to OpenTelemetry's SpanProcessor.
+ * Processors run in registration order, before the built-in redaction and
+ * truncation.
+ */
+export interface SpanProcessor {
+  /** Called right after a span starts, with its parent and tags resolved */
+  onStart?(span: Span): void;
+  /**
+   * Called once the span has ended. Mutate it in place, or return false to
+   * drop it. Dropping a root span drops its whole trace.
+   */
+  onEnd?(span: Span): boolean | void;
+}
@@ -0,0 +1,238 @@
+/* global process */
+
+import type { SignalCreate } from './signals';
+import { getLogger } from './logger';
+import type * as Fs from 'fs';
+import type * as Path from 'path';
+import { getBuiltin } from '../utils/runtime';
+import { byteLength } from '../utils/compression';
+
+const logger = getLogger('zeroeval.spool');
+
+const SEGMENT_PREFIX = 'segment-';
+const SEGMENT_SUFFIX = '.jsonl';
+
+// Shared across instances so segment names never collide within a process
+let segmentSeq = 0;
+
+export interface SpoolOptions {
+  /** Directory holding the spool segments. Use one directory per process. */
+  directory: string;
+  /** Rotate to a new segment once the current one exceeds this size (default: 1 MiB) */
+  maxSegmentBytes?: number;
+  /** Total on-disk budget; the oldest segments are deleted first (default: 64 MiB) */
+  maxTotalBytes?: number;
+}
+
+type SpoolRecord =
+  | { t: 'span'; id: string; span: Record<string, unknown> }
+  | { t: 'signal'; id: string; signal: SignalCreate }
+  | { t: 'ack'; ids: string[] };
+
+export interface RecoveredSpool {
+  spans: Record<string, unknown>[];
+  signals: SignalCreate[];
+}
+
+/**
+ * Append-only, file-backed spool for spans and pending signals.
+ *
+ * Records are written synchronously as JSON lines so they survive crashes
+ * and `process.exit()`. Delivered records are acknowledged and segments
+ * whose records are all acknowledged are deleted. Delivery is
+ * at-least-once: a crash between upload and acknowledgement replays the
+ * record on the next start.
+ */
+export class Spool {
+  private readonly directory: string;
+  private readonly maxSegmentBytes: number;
+  private readonly maxTotalBytes: number;
+  private readonly fs: typeof Fs;
+  private readonly path: typeof Path;
+
+  private current: string | null = null;
+  private currentBytes = 0;
+
+  /** Unacknowledged record ids per segment file */
+  private live = new Map<string, Set<string>>();
+  private segmentBytes = new Map<string, number>();
+
+  constructor(options: SpoolOptions) {
+    this.directory = options.directory;
+    this.maxSegmentBytes = options.maxSegmentBytes ?? 1024 * 1024;
+    this.maxTotalBytes = options.maxTotalBytes ?? 64 * 1024 * 1024;
+
+    const fs = getBuiltin<typeof Fs>('fs');
+    const path = getBuiltin<typeof Path>('path');
+    if (!fs || !path) {
+      throw new Error('Spooling needs a file system and is Node.js only');
+    }
+    this.fs = fs;
+    this.path = path;
+    this.fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  appendSpan(id: string, span: Record<string, unknown>): void {
+    this.append({ t: 'span', id, span }, id);
+  }
+
+  appendSignal(id: string, signal: SignalCreate): void {
+    this.append({ t: 'signal', id, signal }, id);
+  }
+
+  /** Mark records as delivered (or permanently dropped). */
+  ack(ids: string[]): void {
+    const pending = ids.filter((id) =>
+      [...this.live.values()].some((set) => set.has(id))
+    );
+    if (pending.length === 0) return;
+
+    this.append({ t: 'ack', ids: pending });
+    for (const [segment, set] of this.live) {
+      for (const id of pending) set.delete(id);
+      if (set.size === 0 && segment !== this.current) {
+        this.removeSegment(segment);
+      }
+    }
+  }
+
+  /**
+   * Read segments left behind by a previous process and return every
+   * record that was never acknowledged. Corrupt or truncated lines are
+   * skipped. Recovered records are moved into a fresh segment so they
+   * stay durable until acknowledged again.
+   */
+  recover(): RecoveredSpool {
+    const segments = this.listSegments().filter((s) => !this.live.has(s));
+    const records: Exclude<SpoolRecord, { t: 'ack' }>[] = [];
+    const acked = new Set<string>();
+    let corrupt = 0;
+
+    for (const segment of segments) {
+      let text: string;
+      try {
+        text = this.fs.readFileSync(
+          this.path.join(this.directory, segment),
+          'utf8'
+        );
+      } catch (err) {
+        logger.warn(`[ZeroEval] Could not read spool segment ${segment}`, err);
+        continue;
+      }
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const record = JSON.parse(line) as SpoolRecord;
+          if (record.t === 'ack') record.ids.forEach((id) => acked.add(id));
+          else if (record.t === 'span' || record.t === 'signal')
+            records.push(record);
+          else corrupt++;
+        } catch {
+          corrupt++;
+        }
+      }
+    }
+
+    if (corrupt > 0) {
+      logger.warn(`[ZeroEval] Skipped ${corrupt} corrupt spool record(s)`);
+    }
+
+    const spans = new Map<string, Record<string, unknown>>();
+    const signals = new Map<string, SignalCreate>();
+    for (const record of records) {
+      if (acked.has(record.id)) continue;
+      if (record.t === 'span') {
+        spans.set(record.id, record.span);
+        this.appendSpan(record.id, record.span);
+      } else if (record.t === 'signal') {
+        const { entity_type, entity_id, name } = record.signal;
+        signals.set(`${entity_type}:${entity_id}:${name}`, record.signal);
+        this.appendSignal(record.id, record.signal);
+      }
+    }
+
+    for (const segment of segments) this.removeSegment(segment);
+
+    if (spans.size > 0 || signals.size > 0) {
+      logger.info(
+        `[ZeroEval] Recovered ${spans.size} span(s) and ${signals.size} signal(s) from spool`
+      );
+    }
+
+    return { spans: [...spans.values()], signals: [...signals.values()] };
+  }
+
+  private append(record: SpoolRecord, id?: string): void {
+    const line = `${JSON.stringify(record)}\n`;
+    const bytes = byteLength(line);
+
+    if (!this.current || this.currentBytes + bytes > this.maxSegmentBytes) {
+      this.rotate();
+    }
+    const segment = this.current!;
+
+    try {
+      this.fs.appendFileSync(this.path.join(this.directory, segment), line);
+    } catch (err) {
+      logger.error('[ZeroEval] Failed writing to spool', err);
+      return;
+    }
+
+    this.currentBytes += bytes;
+    this.segmentBytes.set(segment, this.currentBytes);
+    if (id) this.live.get(segment)!.add(id);
+
+    this.enforceBudget();
+  }
+
+  private rotate(): void {
+    const previous = this.current;
+    const seq = String(segmentSeq++).padStart(6, '0');
+    this.current = `${SEGMENT_PREFIX}${Date.now()}-${process.pid}-${seq}${SEGMENT_SUFFIX}`;
+    this.currentBytes = 0;
+    this.live.set(this.current, new Set());
+    this.segmentBytes.set(this.current, 0);
+
+    // The previous segment may already be fully acknowledged
+    if (previous && this.live.get(previous)?.size === 0) {
+      this.removeSegment(previous);
+    }
+  }
+
+  private enforceBudget(): void {
+    let total = [...this.segmentBytes.values()].reduce((a, b) => a + b, 0);
+    for (const segment of [...this.segmentBytes.keys()]) {
+      if (total <= this.maxTotalBytes) break;
+      if (segment === this.current) continue;
+      const dropped = this.live.get(segment)?.size ?? 0;
+      total -= this.segmentBytes.get(segment) ?? 0;
+      this.removeSegment(segment);
+      logger.warn(
+        `[ZeroEval] Spool over ${this.maxTotalBytes} bytes, dropped segment ${segment} with ${dropped} pending record(s)`
+      );
+    }
+  }
+
+  private removeSegment(segment: string): void {
+    this.live.delete(segment);
+    this.segmentBytes.delete(segment);
+    try {
+      this.fs.unlinkSync(this.path.join(this.directory, segment));
+    } catch {
+      // Already gone
+    }
+  }
+
+  private listSegments(): string[] {
+    try {
+      return this.fs
+        .readdirSync(this.directory)
+        .filter(
+          (f) => f.startsWith(SEGMENT_PREFIX) && f.endsWith(SEGMENT_SUFFIX)
+        )
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+}
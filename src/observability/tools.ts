@@ -0,0 +1,164 @@
+/**
+ * Tool spans for agent loops. The LLM wrappers register the tool calls a
+ * model asks for; each call's execution is then traced either explicitly
+ * with traceTool(), or automatically when its result is sent back to the
+ * model, as a `kind: 'tool'` span covering the time in between.
+ */
+
+import type { Tracer } from './Tracer';
+import type { Span } from './Span';
+import { runWithSpan } from './spanDecorator';
+import { traceTarget } from './traceTarget';
+import type { WrapOptions } from './traceTarget';
+
+/** A tool call requested by a model */
+export interface ToolCall {
+  id?: string;
+  name?: string;
+  arguments?: unknown;
+}
+
+/** A tool result sent back to a model */
+export interface ToolResult {
+  toolCallId: string;
+  content: unknown;
+  isError?: boolean;
+}
+
+interface PendingToolCall extends ToolCall {
+  id: string;
+  llmSpan: Span;
+  requestedAt: number;
+}
+
+/** Calls whose result never comes back are dropped, oldest first */
+const MAX_PENDING_TOOL_CALLS = 1000;
+
+/** Pending calls by id, per tracer so clients never trace each other's */
+const pendingToolCalls = new WeakMap<Tracer, Map<string, PendingToolCall>>();
+
+function pendingCallsOf(tracer: Tracer): Map<string, PendingToolCall> {
+  let calls = pendingToolCalls.get(tracer);
+  if (!calls) {
+    calls = new Map();
+    pendingToolCalls.set(tracer, calls);
+  }
+  return calls;
+}
+
+/**
+ * Remember the tool calls an LLM span asked for, until their results are
+ * traced. Called by the LLM wrappers before ending the span.
+ */
+export function registerToolCalls(
+  tracer: Tracer,
+  llmSpan: Span,
+  calls: ToolCall[]
+): void {
+  const pending = pendingCallsOf(tracer);
+  for (const call of calls) {
+    if (!call.id) continue;
+    pending.set(call.id, {
+      ...call,
+      id: call.id,
+      llmSpan,
+      requestedAt: Date.now(),
+    });
+  }
+  while (pending.size > MAX_PENDING_TOOL_CALLS) {
+    const oldest = pending.keys().next().value as string;
+    pending.delete(oldest);
+  }
+}
+
+/**
+ * Record a tool span for each result answering a tool call made through
+ * `tracer`. Results for unknown or already traced calls are skipped, as
+ * agent loops resend the whole conversation on every turn.
+ */
+export function recordToolResults(tracer: Tracer, results: ToolResult[]): void {
+  const pending = pendingCallsOf(tracer);
+  for (const result of results) {
+    const call = pending.get(result.toolCallId);
+    if (!call) continue;
+    pending.delete(call.id);
+
+    const span = tracer.startSpan(call.name ?? 'tool', {
+      attributes: toolAttributes(call.name, call),
+      parent: tracer.currentSpan() ?? call.llmSpan,
+      startTime: call.requestedAt,
+    });
+    span.setIO(call.arguments, result.content);
+    if (result.isError) {
+      span.setError({ code: 'ToolError', message: 'Tool returned an error' });
+    }
+    tracer.endSpan(span);
+  }
+}
+
+/**
+ * The oldest pending call of the named tool made through `tracer`, in the
+ * given trace if any. Claimed calls are no longer traced from their results.
+ */
+function claimToolCall(
+  tracer: Tracer,
+  name: string,
+  traceId: string | undefined
+): PendingToolCall | undefined {
+  const pending = pendingCallsOf(tracer);
+  for (const call of pending.values()) {
+    if (
+      call.name === name &&
+      (traceId === undefined || call.llmSpan.traceId === traceId)
+    ) {
+      pending.delete(call.id);
+      return call;
+    }
+  }
+  return undefined;
+}
+
+function toolAttributes(
+  name: string | undefined,
+  call: PendingToolCall | undefined
+): Record<string, unknown> {
+  return {
+    kind: 'tool',
+    ...(name && { toolName: name }),
+    ...(call && { toolCallId: call.id, llmSpanId: call.llmSpan.spanId }),
+  };
+}
+
+/**
+ * Wrap a tool implementation so each execution is traced as a
+ * `kind: 'tool'` span, linked to the pending LLM tool call of the same
+ * name. Pass `{ client }` to trace with a `ZeroEval` instance.
+ *
+ * @example
+ * ```ts
+ * const getWeather = ze.traceTool('get_weather', async ({ city }) => {
+ *   return fetchForecast(city);
+ * });
+ * ```
+ */
+export function traceTool<A extends unknown[], R>(
+  name: string,
+  fn: (...args: A) => R,
+  options: WrapOptions = {}
+): (...args: A) => R {
+  const { tracer } = traceTarget(options);
+  return function tracedTool(this: unknown, ...args: A): R {
+    const current = tracer.currentSpan();
+    const call = claimToolCall(tracer, name, current?.traceId);
+    return runWithSpan(
+      tracer,
+      {
+        name,
+        attributes: toolAttributes(name, call),
+        inputData: args.length === 1 ? args[0] : args,
+        parent: current ?? call?.llmSpan,
+      },
+      () => fn.apply(this, args)
+    ) as R;
+  };
+}
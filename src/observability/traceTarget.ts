@@ -0,0 +1,27 @@
+/**
+ * Which client the LLM wrappers and traceTool() report to: the default one
+ * configured by `ze.init()`, or a `ZeroEval` instance passed as `client`.
+ */
+
+import type { Tracer } from './Tracer';
+import type { PromptClient } from './promptClient';
+import { getDefaultClient } from '../client';
+import type { ZeroEval } from '../client';
+
+/** The tracer spans go to and the prompt client bound settings come from */
+export interface TraceTarget {
+  readonly tracer: Tracer;
+  readonly promptClient: PromptClient;
+}
+
+export interface WrapOptions {
+  /**
+   * Client to trace with, so spans join its traces and are sent with its
+   * credentials (default: the client configured by `ze.init()`)
+   */
+  client?: ZeroEval;
+}
+
+export function traceTarget(options: WrapOptions = {}): TraceTarget {
+  return options.client ?? getDefaultClient();
+}
@@ -0,0 +1,185 @@
+/* global TextEncoder, TextDecoder */
+
+import type { Span } from './Span';
+
+export interface TruncationOptions {
+  /** Max UTF-8 bytes of span input (default: 256 KiB) */
+  maxInputBytes?: number;
+  /** Max UTF-8 bytes of span output (default: 256 KiB) */
+  maxOutputBytes?: number;
+  /** Max UTF-8 bytes of each attribute value once serialized (default: 64 KiB) */
+  maxAttributeBytes?: number;
+  /**
+   * Which part of an oversized value to keep: the start, the end, or half
+   * of each (default: 'head')
+   */
+  keep?: 'head' | 'tail' | 'both';
+}
+
+const DEFAULTS: Required<TruncationOptions> = {
+  maxInputBytes: 256 * 1024,
+  maxOutputBytes: 256 * 1024,
+  maxAttributeBytes: 64 * 1024,
+  keep: 'head',
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function marker(droppedBytes: number): string {
+  return `...[truncated ${droppedBytes} bytes]...`;
+}
+
+/**
+ * Decode a byte slice, dropping characters cut in half at either edge. A
+ * cut character decodes to up to three replacement characters.
+ */
+function decodeSlice(bytes: Uint8Array): string {
+  return decoder.decode(bytes).replace(/^\uFFFD+|\uFFFD+$/g, '');
+}
+
+/**
+ * Truncate a string to `maxBytes` of UTF-8 plus a marker saying how much
+ * was removed. Returns undefined when the string already fits.
+ */
+export function truncateString(
+  value: string,
+  maxBytes: number,
+  keep: TruncationOptions['keep'] = 'head'
+): string | undefined {
+  const bytes = encoder.encode(value);
+  if (bytes.length <= maxBytes) return undefined;
+
+  const note = marker(bytes.length - maxBytes);
+  if (keep === 'tail') {
+    return note + decodeSlice(bytes.subarray(bytes.length - maxBytes));
+  }
+  if (keep === 'both') {
+    const half = Math.floor(maxBytes / 2);
+    return (
+      decodeSlice(bytes.subarray(0, half)) +
+      note +
+      decodeSlice(bytes.subarray(bytes.length - (maxBytes - half)))
+    );
+  }
+  return decodeSlice(bytes.subarray(0, maxBytes)) + note;
+}
+
+/**
+ * Truncate an array to about `maxBytes` of JSON, keeping it an array: whole
+ * elements are kept from the `keep` end(s) and the dropped ones are
+ * replaced by a `...[truncated N items]...` element. When no whole element
+ * fits, the nearest one is kept as a truncated string. Returns undefined
+ * when the array already fits.
+ */
+export function truncateArray(
+  values: unknown[],
+  maxBytes: number,
+  keep: TruncationOptions['keep'] = 'head'
+): unknown[] | undefined {
+  const json = values.map((v) => JSON.stringify(v) ?? 'null');
+  const sizes = json.map((text) => encoder.encode(text).length);
+  // brackets plus a comma between elements
+  const total = sizes.reduce((sum, size) => sum + size + 1, 1);
+  if (total <= maxBytes) return undefined;
+
+  // How many whole elements fit in `budget`, taken in the order given
+  const fitting = (indices: number[], budget: number): number => {
+    let used = 0;
+    let count = 0;
+    for (const i of indices) {
+      used += sizes[i] + 1;
+      if (used > budget) break;
+      count++;
+    }
+    return count;
+  };
+  const forward = values.map((_, i) => i);
+  const backward = [...forward].reverse();
+  const budget = maxBytes - 2;
+
+  let head = 0;
+  let tail = 0;
+  if (keep === 'tail') {
+    tail = fitting(backward, budget);
+  } else if (keep === 'both') {
+    const half = Math.floor(budget / 2);
+    head = fitting(forward, half);
+    tail = fitting(backward.slice(0, values.length - head), budget - half);
+  } else {
+    head = fitting(forward, budget);
+  }
+
+  if (head + tail === 0) {
+    const i = keep === 'tail' ? values.length - 1 : 0;
+    const text = typeof values[i] === 'string' ? values[i] : json[i];
+    const cut = truncateString(text, budget, keep) ?? text;
+    const rest = values.length - 1;
+    const note = rest > 0 ? [`...[truncated ${rest} items]...`] : [];
+    return keep === 'tail' ? [...note, cut] : [cut, ...note];
+  }
+  return [
+    ...values.slice(0, head),
+    `...[truncated ${values.length - head - tail} items]...`,
+    ...values.slice(values.length - tail),
+  ];
+}
+
+/**
+ * Enforce size limits on a finished span in place. Oversized fields are
+ * replaced by truncated strings, or shortened arrays for array attributes,
+ * and their original byte sizes are recorded under `attributes.truncated`.
+ */
+export function truncateSpan(span: Span, options: TruncationOptions): void {
+  const opts = { ...DEFAULTS, ...options };
+  const truncated: Record<string, number> = {};
+
+  const apply = (
+    field: string,
+    value: string,
+    maxBytes: number
+  ): string | undefined => {
+    const result = truncateString(value, maxBytes, opts.keep);
+    if (result !== undefined) truncated[field] = encoder.encode(value).length;
+    return result;
+  };
+
+  if (span.inputData !== undefined) {
+    span.inputData =
+      apply('input_data', span.inputData, opts.maxInputBytes) ?? span.inputData;
+  }
+  if (span.outputData !== undefined) {
+    span.outputData =
+      apply('output_data', span.outputData, opts.maxOutputBytes) ??
+      span.outputData;
+  }
+
+  for (const [key, value] of Object.entries(span.attributes)) {
+    if (value === undefined || value === null || key === 'truncated') continue;
+    let serialized: string | undefined;
+    try {
+      serialized = typeof value === 'string' ? value : JSON.stringify(value);
+    } catch {
+      continue; // left for the writer to report
+    }
+    if (serialized === undefined) continue;
+    if (Array.isArray(value)) {
+      const result = truncateArray(value, opts.maxAttributeBytes, opts.keep);
+      if (result !== undefined) {
+        truncated[`attributes.${key}`] = encoder.encode(serialized).length;
+        span.attributes[key] = result;
+      }
+      continue;
+    }
+    const result = apply(
+      `attributes.${key}`,
+      serialized,
+      opts.maxAttributeBytes
+    );
+    if (result !== undefined) span.attributes[key] = result;
+  }
+
+  if (Object.keys(truncated).length > 0) {
+    span.attributes.truncated = truncated;
+  }
+}
@@ -1,51 +1,266 @@
-import { signalWriter } from './signalWriter';
+import { SignalWriter, signalWriter } from './signalWriter';
+import { PendingSignals } from './pendingSignals';
 import type { Signal, SignalCreate } from './signals';
 import { getLogger, Logger } from './logger';
 import { getApiUrl, getApiKey } from '../utils/api';
+import type { ApiConfig } from '../utils/api';
+import { byteLength, gzip } from '../utils/compression';
+import { unrefTimer } from '../utils/runtime';
 
 const logger = getLogger('zeroeval.writer');
 
-type PendingFns = {
-  popPendingTraceSignals: (id: string) => Record<string, Signal> | undefined;
-  popPendingSessionSignals: (id: string) => Record<string, Signal> | undefined;
-};
+/** A Span, or a span already serialized (e.g. replayed from the spool) */
+type WritableSpan = { toJSON?: () => unknown };
 
 export interface SpanWriter {
   write(spans: any[]): void | Promise<void>;
+  /** Number of spans the writer gave up on, if it keeps track */
+  readonly droppedSpans?: number;
+  /**
+   * Number of spans held for redelivery, if the writer queues failed
+   * uploads. `write([])` redelivers them.
+   */
+  readonly queuedSpans?: number;
+}
+
+/**
+ * Fans a batch of spans out to several writers. A failing exporter is
+ * logged and does not block the others; the batch only fails when every
+ * exporter failed.
+ */
+export class CompositeSpanWriter implements SpanWriter {
+  constructor(readonly writers: SpanWriter[]) {}
+
+  async write(spans: WritableSpan[]): Promise<void> {
+    // an empty write only drains the writers that queued spans
+    const writers = spans.length
+      ? this.writers
+      : this.writers.filter((w) => (w.queuedSpans ?? 0) > 0);
+    if (!writers.length) return;
+
+    const results = await Promise.allSettled(
+      writers.map(async (w) => w.write(spans))
+    );
+
+    const failures = results.filter(
+      (r): r is PromiseRejectedResult => r.status === 'rejected'
+    );
+    for (const failure of failures) {
+      logger.error('[ZeroEval] Exporter failed', failure.reason);
+    }
+    if (failures.length === writers.length) {
+      throw failures[0].reason;
+    }
+  }
+
+  get droppedSpans(): number {
+    return this.writers.reduce((sum, w) => sum + (w.droppedSpans ?? 0), 0);
+  }
+
+  get queuedSpans(): number {
+    return this.writers.reduce((sum, w) => sum + (w.queuedSpans ?? 0), 0);
+  }
+}
+
+export interface BackendSpanWriterOptions extends ApiConfig {
+  /** Retries per upload after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in ms (default: 500) */
+  retryBaseDelayMs?: number;
+  /** Upper bound for a single retry delay in ms (default: 30000) */
+  retryMaxDelayMs?: number;
+  /**
+   * Max spans kept for redelivery after uploads that exhausted their
+   * retries. The oldest spans are dropped first (default: 10000).
+   */
+  maxQueuedSpans?: number;
+  /** Gzip request bodies (default: true) */
+  compress?: boolean;
+  /** Max spans per request; larger batches are split (default: 500) */
+  maxBatchSpans?: number;
+  /**
+   * Max uncompressed request body size in bytes; larger batches are split.
+   * A single span above the limit is still sent on its own (default: 4 MiB).
+   */
+  maxBatchBytes?: number;
+}
+
+type UploadOutcome = 'ok' | 'retry' | 'rejected';
+
+function isRetriableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Unref'd so a failing backend does not keep a short-lived process alive
+// for the whole backoff
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) =>
+    unrefTimer(globalThis.setTimeout(resolve, ms))
+  );
+
+/** Shape of Span.toJSON() as read by the backend writer */
+interface SerializedSpan {
+  span_id: string;
+  trace_id: string;
+  parent_id?: string;
+  name: string;
+  start_time: string;
+  end_time?: string;
+  duration_ms?: number;
+  session_id?: string;
+  session_name?: string;
+  attributes?: Record<string, unknown>;
+  tags?: Record<string, string>;
+  trace_tags?: Record<string, string>;
+  session_tags?: Record<string, string>;
+  signals?: Record<string, Signal>;
+  input_data?: string;
+  output_data?: string;
+  error_code?: string;
+  error_message?: string;
+  error_stack?: string;
+  status: 'ok' | 'error';
+  code?: unknown;
+  code_filepath?: unknown;
+  code_lineno?: unknown;
+}
+
+/** A span serialized once up front so batches can be split by size */
+interface SpanEntry {
+  span: WritableSpan;
+  payload: Record<string, unknown>;
+  signals?: Record<string, Signal>;
+  json: string;
+  bytes: number;
+}
+
+/**
+ * Split entries into consecutive chunks holding at most `maxSpans` spans
+ * and `maxBytes` of JSON array body.
+ */
+function chunkEntries(
+  entries: SpanEntry[],
+  maxSpans: number,
+  maxBytes: number
+): SpanEntry[][] {
+  const chunks: SpanEntry[][] = [];
+  let current: SpanEntry[] = [];
+  let size = 2; // surrounding brackets
+
+  for (const entry of entries) {
+    if (
+      current.length > 0 &&
+      (current.length >= maxSpans || size + entry.bytes + 1 > maxBytes)
+    ) {
+      chunks.push(current);
+      current = [];
+      size = 2;
+    }
+    current.push(entry);
+    size += entry.bytes + 1; // plus separating comma
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
 }
 
 export class BackendSpanWriter implements SpanWriter {
-  async write(spans: any[]): Promise<void> {
-    if (!spans.length) return;
+  private maxRetries = 3;
+  private retryBaseDelayMs = 500;
+  private retryMaxDelayMs = 30_000;
+  private maxQueuedSpans = 10_000;
+  private compress = true;
+  private maxBatchSpans = 500;
+  private maxBatchBytes = 4 * 1024 * 1024;
+  private api: ApiConfig = {};
+  private signals = signalWriter;
+
+  /** Dead-letter queue of spans awaiting redelivery */
+  private queue: WritableSpan[] = [];
+  private dropped = 0;
+
+  /**
+   * Called with spans that no longer need redelivery, either because they
+   * were delivered or because they were dropped for good.
+   */
+  onSettled?: (spans: unknown[]) => void;
+
+  /** Trace/session signals sent after their spans; set by the tracer */
+  pendingSignals = new PendingSignals();
+
+  constructor(options: BackendSpanWriterOptions = {}) {
+    this.configure(options);
+  }
+
+  configure(options: BackendSpanWriterOptions): void {
+    if (options.maxRetries !== undefined) this.maxRetries = options.maxRetries;
+    if (options.retryBaseDelayMs !== undefined)
+      this.retryBaseDelayMs = options.retryBaseDelayMs;
+    if (options.retryMaxDelayMs !== undefined)
+      this.retryMaxDelayMs = options.retryMaxDelayMs;
+    if (options.maxQueuedSpans !== undefined) {
+      this.maxQueuedSpans = options.maxQueuedSpans;
+      this.enqueue([]);
+    }
+    if (options.compress !== undefined) this.compress = options.compress;
+    if (options.maxBatchSpans !== undefined)
+      this.maxBatchSpans = options.maxBatchSpans;
+    if (options.maxBatchBytes !== undefined)
+      this.maxBatchBytes = options.maxBatchBytes;
+    if (options.apiUrl !== undefined || options.apiKey !== undefined) {
+      this.api = {
+        apiUrl: options.apiUrl ?? this.api.apiUrl,
+        apiKey: options.apiKey ?? this.api.apiKey,
+      };
+      // span signals go to the same workspace as the spans
+      this.signals = new SignalWriter(this.api);
+    }
+  }
 
-    const endpoint = `${getApiUrl()}/spans`;
+  /** Spans dropped because the queue overflowed or the backend rejected them */
+  get droppedSpans(): number {
+    return this.dropped;
+  }
+
+  /** Spans waiting to be redelivered on the next write */
+  get queuedSpans(): number {
+    return this.queue.length;
+  }
+
+  async write(spans: WritableSpan[]): Promise<void> {
+    // Redeliver spans left over from earlier failed uploads first
+    const batch = this.queue.length
+      ? [...this.queue.splice(0), ...spans]
+      : spans;
+    if (!batch.length) return;
+
+    const endpoint = `${getApiUrl(this.api)}/spans`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
-    const apiKey = getApiKey();
+    if (this.compress) headers['Content-Encoding'] = 'gzip';
+    const apiKey = getApiKey(this.api);
     if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
 
-    // Collect signals from spans and collect trace/session ids
-    const spansWithSignals: Array<{
-      spanId: string;
-      signals: Record<string, Signal>;
-    }> = [];
-    const traceIds = new Set<string>();
-    const sessionIds = new Set<string>();
-
-    const payload = spans.map((s: any) => {
-      const base = typeof s.toJSON === 'function' ? s.toJSON() : s;
-
-      if (base.signals && Object.keys(base.signals).length > 0) {
-        spansWithSignals.push({ spanId: base.span_id, signals: base.signals });
-      }
-      traceIds.add(base.trace_id);
-      if (base.session_id) sessionIds.add(base.session_id);
+    const entries = batch.map((s): SpanEntry => {
+      const base = (
+        typeof s.toJSON === 'function' ? s.toJSON() : s
+      ) as SerializedSpan;
 
       // Extract kind from attributes (default to 'generic')
       const kind = base.attributes?.kind ?? 'generic';
 
-      return {
+      const payload = {
         id: base.span_id,
         session_id: base.session_id,
         session_name: base.session_name,
@@ -70,79 +285,204 @@ export class BackendSpanWriter implements SpanWriter {
         trace_tags: base.trace_tags,
         session_tags: base.session_tags,
       };
+      const json = JSON.stringify(payload);
+      return {
+        span: s,
+        payload,
+        signals: base.signals,
+        json,
+        bytes: byteLength(json),
+      };
     });
 
+    const chunks = chunkEntries(
+      entries,
+      this.maxBatchSpans,
+      this.maxBatchBytes
+    );
+    if (chunks.length > 1) {
+      logger.debug(
+        `[ZeroEval] Splitting ${entries.length} spans into ${chunks.length} requests`
+      );
+    }
+
+    // One request at a time so a large backlog cannot flood the backend
+    for (const chunk of chunks) {
+      await this.writeChunk(endpoint, headers, chunk);
+    }
+  }
+
+  private async writeChunk(
+    endpoint: string,
+    headers: Record<string, string>,
+    chunk: SpanEntry[]
+  ): Promise<void> {
+    const spans = chunk.map((e) => e.span);
+
+    // Collect signals from spans and collect trace/session ids
+    const spansWithSignals: Array<{
+      spanId: string;
+      signals: Record<string, Signal>;
+    }> = [];
+    const traceIds = new Set<string>();
+    const sessionIds = new Set<string>();
+
+    for (const { payload, signals } of chunk) {
+      if (signals && Object.keys(signals).length > 0) {
+        spansWithSignals.push({ spanId: payload.id as string, signals });
+      }
+      traceIds.add(payload.trace_id as string);
+      if (payload.session_id) sessionIds.add(payload.session_id as string);
+    }
+
+    const json = `[${chunk.map((e) => e.json).join(',')}]`;
+
     // Log request details
-    logger.debug(`[ZeroEval] Sending ${payload.length} spans to ${endpoint}`);
+    logger.debug(`[ZeroEval] Sending ${chunk.length} spans to ${endpoint}`);
     if (Logger.isDebugEnabled()) {
       logger.debug('[ZeroEval] Request headers:', {
         ...headers,
         Authorization: headers.Authorization
-          ? `Bearer ${Logger.maskApiKey(apiKey)}`
+          ? `Bearer ${Logger.maskApiKey(getApiKey(this.api))}`
           : undefined,
       });
       logger.debug(
         '[ZeroEval] Request body:',
-        JSON.stringify(payload, null, 2)
+        JSON.stringify(
+          chunk.map((e) => e.payload),
+          null,
+          2
+        )
       );
     }
 
-    try {
-      const startTime = Date.now();
-      const res = await fetch(endpoint, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(payload),
-      });
-      const duration = Date.now() - startTime;
+    const body = this.compress ? await gzip(json) : json;
+    const outcome = await this.postWithRetry(endpoint, headers, body);
 
-      // Log response details
-      logger.debug(
-        `[ZeroEval] Response received in ${duration}ms - Status: ${res.status}`
+    if (outcome === 'ok') {
+      logger.info(
+        `[ZeroEval] Successfully posted ${chunk.length} spans to ${endpoint}`
+      );
+
+      // Send span-level signals
+      await this.sendSpanSignals(spansWithSignals);
+      // After spans persisted, send buffered trace/session signals
+      await this.flushTraceSessionSignals(
+        Array.from(traceIds),
+        Array.from(sessionIds)
       );
+      this.onSettled?.(spans);
+    } else if (outcome === 'retry') {
+      logger.warn(
+        `[ZeroEval] Giving up on ${spans.length} spans for now, queued for the next flush`
+      );
+      this.enqueue(spans);
+    } else {
+      this.dropped += spans.length;
+      logger.error(
+        `[ZeroEval] Dropping ${spans.length} spans rejected by the backend`
+      );
+      this.onSettled?.(spans);
+    }
+  }
 
-      const text = await res.text();
-      if (Logger.isDebugEnabled()) {
-        // Log response headers in a Node.js compatible way
-        const responseHeaders: Record<string, string> = {};
-        res.headers.forEach((value, key) => {
-          responseHeaders[key] = value;
+  /**
+   * POST a payload, retrying network errors, 408, 429 and 5xx responses with
+   * jittered exponential backoff. Retry-After is honoured on 429/503.
+   */
+  private async postWithRetry(
+    endpoint: string,
+    headers: Record<string, string>,
+    body: string | Uint8Array
+  ): Promise<UploadOutcome> {
+    for (let attempt = 0; ; attempt++) {
+      let retryAfterMs: number | undefined;
+
+      try {
+        const startTime = Date.now();
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers,
+          // BodyInit only takes views over an ArrayBuffer; the copy is one
+          body: typeof body === 'string' ? body : new Uint8Array(body),
         });
-        logger.debug(`[ZeroEval] Response headers:`, responseHeaders);
-        logger.debug(`[ZeroEval] Response body:`, text);
-      }
+        const duration = Date.now() - startTime;
 
-      if (!res.ok) {
-        logger.error(`[ZeroEval] Failed posting spans: ${res.status} ${text}`);
-      } else {
-        logger.info(
-          `[ZeroEval] Successfully posted ${payload.length} spans to ${endpoint}`
+        // Log response details
+        logger.debug(
+          `[ZeroEval] Response received in ${duration}ms - Status: ${res.status}`
         );
 
-        // Send span-level signals
-        await this.sendSpanSignals(spansWithSignals);
-        // After spans persisted, send buffered trace/session signals
-        await this.flushTraceSessionSignals(
-          Array.from(traceIds),
-          Array.from(sessionIds)
-        );
-      }
-    } catch (err) {
-      logger.error('[ZeroEval] Error posting spans', err);
-      if (Logger.isDebugEnabled()) {
-        logger.debug('[ZeroEval] Error details:', {
-          endpoint,
-          spanCount: payload.length,
-          error:
-            err instanceof Error
-              ? {
-                  name: err.name,
-                  message: err.message,
-                  stack: err.stack,
-                }
-              : err,
-        });
+        const text = await res.text();
+        if (Logger.isDebugEnabled()) {
+          // Log response headers in a Node.js compatible way
+          const responseHeaders: Record<string, string> = {};
+          res.headers.forEach((value, key) => {
+            responseHeaders[key] = value;
+          });
+          logger.debug(`[ZeroEval] Response headers:`, responseHeaders);
+          logger.debug(`[ZeroEval] Response body:`, text);
+        }
+
+        if (res.ok) return 'ok';
+
+        logger.error(`[ZeroEval] Failed posting spans: ${res.status} ${text}`);
+        if (!isRetriableStatus(res.status)) return 'rejected';
+        if (res.status === 429 || res.status === 503) {
+          retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+        }
+      } catch (err) {
+        logger.error('[ZeroEval] Error posting spans', err);
+        if (Logger.isDebugEnabled()) {
+          logger.debug('[ZeroEval] Error details:', {
+            endpoint,
+            attempt,
+            error:
+              err instanceof Error
+                ? {
+                    name: err.name,
+                    message: err.message,
+                    stack: err.stack,
+                  }
+                : err,
+          });
+        }
       }
+
+      if (attempt >= this.maxRetries) return 'retry';
+
+      const delay = Math.min(
+        retryAfterMs ?? this.backoffDelay(attempt),
+        this.retryMaxDelayMs
+      );
+      logger.debug(
+        `[ZeroEval] Retrying span upload in ${delay}ms (${attempt + 1}/${this.maxRetries})`
+      );
+      await sleep(delay);
+    }
+  }
+
+  /** Full-jitter exponential backoff */
+  private backoffDelay(attempt: number): number {
+    const cap = Math.min(
+      this.retryMaxDelayMs,
+      this.retryBaseDelayMs * 2 ** attempt
+    );
+    return Math.round(Math.random() * cap);
+  }
+
+  /** Add spans to the dead-letter queue, dropping the oldest on overflow */
+  private enqueue(spans: WritableSpan[]): void {
+    // no spread: a large batch would exceed the argument limit
+    for (const span of spans) this.queue.push(span);
+    const overflow = this.queue.length - this.maxQueuedSpans;
+    if (overflow > 0) {
+      const evicted = this.queue.splice(0, overflow);
+      this.onSettled?.(evicted);
+      this.dropped += overflow;
+      logger.warn(
+        `[ZeroEval] Span queue full, dropped ${overflow} oldest spans (${this.dropped} total)`
+      );
     }
   }
 
@@ -168,7 +508,7 @@ export class BackendSpanWriter implements SpanWriter {
 
     if (bulkSignals.length > 0) {
       try {
-        await signalWriter.createBulkSignals(bulkSignals);
+        await this.signals.createBulkSignals(bulkSignals);
       } catch (err) {
         logger.error('[ZeroEval] Error sending span signals', err);
       }
@@ -181,14 +521,10 @@ export class BackendSpanWriter implements SpanWriter {
   ): Promise<void> {
     if (traceIds.length === 0 && sessionIds.length === 0) return;
 
-    const { popPendingTraceSignals, popPendingSessionSignals } = (await import(
-      './pendingSignals'
-    )) as PendingFns;
-
     const bulk: SignalCreate[] = [];
 
     for (const tid of traceIds) {
-      const signals = popPendingTraceSignals(tid);
+      const signals = this.pendingSignals.popTraceSignals(tid);
       if (!signals) continue;
       for (const [name, sig] of Object.entries(signals)) {
         bulk.push({
@@ -202,7 +538,7 @@ export class BackendSpanWriter implements SpanWriter {
     }
 
     for (const sid of sessionIds) {
-      const signals = popPendingSessionSignals(sid);
+      const signals = this.pendingSignals.popSessionSignals(sid);
       if (!signals) continue;
       for (const [name, sig] of Object.entries(signals)) {
         bulk.push({
@@ -217,7 +553,7 @@ export class BackendSpanWriter implements SpanWriter {
 
     if (bulk.length > 0) {
       try {
-        await signalWriter.createBulkSignals(bulk);
+        await this.signals.createBulkSignals(bulk);
       } catch (err) {
         logger.error('[ZeroEval] Error posting trace/session signals', err);
       }
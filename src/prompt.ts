@@ -1,17 +1,44 @@
 /**
- * Version-aware prompt function integrated with Prompt Library.
+ * Version-aware prompt functions integrated with Prompt Library.
  * Ports the logic from zeroeval-sdk/src/zeroeval/__init__.py
  */
 
-import { getPromptClient } from './observability/promptClient';
-import { sha256Hex, normalizePromptText } from './utils/hash';
+import { isUnavailableError } from './observability/promptClient';
+import type {
+  PromptChangeListener,
+  PromptClient,
+  PromptWatchOptions,
+} from './observability/promptClient';
+import type {
+  PromptSnapshot,
+  PullPromptsOptions,
+} from './observability/promptSnapshot';
+import { getLogger } from './observability/logger';
+import {
+  sha256Hex,
+  normalizePromptText,
+  normalizeChatTemplate,
+} from './utils/hash';
 import { decoratePrompt } from './utils/metadata';
+import { renderChatTemplate, renderTemplate } from './utils/template';
 import { PromptNotFoundError, PromptRequestError } from './errors';
-import type { PromptOptions, Prompt, PromptMetadata } from './types/prompt';
+import { getDefaultClient } from './client';
+import type {
+  PromptOptions,
+  Prompt,
+  PromptMessage,
+  PromptMetadata,
+  PromptVersionCreate,
+} from './types/prompt';
+
+const logger = getLogger('zeroeval.prompt');
 
 /** Pattern to validate 64-character hex SHA-256 hash */
 const HASH_PATTERN = /^[0-9a-f]{64}$/;
 
+// Tasks already warned about being reduced to a single prompt text
+const warnedChatTemplates = new Set<string>();
+
 /**
  * Version-aware prompt helper integrated with Prompt Library.
  *
@@ -24,6 +51,10 @@ const HASH_PATTERN = /^[0-9a-f]{64}$/;
  * - `from: "explicit"` always uses the provided `content` (bypasses auto-optimization, requires `content`)
  * - `from: "<hash>"` fetches a specific version by its 64-char SHA-256 content hash
  *
+ * `tag` fetches the version a tag such as `"production"` points at, and
+ * `version` pins a version number. With `content`, the content is used when
+ * the tag or version does not exist.
+ *
  * @param options - Prompt configuration options
  * @returns Decorated prompt string with `<zeroeval>` metadata tags
  *
@@ -48,36 +79,379 @@ const HASH_PATTERN = /^[0-9a-f]{64}$/;
  *   name: "customer-support",
  *   from: "latest"
  * });
+ *
+ * // Tag mode - the version tagged for this environment
+ * const systemPrompt = await prompt({
+ *   name: "customer-support",
+ *   tag: process.env.NODE_ENV === "production" ? "production" : "staging"
+ * });
  * ```
  */
 export async function prompt(options: PromptOptions): Promise<string> {
-  const { name, content, variables, from: fromMode } = options;
+  return getDefaultClient().prompt(options);
+}
+
+/**
+ * A prompt version from the Prompt Library, with the metadata linking calls
+ * made with it to its task and version.
+ *
+ * Wrapped OpenAI, Anthropic and Vercel AI SDK clients read that metadata
+ * from `decorated()` / `toMessages()`. For other clients (Vapi, raw fetch,
+ * ...), send `renderedContent` and record `metadata` on the span yourself.
+ */
+export class ResolvedPrompt {
+  /** Task name the prompt was requested with */
+  readonly name: string;
+  /**
+   * Template content, with `{{variables}}` unrendered; for chat templates,
+   * the messages as JSON
+   */
+  readonly content: string;
+  /** Content with the prompt's variables rendered; unknown ones are kept */
+  readonly renderedContent: string;
+  /** Messages of a chat template, or null for a single prompt text */
+  readonly messages: PromptMessage[] | null;
+  /** Messages with the prompt's variables rendered */
+  readonly renderedMessages: PromptMessage[] | null;
+  readonly version: number | null;
+  readonly versionId: string | null;
+  readonly tag: string | null;
+  /** Model bound to the version, prefixed with "zeroeval/" */
+  readonly model: string | null;
+  readonly temperature: number | null;
+  /** Request parameters tuned for the version, `temperature` included */
+  readonly parameters: Record<string, unknown>;
+  readonly contentHash: string | null;
+  readonly source: Prompt['source'];
+  /** Linkage metadata for spans, as embedded in `<zeroeval>` tags */
+  readonly metadata: PromptMetadata;
+
+  constructor(
+    name: string,
+    private readonly prompt: Prompt,
+    metadata: PromptMetadata
+  ) {
+    const render = { missing: 'leave' } as const;
+    this.name = name;
+    this.content = prompt.content;
+    this.messages = prompt.messages;
+    this.renderedMessages =
+      prompt.messages && metadata.variables
+        ? renderChatTemplate(prompt.messages, metadata.variables, render)
+        : prompt.messages;
+    this.renderedContent = this.renderedMessages
+      ? JSON.stringify(this.renderedMessages)
+      : metadata.variables
+        ? renderTemplate(prompt.content, metadata.variables, render)
+        : prompt.content;
+    this.version = prompt.version;
+    this.versionId = prompt.versionId;
+    this.tag = prompt.tag;
+    this.model = prompt.model;
+    this.temperature =
+      typeof prompt.parameters.temperature === 'number'
+        ? prompt.parameters.temperature
+        : null;
+    this.parameters = prompt.parameters;
+    this.contentHash = prompt.contentHash;
+    this.source = prompt.source;
+    this.metadata = metadata;
+  }
+
+  /**
+   * The same prompt with more variables, merged over its own. Returns a new
+   * object; use `renderedContent` for the text.
+   */
+  render(variables: Record<string, string>): ResolvedPrompt {
+    return new ResolvedPrompt(this.name, this.prompt, {
+      ...this.metadata,
+      variables: { ...this.metadata.variables, ...variables },
+    });
+  }
+
+  /**
+   * The content with `<zeroeval>` metadata prepended, as returned by
+   * `prompt()`. Wrapped clients strip the tags and render the variables.
+   *
+   * Chat templates have no single prompt text: their system messages are
+   * used (or the first message if there is none), and the rest of the
+   * template is left out. Use `toMessages()` to send all of it.
+   */
+  decorated(): string {
+    if (!this.messages) return decoratePrompt(this.content, this.metadata);
+
+    if (!warnedChatTemplates.has(this.name)) {
+      warnedChatTemplates.add(this.name);
+      logger.warn(
+        `[ZeroEval] Prompt '${this.name}' is a chat template; prompt() returns only its system message. Use getPrompt() and toMessages() for the whole template.`
+      );
+    }
+    const system = this.messages.filter((m) => m.role === 'system');
+    const text = (system.length > 0 ? system : this.messages.slice(0, 1))
+      .map((m) => m.content)
+      .join('\n\n');
+    return decoratePrompt(text, this.metadata);
+  }
+
+  /**
+   * Chat messages for a wrapped client, followed by `messages`: the
+   * decorated prompt as the system message, or the messages of a chat
+   * template with its system message decorated. Templates that start with
+   * another role get a system message carrying only the metadata, which
+   * wrapped clients drop. Wrapped clients render the variables; send
+   * `renderedContent` / `renderedMessages` to others.
+   */
+  toMessages(messages: PromptMessage[] = []): PromptMessage[] {
+    const template = this.messages ?? [
+      { role: 'system', content: this.content },
+    ];
+    const [first, ...rest] =
+      template[0].role === 'system'
+        ? template
+        : [{ role: 'system' as const, content: '' }, ...template];
+    return [
+      { ...first, content: decoratePrompt(first.content, this.metadata) },
+      ...rest,
+      ...messages,
+    ];
+  }
+}
+
+/**
+ * Like `prompt()`, returning the prompt version as an object rather than a
+ * decorated string.
+ *
+ * @example
+ * ```typescript
+ * const support = await getPrompt({ name: "customer-support", tag: "production" });
+ *
+ * // Wrapped clients
+ * await openai.chat.completions.create({
+ *   model: "gpt-4o-mini",
+ *   messages: support.toMessages([{ role: "user", content: question }]),
+ * });
+ *
+ * // Anything else
+ * await vapi.assistants.create({
+ *   model: { messages: [{ role: "system", content: support.renderedContent }], ... },
+ * });
+ * ```
+ */
+export async function getPrompt(
+  options: PromptOptions
+): Promise<ResolvedPrompt> {
+  return getDefaultClient().getPrompt(options);
+}
+
+/**
+ * Subscribe to new versions of a task's prompt (or of a tag). The prompt
+ * is checked every 30 seconds and the listener called with the new and
+ * previous version, and the new version is served by prompt() right away.
+ *
+ * @returns A function that ends the subscription
+ *
+ * @example
+ * ```typescript
+ * let support = await ze.getPrompt({ name: "customer-support", from: "latest" });
+ * ze.onPromptChange("customer-support", async () => {
+ *   support = await ze.getPrompt({ name: "customer-support", from: "latest" });
+ * });
+ * ```
+ */
+export function onPromptChange(
+  name: string,
+  listener: PromptChangeListener,
+  options: PromptWatchOptions = {}
+): () => void {
+  return getDefaultClient().onPromptChange(name, listener, options);
+}
+
+/** Prompt Library management */
+export const prompts = {
+  /**
+   * Fetch the latest version (and `tags`) of each named task into a
+   * snapshot, and write it to `path`. Pass the file to
+   * `init({ promptSnapshot })` to serve those prompts when the API cannot
+   * be reached.
+   *
+   * @example
+   * ```typescript
+   * await ze.prompts.pull({
+   *   names: ["customer-support"],
+   *   tags: ["production"],
+   *   path: "prompts.snapshot.json",
+   * });
+   * ```
+   */
+  pull(options: PullPromptsOptions): Promise<PromptSnapshot> {
+    return getDefaultClient().prompts.pull(options);
+  },
+};
+
+/** prompt() against a specific PromptClient */
+export async function resolvePrompt(
+  client: PromptClient,
+  options: PromptOptions
+): Promise<string> {
+  return (await loadPrompt(client, options)).decorated();
+}
+
+/**
+ * The version to ensure for provided content. Chat templates are stored as
+ * JSON and marked with `content_type: "chat"` in the version metadata.
+ */
+async function toVersionCreate(
+  content: string | PromptMessage[]
+): Promise<PromptVersionCreate> {
+  const text =
+    typeof content === 'string'
+      ? normalizePromptText(content)
+      : normalizeChatTemplate(content);
+  return {
+    content: text,
+    content_hash: await sha256Hex(text),
+    ...(typeof content !== 'string' && {
+      metadata: { content_type: 'chat' },
+    }),
+  };
+}
+
+/**
+ * The provided content as a prompt version, or as a local prompt
+ * (`source: 'fallback'`, no version) while the API is unavailable
+ */
+async function ensureContent(
+  client: PromptClient,
+  name: string,
+  content: string | PromptMessage[]
+): Promise<Prompt> {
+  const versionCreate = await toVersionCreate(content);
+  try {
+    return await client.ensureTaskPromptVersion(name, versionCreate);
+  } catch (err) {
+    if (!isUnavailableError(err)) throw err;
+    logger.warn(
+      `[ZeroEval] Prompt API unavailable, using the provided content for ${name}`,
+      err
+    );
+    return localPrompt(content, versionCreate);
+  }
+}
+
+/**
+ * Use the provided content when fetching a version failed: ensure it as a
+ * version if there was none (404), or use it locally if the API is
+ * unavailable. Other errors (401, ...) are rethrown.
+ */
+async function fallBackToContent(
+  client: PromptClient,
+  name: string,
+  content: string | PromptMessage[],
+  err: unknown
+): Promise<Prompt> {
+  if (isNotFoundError(err)) {
+    return ensureContent(client, name, content);
+  }
+  if (!isUnavailableError(err)) {
+    throw err;
+  }
+  logger.warn(
+    `[ZeroEval] Prompt API unavailable, using the provided content for ${name}`,
+    err
+  );
+  return localPrompt(content, await toVersionCreate(content));
+}
+
+function localPrompt(
+  content: string | PromptMessage[],
+  versionCreate: PromptVersionCreate
+): Prompt {
+  return {
+    content: versionCreate.content,
+    messages: typeof content === 'string' ? null : content,
+    version: null,
+    versionId: null,
+    taskId: null,
+    promptSlug: null,
+    tag: null,
+    isLatest: false,
+    model: null,
+    parameters: {},
+    contentHash: versionCreate.content_hash,
+    metadata: {},
+    source: 'fallback',
+  };
+}
+
+function isNotFoundError(err: unknown): boolean {
+  return (
+    err instanceof PromptNotFoundError ||
+    (err instanceof PromptRequestError && err.status === 404)
+  );
+}
+
+/** getPrompt() against a specific PromptClient */
+export async function loadPrompt(
+  client: PromptClient,
+  options: PromptOptions
+): Promise<ResolvedPrompt> {
+  const { name, content, variables, from: fromMode, tag, version } = options;
 
   // Validation
-  if (!content && !fromMode) {
-    throw new Error('Must provide either "content" or "from"');
+  if (!content && !fromMode && tag === undefined && version === undefined) {
+    throw new Error(
+      'Must provide either "content", "from", "tag" or "version"'
+    );
+  }
+
+  if (fromMode && (tag !== undefined || version !== undefined)) {
+    throw new Error('"from" cannot be combined with "tag" or "version"');
+  }
+
+  if (tag !== undefined && version !== undefined) {
+    throw new Error('"tag" and "version" cannot be combined');
+  }
+
+  if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+    throw new Error('version must be a positive integer');
+  }
+
+  if (tag !== undefined && !tag) {
+    throw new Error('tag must be a non-empty string');
   }
 
   if (fromMode === 'explicit' && !content) {
     throw new Error('from: "explicit" requires "content" to be provided');
   }
 
-  const client = getPromptClient();
+  if (Array.isArray(content) && content.length === 0) {
+    throw new Error('A chat template needs at least one message');
+  }
+
   let promptObj: Prompt;
-  let contentHash: string | null = null;
 
   // Priority order:
-  // 1. If from="explicit", always use the provided content (bypass auto-optimization)
-  // 2. If from is specified (latest or hash), use it (strict mode)
-  // 3. If only content is provided, try to fetch latest first, fall back to ensuring content
+  // 1. If tag or version is specified, fetch it (falling back to content if given)
+  // 2. If from="explicit", always use the provided content (bypass auto-optimization)
+  // 3. If from is specified (latest or hash), use it (strict mode)
+  // 4. If only content is provided, try to fetch latest first, fall back to ensuring content
 
-  if (fromMode === 'explicit') {
+  if (tag !== undefined || version !== undefined) {
+    // Tag/version mode: fetch the pinned version
+    try {
+      promptObj =
+        version !== undefined
+          ? await client.getTaskPromptVersion(name, version)
+          : await client.getTaskPromptByTag(name, tag!);
+    } catch (err) {
+      if (!content) {
+        throw err;
+      }
+      promptObj = await fallBackToContent(client, name, content, err);
+    }
+  } else if (fromMode === 'explicit') {
     // Explicit mode: always use the provided content, no auto-optimization
-    contentHash = await sha256Hex(content!);
-    promptObj = await client.ensureTaskPromptVersion(name, {
-      content: normalizePromptText(content!),
-      content_hash: contentHash,
-    });
+    promptObj = await ensureContent(client, name, content!);
   } else if (fromMode === 'latest') {
     // Latest mode: require an optimized version to exist
     try {
@@ -97,25 +471,10 @@ export async function prompt(options: PromptOptions): Promise<string> {
     promptObj = await client.getTaskPromptVersionByHash(name, fromMode);
   } else if (content) {
     // Auto-tune mode: try latest first, fall back to content
-    contentHash = await sha256Hex(content);
     try {
       promptObj = await client.getTaskPromptLatest(name);
     } catch (err) {
-      // Only fall back for "not found" errors (404)
-      // Re-throw server errors (500), auth failures (401), etc.
-      const isNotFoundError =
-        err instanceof PromptNotFoundError ||
-        (err instanceof PromptRequestError && err.status === 404);
-
-      if (isNotFoundError) {
-        // No latest version exists, ensure the provided content as a version
-        promptObj = await client.ensureTaskPromptVersion(name, {
-          content: normalizePromptText(content),
-          content_hash: contentHash,
-        });
-      } else {
-        throw err;
-      }
+      promptObj = await fallBackToContent(client, name, content, err);
     }
   } else if (fromMode) {
     // Invalid from value
@@ -163,6 +522,5 @@ export async function prompt(options: PromptOptions): Promise<string> {
     metadata.content_hash = promptObj.contentHash;
   }
 
-  // Return decorated prompt
-  return decoratePrompt(promptObj.content, metadata);
+  return new ResolvedPrompt(name, promptObj, metadata);
 }
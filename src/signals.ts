@@ -1,15 +1,118 @@
-import { signalWriter } from './observability/signalWriter';
 import type { Signal, SignalCreate } from './observability/signals';
 import { detectSignalType } from './observability/signals';
-import { tracer } from './observability/Tracer';
-import {
-  addPendingTraceSignal,
-  addPendingSessionSignal,
-} from './observability/pendingSignals';
+import type { Tracer } from './observability/Tracer';
 import { getLogger } from './observability/logger';
+import { getDefaultClient } from './client';
 
 const logger = getLogger('zeroeval.signals');
 
+/**
+ * Signals API bound to one tracer: its active spans and its workspace.
+ * The top-level functions below use the default client.
+ */
+export class SignalClient {
+  constructor(private readonly tracer: Tracer) {}
+
+  async sendSignal(
+    entityType: 'session' | 'trace' | 'span' | 'completion',
+    entityId: string,
+    name: string,
+    value: string | boolean | number,
+    signalType?: 'boolean' | 'numerical'
+  ): Promise<void> {
+    const signal: SignalCreate = {
+      entity_type: entityType,
+      entity_id: entityId,
+      name,
+      value,
+      signal_type: signalType || detectSignalType(value),
+    };
+
+    const redacted = await this.tracer.redactor?.redactSignal(signal);
+    await this.tracer.signalWriter.createSignal(redacted ?? signal);
+  }
+
+  async sendBulkSignals(signals: SignalCreate[]): Promise<void> {
+    const redactor = this.tracer.redactor;
+    if (redactor) {
+      signals = await Promise.all(signals.map((s) => redactor.redactSignal(s)));
+    }
+    await this.tracer.signalWriter.createBulkSignals(signals);
+  }
+
+  sendTraceSignal(
+    name: string,
+    value: string | boolean | number,
+    signalType?: 'boolean' | 'numerical'
+  ): void {
+    const currentSpan = this.tracer.currentSpan();
+    if (!currentSpan) {
+      logger.warn(
+        '[ZeroEval] No active span/trace found for sending trace signal'
+      );
+      return;
+    }
+    this.tracer.recordPendingSignal({
+      entity_type: 'trace',
+      entity_id: currentSpan.traceId,
+      name,
+      value,
+      signal_type: signalType || detectSignalType(value),
+    });
+  }
+
+  sendSessionSignal(
+    name: string,
+    value: string | boolean | number,
+    signalType?: 'boolean' | 'numerical'
+  ): void {
+    const currentSpan = this.tracer.currentSpan();
+    if (!currentSpan || !currentSpan.sessionId) {
+      logger.warn(
+        '[ZeroEval] No active session found for sending session signal'
+      );
+      return;
+    }
+    this.tracer.recordPendingSignal({
+      entity_type: 'session',
+      entity_id: currentSpan.sessionId,
+      name,
+      value,
+      signal_type: signalType || detectSignalType(value),
+    });
+  }
+
+  sendSpanSignal(
+    name: string,
+    value: string | boolean | number,
+    signalType?: 'boolean' | 'numerical'
+  ): void {
+    const currentSpan = this.tracer.currentSpan();
+    if (!currentSpan) {
+      logger.warn('[ZeroEval] No active span found for sending span signal');
+      return;
+    }
+
+    // Add signal to span (will be sent when span is flushed)
+    currentSpan.addSignal(name, value, signalType);
+  }
+
+  async getEntitySignals(
+    entityType: 'session' | 'trace' | 'span' | 'completion',
+    entityId: string
+  ): Promise<Signal[]> {
+    const result = (await this.tracer.signalWriter.getEntitySignals(
+      entityType,
+      entityId
+    )) as unknown;
+    // Handle null or invalid responses
+    if (!result || !Array.isArray(result)) {
+      return [];
+    }
+    return result as Signal[];
+  }
+}
+
 /**
  * Send a signal to a specific entity
  * @param entityType - Type of entity: 'session' | 'trace' | 'span' | 'completion'
@@ -25,15 +128,13 @@ export async function sendSignal(
   value: string | boolean | number,
   signalType?: 'boolean' | 'numerical'
 ): Promise<void> {
-  const signal: SignalCreate = {
-    entity_type: entityType,
-    entity_id: entityId,
+  await getDefaultClient().sendSignal(
+    entityType,
+    entityId,
     name,
     value,
-    signal_type: signalType || detectSignalType(value),
-  };
-
-  await signalWriter.createSignal(signal);
+    signalType
+  );
 }
 
 /**
@@ -41,7 +142,7 @@ export async function sendSignal(
  * @param signals - Array of signal creates
  */
 export async function sendBulkSignals(signals: SignalCreate[]): Promise<void> {
-  await signalWriter.createBulkSignals(signals);
+  await getDefaultClient().sendBulkSignals(signals);
 }
 
 /**
@@ -55,18 +156,7 @@ export function sendTraceSignal(
   value: string | boolean | number,
   signalType?: 'boolean' | 'numerical'
 ): void {
-  const currentSpan = tracer.currentSpan();
-  if (!currentSpan) {
-    logger.warn(
-      '[ZeroEval] No active span/trace found for sending trace signal'
-    );
-    return;
-  }
-  const sig: Signal = {
-    value,
-    type: signalType || detectSignalType(value),
-  };
-  addPendingTraceSignal(currentSpan.traceId, name, sig);
+  getDefaultClient().sendTraceSignal(name, value, signalType);
 }
 
 /**
@@ -80,18 +170,7 @@ export function sendSessionSignal(
   value: string | boolean | number,
   signalType?: 'boolean' | 'numerical'
 ): void {
-  const currentSpan = tracer.currentSpan();
-  if (!currentSpan || !currentSpan.sessionId) {
-    logger.warn(
-      '[ZeroEval] No active session found for sending session signal'
-    );
-    return;
-  }
-  const sig: Signal = {
-    value,
-    type: signalType || detectSignalType(value),
-  };
-  addPendingSessionSignal(currentSpan.sessionId, name, sig);
+  getDefaultClient().sendSessionSignal(name, value, signalType);
 }
 
 /**
@@ -105,14 +184,7 @@ export function sendSpanSignal(
   value: string | boolean | number,
   signalType?: 'boolean' | 'numerical'
 ): void {
-  const currentSpan = tracer.currentSpan();
-  if (!currentSpan) {
-    logger.warn('[ZeroEval] No active span found for sending span signal');
-    return;
-  }
-
-  // Add signal to span (will be sent when span is flushed)
-  currentSpan.addSignal(name, value, signalType);
+  getDefaultClient().sendSpanSignal(name, value, signalType);
 }
 
 /**
@@ -125,13 +197,5 @@ export async function getEntitySignals(
   entityType: 'session' | 'trace' | 'span' | 'completion',
   entityId: string
 ): Promise<Signal[]> {
-  const result = (await signalWriter.getEntitySignals(
-    entityType,
-    entityId
-  )) as unknown;
-  // Handle null or invalid responses
-  if (!result || !Array.isArray(result)) {
-    return [];
-  }
-  return result as Signal[];
+  return getDefaultClient().getEntitySignals(entityType, entityId);
 }
@@ -18,6 +18,8 @@ export interface PromptResponse {
   score_max: number | null;
   pass_threshold: number | null;
   temperature: number | null;
+  /** Other tuned request parameters, e.g. `top_p`, `max_tokens` */
+  parameters?: Record<string, unknown> | null;
   created_by: string;
   updated_by: string;
   created_at: string;
@@ -28,7 +30,10 @@ export interface PromptResponse {
  * Internal SDK representation of a prompt
  */
 export interface Prompt {
+  /** Prompt text; for chat templates, the messages as JSON */
   content: string;
+  /** Messages of a chat template, or null for a single prompt text */
+  messages: PromptMessage[] | null;
   version: number | null;
   versionId: string | null;
   taskId: string | null;
@@ -36,19 +41,43 @@ export interface Prompt {
   tag: string | null;
   isLatest: boolean;
   model: string | null;
+  /** Request parameters tuned for this version, `temperature` included */
+  parameters: Record<string, unknown>;
   contentHash: string | null;
   metadata: Record<string, unknown>;
   source: 'server' | 'fallback';
 }
 
 /**
- * Options for ze.prompt()
+ * Model and request parameters bound to a prompt version, applied by the
+ * integrations to calls using the version
+ */
+export interface PromptVersionSettings {
+  /** Model prefixed with "zeroeval/", or null when none is bound */
+  model: string | null;
+  /** Request parameters in snake_case, e.g. `temperature`, `max_tokens` */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * A message of a chat template, or built from a prompt
+ */
+export interface PromptMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Options for ze.prompt() and ze.getPrompt()
  */
 export interface PromptOptions {
   /** Task name associated with the prompt */
   name: string;
-  /** Raw prompt content (used as fallback or for explicit mode) */
-  content?: string;
+  /**
+   * Raw prompt content (used as fallback or for explicit mode): a prompt
+   * text, or a chat template of role/content messages
+   */
+  content?: string | PromptMessage[];
   /** Template variables to interpolate {{variable}} tokens */
   variables?: Record<string, string>;
   /**
@@ -57,7 +86,15 @@ export interface PromptOptions {
    * - "explicit": Always use provided content (bypasses auto-optimization)
    * - "<hash>": Fetch a specific version by 64-char SHA-256 content hash
    */
-  from?: 'latest' | 'explicit' | string;
+  from?: 'latest' | 'explicit' | (string & {});
+  /**
+   * Fetch the version a tag points at, e.g. "production" or "staging".
+   * Tags are moved in the Prompt Library, so environments can pick up new
+   * versions without code changes. Cannot be combined with `from`.
+   */
+  tag?: string;
+  /** Pin a version by its number. Cannot be combined with `from` or `tag`. */
+  version?: number;
 }
 
 /**
@@ -2,19 +2,49 @@
  * Shared API configuration utilities.
  */
 
+import { getEnv } from './runtime';
+
 const DEFAULT_API_URL = 'https://api.zeroeval.com';
 
 /**
- * Get the ZeroEval API base URL from environment.
+ * Credentials for a single ZeroEval client. Unset fields fall back to the
+ * ZEROEVAL_API_URL / ZEROEVAL_API_KEY environment variables.
+ */
+export interface ApiConfig {
+  apiUrl?: string;
+  apiKey?: string;
+}
+
+/** Credentials passed to init(), for runtimes without process.env */
+let defaults: ApiConfig = {};
+
+/**
+ * Set the credentials used when a client does not pass its own. Called by
+ * init(); they take precedence over the environment.
+ */
+export function setDefaultApiConfig(config: ApiConfig): void {
+  defaults = {
+    apiUrl: config.apiUrl ?? defaults.apiUrl,
+    apiKey: config.apiKey ?? defaults.apiKey,
+  };
+}
+
+/**
+ * Get the ZeroEval API base URL from the config, init() or environment.
  * Removes trailing slash if present.
  */
-export function getApiUrl(): string {
-  return (process.env.ZEROEVAL_API_URL ?? DEFAULT_API_URL).replace(/\/$/, '');
+export function getApiUrl(config: ApiConfig = {}): string {
+  return (
+    config.apiUrl ??
+    defaults.apiUrl ??
+    getEnv('ZEROEVAL_API_URL') ??
+    DEFAULT_API_URL
+  ).replace(/\/$/, '');
 }
 
 /**
- * Get the ZeroEval API key from environment.
+ * Get the ZeroEval API key from the config, init() or environment.
  */
-export function getApiKey(): string | undefined {
-  return process.env.ZEROEVAL_API_KEY;
+export function getApiKey(config: ApiConfig = {}): string | undefined {
+  return config.apiKey ?? defaults.apiKey ?? getEnv('ZEROEVAL_API_KEY');
 }
@@ -8,6 +8,11 @@ export interface TTLCacheOptions {
   ttlMs?: number;
   /** Maximum number of entries (default: 512) */
   maxSize?: number;
+  /**
+   * How long expired entries are kept for getStale(), in milliseconds
+   * (default: 0, dropped on expiry)
+   */
+  staleMs?: number;
 }
 
 interface CacheEntry<V> {
@@ -24,28 +29,40 @@ export class TTLCache<K, V> {
   private data: Map<K, CacheEntry<V>>;
   private ttlMs: number;
   private maxSize: number;
+  private staleMs: number;
 
   constructor(options: TTLCacheOptions = {}) {
     this.ttlMs = options.ttlMs ?? 60000; // 60s default
     this.maxSize = options.maxSize ?? 512;
+    this.staleMs = options.staleMs ?? 0;
     this.data = new Map();
   }
 
   /**
-   * Get a value from the cache.
-   * Returns undefined if the key doesn't exist or has expired.
+   * The entry for a key unless it is past its stale window, which is then
+   * dropped.
    */
-  get(key: K): V | undefined {
-    const now = Date.now();
+  private entry(key: K): CacheEntry<V> | undefined {
     const entry = this.data.get(key);
-
-    if (!entry) {
+    if (entry && Date.now() - entry.timestamp > this.ttlMs + this.staleMs) {
+      this.data.delete(key);
       return undefined;
     }
+    return entry;
+  }
 
-    // Check if expired
-    if (now - entry.timestamp > this.ttlMs) {
-      this.data.delete(key);
+  private isExpired(entry: CacheEntry<V>): boolean {
+    return Date.now() - entry.timestamp > this.ttlMs;
+  }
+
+  /**
+   * Get a value from the cache.
+   * Returns undefined if the key doesn't exist or has expired.
+   */
+  get(key: K): V | undefined {
+    const entry = this.entry(key);
+
+    if (!entry || this.isExpired(entry)) {
       return undefined;
     }
 
@@ -85,15 +102,25 @@ export class TTLCache<K, V> {
    * This is a pure query that does not modify LRU order.
    */
   has(key: K): boolean {
-    const entry = this.data.get(key);
-    if (!entry) {
-      return false;
-    }
-    if (Date.now() - entry.timestamp > this.ttlMs) {
-      this.data.delete(key);
-      return false;
-    }
-    return true;
+    const entry = this.entry(key);
+    return entry !== undefined && !this.isExpired(entry);
+  }
+
+  /**
+   * Get a value even if it has expired, as long as it is within the stale
+   * window. For serving the last known value when a refresh fails.
+   */
+  getStale(key: K): V | undefined {
+    return this.entry(key)?.value;
+  }
+
+  /**
+   * Milliseconds since a key was set, or undefined if it is missing or past
+   * its stale window.
+   */
+  age(key: K): number | undefined {
+    const entry = this.entry(key);
+    return entry ? Date.now() - entry.timestamp : undefined;
   }
 
   /**
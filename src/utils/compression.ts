@@ -0,0 +1,32 @@
+/**
+ * Request body compression helpers.
+ */
+
+/* global CompressionStream, Response, Blob, TextEncoder */
+
+import type * as Zlib from 'zlib';
+import { getBuiltin } from './runtime';
+
+/**
+ * UTF-8 byte length of a string.
+ */
+export function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Gzip a string. Uses CompressionStream where available (Node.js 18+, edge
+ * runtimes, browsers) and falls back to zlib.
+ */
+export async function gzip(text: string): Promise<Uint8Array> {
+  if (typeof CompressionStream !== 'undefined') {
+    const stream = new Blob([text])
+      .stream()
+      .pipeThrough(new CompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  const zlib = getBuiltin<typeof Zlib>('zlib');
+  if (!zlib) throw new Error('No gzip implementation available');
+  return zlib.gzipSync(text);
+}
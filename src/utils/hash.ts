@@ -3,6 +3,12 @@
  * Ports the logic from zeroeval-sdk/src/zeroeval/utils/hash.py
  */
 
+/* global crypto */
+
+import type * as Crypto from 'crypto';
+import type { PromptMessage } from '../types/prompt';
+import { getBuiltin } from './runtime';
+
 /**
  * Convert CRLF and CR to LF
  */
@@ -42,17 +48,48 @@ export function normalizePromptText(text: string): string {
   return normalized;
 }
 
+/**
+ * Serialize a chat template for storage and hashing: the role and
+ * normalized content of each message, as JSON. Equal templates give the
+ * same text, and so the same sha256Hex content hash.
+ */
+export function normalizeChatTemplate(messages: PromptMessage[]): string {
+  return JSON.stringify(
+    messages.map(({ role, content }) => ({
+      role,
+      content: normalizePromptText(content),
+    }))
+  );
+}
+
 /**
  * Return lowercase hex SHA-256 of the normalized text.
  * Uses Web Crypto API for hashing.
  */
 export async function sha256Hex(text: string): Promise<string> {
-  const normalized = normalizePromptText(text);
+  return sha256HexRaw(normalizePromptText(text));
+}
+
+/**
+ * Lowercase hex SHA-256 of raw text, without normalization.
+ */
+export async function sha256HexRaw(text: string): Promise<string> {
   const encoder = new TextEncoder();
-  const data = encoder.encode(normalized);
+  const data = encoder.encode(text);
 
   // Use Web Crypto API (works in Node.js 18+ and browsers)
   const hashBuffer = await crypto.subtle.digest('SHA-256', data);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 }
+
+/**
+ * Lowercase hex SHA-256 of raw text via node:crypto, for callers that
+ * cannot await Web Crypto. Undefined on runtimes without node:crypto.
+ */
+export function sha256HexSync(text: string): string | undefined {
+  return getBuiltin<typeof Crypto>('crypto')
+    ?.createHash('sha256')
+    .update(text)
+    .digest('hex');
+}
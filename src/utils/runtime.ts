@@ -0,0 +1,101 @@
+/**
+ * Runtime detection and portable replacements for Node-only APIs, so the
+ * core SDK loads on Node.js, edge runtimes (Vercel Edge, Cloudflare Workers,
+ * Deno Deploy) and browsers.
+ */
+
+/* global navigator */
+
+/** The runtime globals probed here, all of them optional */
+interface RuntimeGlobals {
+  process?: {
+    versions?: { node?: string };
+    env?: Record<string, string | undefined>;
+    on?: unknown;
+    getBuiltinModule?: (id: string) => unknown;
+  };
+  crypto?: {
+    randomUUID?: () => string;
+    getRandomValues?: (array: Uint8Array) => Uint8Array;
+  };
+  EdgeRuntime?: unknown;
+}
+
+const g = globalThis as unknown as RuntimeGlobals;
+
+/** Node built-ins handed over by the Node entry point (src/node.ts) */
+const builtins: Record<string, unknown> = {};
+
+/**
+ * Make a Node built-in available to the runtime-agnostic core. Called by
+ * the Node entry point, which is the only module importing them directly.
+ */
+export function provideBuiltin(name: string, mod: unknown): void {
+  builtins[name] = mod;
+}
+
+/**
+ * A Node built-in module, or undefined on runtimes without one. Falls back
+ * to `process.getBuiltinModule` when the Node entry point was not used.
+ */
+export function getBuiltin<T>(name: string): T | undefined {
+  return (builtins[name] ?? g.process?.getBuiltinModule?.(`node:${name}`)) as
+    | T
+    | undefined;
+}
+
+/**
+ * True on a long-lived Node.js process (including Bun and Deno's Node
+ * compatibility), false on edge runtimes and in browsers.
+ */
+export function isNodeRuntime(): boolean {
+  return (
+    typeof g.process?.versions?.node === 'string' &&
+    typeof g.process?.on === 'function' &&
+    typeof g.EdgeRuntime === 'undefined' &&
+    !(
+      typeof navigator !== 'undefined' &&
+      navigator.userAgent === 'Cloudflare-Workers'
+    )
+  );
+}
+
+/** Read an environment variable where the runtime exposes `process.env` */
+export function getEnv(name: string): string | undefined {
+  return g.process?.env?.[name];
+}
+
+/** Set an environment variable where the runtime exposes `process.env` */
+export function setEnv(name: string, value: string): void {
+  if (g.process?.env) g.process.env[name] = value;
+}
+
+/** RFC 4122 v4 UUID from Web Crypto, or Math.random where it is missing */
+export function randomUUID(): string {
+  if (typeof g.crypto?.randomUUID === 'function') {
+    return g.crypto.randomUUID();
+  }
+  const bytes = new Uint8Array(16);
+  if (typeof g.crypto?.getRandomValues === 'function') {
+    g.crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0'));
+  return [
+    hex.slice(0, 4).join(''),
+    hex.slice(4, 6).join(''),
+    hex.slice(6, 8).join(''),
+    hex.slice(8, 10).join(''),
+    hex.slice(10).join(''),
+  ].join('-');
+}
+
+/** Let a timer not keep the process alive, on runtimes that support it */
+export function unrefTimer(timer: unknown): void {
+  (timer as { unref?: () => void } | undefined)?.unref?.();
+}
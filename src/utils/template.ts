@@ -4,6 +4,7 @@
  */
 
 import { PromptRequestError } from '../errors';
+import type { PromptMessage } from '../types/prompt';
 
 /** Pattern for valid identifier names */
 const IDENTIFIER_RE = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
@@ -73,6 +74,54 @@ export function renderTemplate(
   return rendered.replace(new RegExp(ESC_L, 'g'), '{{').replace(new RegExp(ESC_R, 'g'), '}}');
 }
 
+/**
+ * Render {{variable}} placeholders in every message of a chat template.
+ *
+ * @param messages - Template messages
+ * @param variables - Object mapping variable names to values
+ * @param options - Rendering options (default: { missing: 'error' })
+ * @returns New messages with variables interpolated
+ */
+export function renderChatTemplate(
+  messages: PromptMessage[],
+  variables: Record<string, string | number | boolean>,
+  options: RenderOptions = { missing: 'error' }
+): PromptMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    content: renderTemplate(message.content, variables, options),
+  }));
+}
+
+/**
+ * Parse a chat template stored as JSON (see normalizeChatTemplate).
+ *
+ * @param text - Stored prompt content
+ * @returns The messages, or null if the text is not a JSON array of
+ *   role/content messages
+ */
+export function parseChatTemplate(text: string): PromptMessage[] | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const isMessage = (m: unknown): m is PromptMessage =>
+    typeof m === 'object' &&
+    m !== null &&
+    ['system', 'user', 'assistant'].includes((m as PromptMessage).role) &&
+    typeof (m as PromptMessage).content === 'string';
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length === 0 ||
+    !parsed.every(isMessage)
+  ) {
+    return null;
+  }
+  return parsed.map(({ role, content }) => ({ role, content }));
+}
+
 /**
  * Extract all variable names from a template.
  *
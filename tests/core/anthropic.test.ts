@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createFakeAnthropic,
+  createTestTracer,
+  MockSpanWriter,
+} from '../setup';
+import { tracer } from '../../src/observability/Tracer';
+import { wrapAnthropic } from '../../src/observability/integrations/anthropicWrapper';
+import { wrap } from '../../src/observability/integrations/wrapper';
+
+const message = {
+  id: 'msg_1',
+  type: 'message',
+  role: 'assistant',
+  model: 'claude-sonnet-4-5',
+  content: [
+    { type: 'text', text: 'Checking the weather.' },
+    {
+      type: 'tool_use',
+      id: 'toolu_1',
+      name: 'get_weather',
+      input: { city: 'Paris' },
+    },
+  ],
+  stop_reason: 'tool_use',
+  usage: {
+    input_tokens: 120,
+    output_tokens: 30,
+    cache_read_input_tokens: 100,
+    cache_creation_input_tokens: 0,
+  },
+};
+
+const events = [
+  {
+    type: 'message_start',
+    message: { ...message, content: [], usage: { input_tokens: 12 } },
+  },
+  {
+    type: 'content_block_start',
+    index: 0,
+    content_block: { type: 'text', text: '' },
+  },
+  {
+    type: 'content_block_delta',
+    index: 0,
+    delta: { type: 'text_delta', text: 'Hel' },
+  },
+  {
+    type: 'content_block_delta',
+    index: 0,
+    delta: { type: 'text_delta', text: 'lo' },
+  },
+  { type: 'content_block_stop', index: 0 },
+  {
+    type: 'content_block_start',
+    index: 1,
+    content_block: {
+      type: 'tool_use',
+      id: 'toolu_2',
+      name: 'lookup',
+      input: {},
+    },
+  },
+  {
+    type: 'content_block_delta',
+    index: 1,
+    delta: { type: 'input_json_delta', partial_json: '{"q":' },
+  },
+  {
+    type: 'content_block_delta',
+    index: 1,
+    delta: { type: 'input_json_delta', partial_json: '"x"}' },
+  },
+  { type: 'content_block_stop', index: 1 },
+  {
+    type: 'message_delta',
+    delta: { stop_reason: 'end_turn' },
+    usage: { output_tokens: 7 },
+  },
+  { type: 'message_stop' },
+];
+
+async function* eventStream() {
+  for (const event of events) yield event;
+}
+
+describe('Anthropic wrapper', () => {
+  let mockWriter: MockSpanWriter;
+  let fake: ReturnType<typeof createFakeAnthropic>;
+
+  beforeEach(() => {
+    ({ mockWriter } = createTestTracer(tracer));
+    fake = createFakeAnthropic(
+      vi.fn(async (params: any) => (params.stream ? eventStream() : message))
+    );
+    fake.messages.stream.mockImplementation(() => ({
+      on: vi.fn(),
+      finalMessage: () => Promise.resolve(message),
+    }));
+    fake.messages.countTokens.mockResolvedValue({ input_tokens: 42 });
+  });
+
+  it('should be detected by ze.wrap()', () => {
+    const client = wrap(fake);
+
+    expect((client as any).__zeroeval_wrapped).toBe(true);
+  });
+
+  it('should record usage, finish reason and tool calls', async () => {
+    const client = wrapAnthropic(fake as any);
+
+    const result = await client.messages.create({
+      model: 'claude-sonnet-4-5',
+      max_tokens: 100,
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+    });
+    await tracer.flush();
+
+    expect(result).toBe(message);
+    const [span] = mockWriter.spans;
+    expect(span.name).toBe('anthropic.messages.create');
+    expect(span.attributes).toMatchObject({
+      provider: 'anthropic',
+      // Cache reads and writes count as input, as for other providers
+      inputTokens: 220,
+      outputTokens: 30,
+      cachedInputTokens: 100,
+      cacheCreationInputTokens: 0,
+      finishReason: 'tool_use',
+      'gen_ai.system': 'anthropic',
+      'gen_ai.request.max_tokens': 100,
+      'gen_ai.response.id': 'msg_1',
+      'gen_ai.response.finish_reasons': ['tool_use'],
+      'gen_ai.usage.input_tokens': 220,
+      toolCalls: [
+        { id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+      ],
+    });
+    expect(span.output_data).toBe('Checking the weather.');
+  });
+
+  it('should assemble streamed events into the span', async () => {
+    const client = wrapAnthropic(fake as any);
+
+    const stream = await client.messages.create({
+      model: 'claude-sonnet-4-5',
+      max_tokens: 100,
+      stream: true,
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    const received = [];
+    for await (const event of stream) received.push(event);
+    await tracer.flush();
+
+    expect(received).toEqual(events);
+    const [span] = mockWriter.spans;
+    expect(span.attributes).toMatchObject({
+      streaming: true,
+      inputTokens: 12,
+      outputTokens: 7,
+      finishReason: 'end_turn',
+      'gen_ai.response.model': 'claude-sonnet-4-5',
+      toolCalls: [{ id: 'toolu_2', name: 'lookup', input: { q: 'x' } }],
+    });
+    expect(span.attributes.latency).toBeGreaterThanOrEqual(0);
+    expect(span.output_data).toBe('Hello');
+  });
+
+  it('should end messages.stream spans with the final message', async () => {
+    const client = wrapAnthropic(fake as any);
+
+    const stream = client.messages.stream({
+      model: 'claude-sonnet-4-5',
+      max_tokens: 100,
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    await stream.finalMessage();
+    await tracer.flush();
+
+    expect(stream.on).toHaveBeenCalledWith('text', expect.any(Function));
+    const [span] = mockWriter.spans;
+    expect(span.name).toBe('anthropic.messages.stream');
+    expect(span.attributes.outputTokens).toBe(30);
+  });
+
+  it('should trace countTokens', async () => {
+    const client = wrapAnthropic(fake as any);
+
+    await client.messages.countTokens({
+      model: 'claude-sonnet-4-5',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    await tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.name).toBe('anthropic.messages.countTokens');
+    expect(span.attributes.inputTokens).toBe(42);
+  });
+
+  it('should apply <zeroeval> metadata from the system parameter', async () => {
+    const client = wrapAnthropic(fake as any);
+
+    await client.messages.create({
+      model: 'claude-sonnet-4-5',
+      max_tokens: 100,
+      system: [
+        {
+          type: 'text',
+          text: '<zeroeval>{"task":"support","variables":{"name":"Ada"}}</zeroeval>You help {{name}}.',
+          cache_control: { type: 'ephemeral' },
+        },
+      ],
+      messages: [{ role: 'user', content: 'Hello from {{name}}' }],
+    });
+    await tracer.flush();
+
+    const [sent] = fake.messages.create.mock.calls[0] as any[];
+    expect(sent.system).toEqual([
+      {
+        type: 'text',
+        text: 'You help Ada.',
+        cache_control: { type: 'ephemeral' },
+      },
+    ]);
+    expect(sent.messages).toEqual([
+      { role: 'user', content: 'Hello from Ada' },
+    ]);
+    const [span] = mockWriter.spans;
+    expect(span.attributes.task).toBe('support');
+    expect(span.attributes.system_prompt_template).toContain(
+      'You help {{name}}.'
+    );
+  });
+
+  it('should drop a system parameter holding only <zeroeval> metadata', async () => {
+    const client = wrapAnthropic(fake as any);
+
+    await client.messages.create({
+      model: 'claude-sonnet-4-5',
+      max_tokens: 100,
+      system:
+        '<zeroeval>{"task":"support","variables":{"name":"Ada"}}</zeroeval>',
+      messages: [
+        { role: 'user', content: 'Hello from {{name}}' },
+        { role: 'assistant', content: 'Hi!' },
+      ],
+    });
+    await tracer.flush();
+
+    const [sent] = fake.messages.create.mock.calls[0] as any[];
+    expect(sent.system).toBeUndefined();
+    expect(sent.messages).toEqual([
+      { role: 'user', content: 'Hello from Ada' },
+      { role: 'assistant', content: 'Hi!' },
+    ]);
+    const [span] = mockWriter.spans;
+    expect(span.attributes.task).toBe('support');
+    expect(span.attributes.messages[0]).toEqual({
+      role: 'user',
+      content: 'Hello from Ada',
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { gunzipSync } from 'zlib';
+import { ZeroEval, getDefaultClient } from '../../src/client';
+import { tracer } from '../../src/observability/Tracer';
+import { getPromptClient } from '../../src/observability/promptClient';
+import { wrapOpenAI } from '../../src/observability/integrations/openaiWrapper';
+import { traceTool } from '../../src/observability/tools';
+import { createFakeOpenAI } from '../setup';
+
+// Requests made to one client's API, ignoring uploads from other test files
+function callsTo(fetchMock: ReturnType<typeof vi.fn>, apiUrl: string) {
+  return fetchMock.mock.calls.filter(([url]) =>
+    String(url).startsWith(apiUrl)
+  ) as [string, RequestInit][];
+}
+
+function authOf(init: RequestInit): string | undefined {
+  return (init.headers as Record<string, string>).Authorization;
+}
+
+// Spans in an upload, which is gzipped by default
+function spansOf(init: RequestInit): any[] {
+  return JSON.parse(gunzipSync(init.body as Uint8Array).toString());
+}
+
+describe('ZeroEval client', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let a: ZeroEval;
+  let b: ZeroEval;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(async (url: string) =>
+      String(url).includes('/prompt/latest')
+        ? Response.json({
+            content: 'You are helpful.',
+            version: 1,
+            version_id: 'v1',
+            content_hash: 'abc',
+            task_id: 'support',
+          })
+        : Response.json({ status: 'success' })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    a = new ZeroEval({
+      apiUrl: 'https://a.example',
+      apiKey: 'key-a',
+      workspaceName: 'Tenant A',
+      processHooks: false,
+    });
+    b = new ZeroEval({
+      apiUrl: 'https://b.example',
+      apiKey: 'key-b',
+      workspaceName: 'Tenant B',
+      processHooks: false,
+    });
+  });
+
+  afterEach(async () => {
+    await Promise.all([a.shutdown(), b.shutdown()]);
+    vi.unstubAllGlobals();
+  });
+
+  it('should send spans to each client’s own API with its own key', async () => {
+    a.withSpan({ name: 'for-a' }, () => 'done');
+    b.withSpan({ name: 'for-b' }, () => 'done');
+    await Promise.all([a.flush(), b.flush()]);
+
+    const [[urlA, initA]] = callsTo(fetchMock, 'https://a.example');
+    const [[urlB, initB]] = callsTo(fetchMock, 'https://b.example');
+    expect(urlA).toBe('https://a.example/spans');
+    expect(authOf(initA)).toBe('Bearer key-a');
+    expect(urlB).toBe('https://b.example/spans');
+    expect(authOf(initB)).toBe('Bearer key-b');
+  });
+
+  it('should only redact spans of the client configured to', async () => {
+    a.tracer.configure({ redaction: {} });
+
+    a.withSpan({ name: 'for-a', inputData: 'jane@example.com' }, () => 'ok');
+    b.withSpan({ name: 'for-b', inputData: 'jane@example.com' }, () => 'ok');
+    await Promise.all([a.flush(), b.flush()]);
+
+    const [[, initA]] = callsTo(fetchMock, 'https://a.example');
+    const [[, initB]] = callsTo(fetchMock, 'https://b.example');
+    expect(spansOf(initA)[0].input_data).toBe('[REDACTED:email]');
+    expect(spansOf(initB)[0].input_data).toBe('jane@example.com');
+  });
+
+  it('should keep span context separate between clients', () => {
+    const outer = a.startSpan('outer');
+    const inner = b.startSpan('inner');
+
+    expect(inner.parentId).toBeUndefined();
+    expect(inner.traceId).not.toBe(outer.traceId);
+    expect(a.getCurrentSpan()).toBe(outer);
+
+    b.endSpan(inner);
+    a.endSpan(outer);
+  });
+
+  it('should send trace signals to the client that owns the trace', async () => {
+    const root = a.startSpan('scored');
+    a.endSpan(root);
+    await a.flush();
+
+    a.withSpan({ name: 'late' }, () => {
+      a.sendTraceSignal('passed', true);
+    });
+    a.sendSignal('trace', root.traceId, 'rating', 5);
+    await Promise.all([a.flush(), b.flush()]);
+
+    const signalUrls = callsTo(fetchMock, 'https://a.example')
+      .map(([url]) => url)
+      .filter((url) => url.includes('/signals'));
+    expect(signalUrls).toContain('https://a.example/signals/');
+    expect(callsTo(fetchMock, 'https://b.example')).toHaveLength(0);
+  });
+
+  it('should not drop another client’s signals with a sampled-out trace', async () => {
+    const sampled = new ZeroEval({
+      apiUrl: 'https://c.example',
+      processHooks: false,
+      sampling: { ratio: 0 },
+    });
+
+    const root = sampled.startSpan('dropped');
+    b.tracer.recordPendingSignal({
+      entity_type: 'trace',
+      entity_id: root.traceId,
+      name: 'passed',
+      value: true,
+    });
+    sampled.endSpan(root);
+    await sampled.shutdown();
+
+    expect(b.tracer.pendingSignals.hasTraceSignals(root.traceId)).toBe(true);
+  });
+
+  it('should trace wrapped calls and tools with the client passed in', async () => {
+    const create = vi.fn(async () => ({
+      choices: [{ index: 0, message: { content: 'Sunny' } }],
+    }));
+    const openai = wrapOpenAI(createFakeOpenAI(create) as any, { client: a });
+    const lookup = traceTool('lookup', () => 'Paris', { client: a });
+
+    const root = await a.withSpan({ name: 'handle-request' }, async () => {
+      lookup();
+      await openai.chat.completions.create({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Weather?' }],
+      });
+      return a.getCurrentSpan()!;
+    });
+    await Promise.all([a.flush(), b.flush()]);
+
+    const [[, init]] = callsTo(fetchMock, 'https://a.example');
+    expect(authOf(init)).toBe('Bearer key-a');
+    const spans = spansOf(init);
+    const children = spans.filter((span) => span.id !== root.spanId);
+    expect(children.map((span) => span.name).sort()).toEqual([
+      'lookup',
+      'openai.chat.completions.create',
+    ]);
+    for (const span of children) {
+      expect(span.parent_span_id).toBe(root.spanId);
+      expect(span.trace_id).toBe(root.traceId);
+    }
+    expect(callsTo(fetchMock, 'https://b.example')).toHaveLength(0);
+  });
+
+  it('should fetch prompts with the client’s credentials', async () => {
+    const result = await b.prompt({ name: 'support', from: 'latest' });
+
+    const [[url, init]] = callsTo(fetchMock, 'https://b.example');
+    expect(url).toBe('https://b.example/v1/tasks/support/prompt/latest');
+    expect(authOf(init)).toBe('Bearer key-b');
+    expect(result).toContain('You are helpful.');
+    expect(callsTo(fetchMock, 'https://a.example')).toHaveLength(0);
+  });
+
+  it('should back the top-level functions with the default tracer', () => {
+    const client = getDefaultClient();
+
+    expect(client).toBe(getDefaultClient());
+    expect(client.tracer).toBe(tracer);
+    expect(client.promptClient).toBe(getPromptClient());
+  });
+
+  it('should fall back to ZEROEVAL_WORKSPACE_NAME for the workspace', async () => {
+    const unnamed = new ZeroEval({ processHooks: false });
+    vi.stubEnv('ZEROEVAL_WORKSPACE_NAME', 'From Env');
+    try {
+      expect(a.workspaceName).toBe('Tenant A');
+      expect(unnamed.workspaceName).toBe('From Env');
+    } finally {
+      vi.unstubAllEnvs();
+      await unnamed.shutdown();
+    }
+  });
+});
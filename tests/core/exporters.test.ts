@@ -0,0 +1,182 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  vi,
+} from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { OTLPSpanWriter } from '../../src/observability/otlpWriter';
+import {
+  BackendSpanWriter,
+  CompositeSpanWriter,
+} from '../../src/observability/writer';
+import { Span } from '../../src/observability/Span';
+import { createTestTracer, MockSpanWriter } from '../setup';
+
+describe('Span exporters', () => {
+  let server: http.Server;
+  let url: string;
+  let requests: Array<{ headers: http.IncomingHttpHeaders; body: any }>;
+
+  beforeAll(async () => {
+    // Local stand-in for an OTLP/HTTP collector
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body: JSON.parse(data) });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    url = `http://127.0.0.1:${port}/v1/traces`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  describe('OTLPSpanWriter', () => {
+    it('should export spans in OTLP JSON format', async () => {
+      const { tracer } = createTestTracer();
+      const writer = new OTLPSpanWriter({
+        url,
+        serviceName: 'my-service',
+        headers: { 'x-api-key': 'secret' },
+      });
+      tracer.configure({ exporters: [writer] });
+
+      const parent = tracer.startSpan('parent', {
+        attributes: { kind: 'llm', model: 'gpt-4o', tokens: 12, ratio: 0.5 },
+        tags: { env: 'test' },
+      });
+      const child = tracer.startSpan('child');
+      child.setError({ code: 'Boom', message: 'it broke', stack: 'stack' });
+      tracer.endSpan(child);
+      tracer.endSpan(parent);
+
+      await tracer.flush();
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].headers['x-api-key']).toBe('secret');
+
+      const resourceSpans = requests[0].body.resourceSpans[0];
+      expect(resourceSpans.resource.attributes).toContainEqual({
+        key: 'service.name',
+        value: { stringValue: 'my-service' },
+      });
+
+      const spans = resourceSpans.scopeSpans[0].spans;
+      expect(spans).toHaveLength(2);
+
+      const otlpParent = spans.find((s: any) => s.name === 'parent');
+      const otlpChild = spans.find((s: any) => s.name === 'child');
+
+      expect(otlpParent.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(otlpParent.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(otlpParent.parentSpanId).toBeUndefined();
+      expect(otlpChild.traceId).toBe(otlpParent.traceId);
+      expect(otlpChild.parentSpanId).toBe(otlpParent.spanId);
+
+      expect(otlpParent.status).toEqual({ code: 1 });
+      expect(otlpParent.attributes).toContainEqual({
+        key: 'tokens',
+        value: { intValue: '12' },
+      });
+      expect(otlpParent.attributes).toContainEqual({
+        key: 'ratio',
+        value: { doubleValue: 0.5 },
+      });
+      expect(otlpParent.attributes).toContainEqual({
+        key: 'zeroeval.tags.env',
+        value: { stringValue: 'test' },
+      });
+
+      expect(otlpChild.status).toEqual({ code: 2, message: 'it broke' });
+      expect(otlpChild.events[0].name).toBe('exception');
+      expect(otlpChild.events[0].attributes).toContainEqual({
+        key: 'exception.type',
+        value: { stringValue: 'Boom' },
+      });
+    });
+  });
+
+  describe('CompositeSpanWriter', () => {
+    it('should send the same spans to every exporter', async () => {
+      const { tracer } = createTestTracer();
+      const memory = new MockSpanWriter();
+      tracer.configure({
+        exporters: [memory, new OTLPSpanWriter({ url })],
+      });
+
+      const span = tracer.startSpan('fan-out');
+      tracer.endSpan(span);
+      await tracer.flush();
+
+      expect(memory.spans).toHaveLength(1);
+      expect(requests).toHaveLength(1);
+      expect(
+        requests[0].body.resourceSpans[0].scopeSpans[0].spans[0].name
+      ).toBe('fan-out');
+    });
+
+    it('should pass retry options to the backend exporter', () => {
+      const { tracer } = createTestTracer();
+      const backend = new BackendSpanWriter();
+      const configure = vi.spyOn(backend, 'configure');
+      tracer.configure({
+        exporters: [backend, new MockSpanWriter()],
+        maxRetries: 1,
+        maxQueuedSpans: 5,
+      });
+
+      expect(configure).toHaveBeenCalledWith({
+        maxRetries: 1,
+        maxQueuedSpans: 5,
+      });
+    });
+
+    it('should redeliver queued spans on a flush with no new spans', async () => {
+      const { tracer } = createTestTracer();
+      const queuing = {
+        queuedSpans: 2,
+        write: vi.fn(async () => {
+          queuing.queuedSpans = 0;
+        }),
+      };
+      const memory = new MockSpanWriter();
+      const memoryWrite = vi.spyOn(memory, 'write');
+      tracer.configure({ exporters: [queuing, memory] });
+
+      await tracer.flush();
+
+      expect(queuing.write).toHaveBeenCalledWith([]);
+      expect(queuing.queuedSpans).toBe(0);
+      expect(memoryWrite).not.toHaveBeenCalled();
+    });
+
+    it('should only fail when every exporter fails', async () => {
+      const failing = { write: () => Promise.reject(new Error('down')) };
+      const memory = new MockSpanWriter();
+
+      await expect(
+        new CompositeSpanWriter([failing, memory]).write([new Span('ok')])
+      ).resolves.toBeUndefined();
+      expect(memory.spans).toHaveLength(1);
+
+      await expect(
+        new CompositeSpanWriter([failing, failing]).write([new Span('ko')])
+      ).rejects.toThrow('down');
+    });
+  });
+});
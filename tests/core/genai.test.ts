@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIMessage } from '@langchain/core/messages';
+import { createTestTracer, MockSpanWriter } from '../setup';
+import { tracer } from '../../src/observability/Tracer';
+import {
+  genAIRequestAttributes,
+  genAIRequestParams,
+} from '../../src/observability/genai';
+import { wrapVercelAI } from '../../src/observability/integrations/vercelAIWrapper';
+import { ZeroEvalCallbackHandler } from '../../src/observability/integrations/langchain/ZeroEvalCallbackHandler';
+
+describe('GenAI attributes', () => {
+  let mockWriter: MockSpanWriter;
+
+  beforeEach(() => {
+    ({ mockWriter } = createTestTracer(tracer));
+  });
+
+  it('should read request params in either naming', () => {
+    expect(
+      genAIRequestAttributes({
+        system: 'google',
+        model: 'gemini-2.5-flash',
+        params: {
+          temperature: 0.2,
+          topP: 0.9,
+          maxOutputTokens: 256,
+          stop: '\n',
+        },
+      })
+    ).toEqual({
+      'gen_ai.system': 'google',
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.request.model': 'gemini-2.5-flash',
+      'gen_ai.request.temperature': 0.2,
+      'gen_ai.request.top_p': 0.9,
+      'gen_ai.request.max_tokens': 256,
+      'gen_ai.request.stop_sequences': ['\n'],
+    });
+  });
+
+  it('should drop secrets, callbacks and binary data from request params', () => {
+    class Schema {}
+
+    expect(
+      genAIRequestParams(
+        {
+          prompt: 'Describe this image',
+          temperature: 0.5,
+          headers: { Authorization: 'Bearer sk-secret' },
+          apiKey: 'sk-secret',
+          abortSignal: new AbortController().signal,
+          onFinish: () => undefined,
+          image: new Uint8Array([1, 2, 3]),
+          file: 'data:image/png;base64,iVBORw0KGgo=',
+          schema: new Schema(),
+          providerOptions: { openai: { user: 'u_1', reasoningEffort: 'low' } },
+        },
+        ['prompt']
+      )
+    ).toEqual({
+      temperature: 0.5,
+      providerOptions: { openai: { user: 'u_1', reasoningEffort: 'low' } },
+    });
+  });
+
+  it('should normalise Vercel AI SDK usage and provider', async () => {
+    const ai = wrapVercelAI({
+      generateText: vi.fn(async () => ({
+        text: 'Hello!',
+        finishReason: 'stop',
+        usage: { inputTokens: 10, outputTokens: 3, cachedInputTokens: 4 },
+        response: { id: 'resp_1', modelId: 'gpt-4o-2024-08-06' },
+      })),
+    });
+
+    await ai.generateText({
+      model: { provider: 'openai.chat', modelId: 'gpt-4o' },
+      prompt: 'Hi',
+      temperature: 0,
+      maxOutputTokens: 50,
+    });
+    await tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.attributes).toMatchObject({
+      model: 'gpt-4o',
+      request: { temperature: 0, maxOutputTokens: 50 },
+      inputTokens: 10,
+      outputTokens: 3,
+      cachedInputTokens: 4,
+      finishReason: 'stop',
+      'gen_ai.system': 'openai',
+      'gen_ai.request.temperature': 0,
+      'gen_ai.request.max_tokens': 50,
+      'gen_ai.response.id': 'resp_1',
+      'gen_ai.response.model': 'gpt-4o-2024-08-06',
+      'gen_ai.usage.input_tokens': 10,
+      'gen_ai.usage.cache_read.input_tokens': 4,
+    });
+  });
+
+  it('should normalise LangChain usage and finish reasons', async () => {
+    const handler = new ZeroEvalCallbackHandler();
+
+    await handler.handleChatModelStart(
+      { lc: 1, type: 'not_implemented', id: ['ChatAnthropic'] },
+      [[]],
+      'run-1',
+      undefined,
+      {
+        invocation_params: { model: 'claude-haiku-4-5', max_tokens: 64 },
+      } as any,
+      undefined,
+      // user metadata, not a call option
+      { ls_provider: 'anthropic', seed: 'cohort-7' }
+    );
+    await handler.handleLLMEnd(
+      {
+        generations: [
+          [
+            {
+              text: 'Hi there',
+              generationInfo: { stop_reason: 'end_turn' },
+              message: new AIMessage({
+                content: 'Hi there',
+                usage_metadata: {
+                  input_tokens: 20,
+                  output_tokens: 5,
+                  total_tokens: 25,
+                  input_token_details: { cache_read: 8 },
+                },
+              }),
+            },
+          ],
+        ],
+      },
+      'run-1'
+    );
+    await tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.attributes).toMatchObject({
+      provider: 'anthropic',
+      inputTokens: 20,
+      outputTokens: 5,
+      cachedInputTokens: 8,
+      finishReason: 'end_turn',
+      'gen_ai.system': 'anthropic',
+      'gen_ai.request.model': 'claude-haiku-4-5',
+      'gen_ai.request.max_tokens': 64,
+    });
+    expect(span.attributes['gen_ai.request.seed']).toBeUndefined();
+    handler.destroy();
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createFakeOpenAI, createTestTracer, MockSpanWriter } from '../setup';
+import { tracer } from '../../src/observability/Tracer';
+import {
+  processMessagesWithMetadata,
+  summarizeBinaryContent,
+} from '../../src/observability/integrations/utils';
+import { wrapOpenAI } from '../../src/observability/integrations/openaiWrapper';
+import { wrapVercelAI } from '../../src/observability/integrations/vercelAIWrapper';
+import { decoratePrompt } from '../../src/utils/metadata';
+
+const system = decoratePrompt('You are a {{role}}.', {
+  task: 'vision',
+  variables: { role: 'photo critic', subject: 'the sky' },
+});
+const png = `data:image/png;base64,${'iVBORw0KGgo'.repeat(40)}`;
+
+describe('Multimodal content', () => {
+  let mockWriter: MockSpanWriter;
+
+  beforeEach(() => {
+    ({ mockWriter } = createTestTracer(tracer));
+  });
+
+  it('should read metadata and render variables in text parts', () => {
+    const { processedMessages, metadata } = processMessagesWithMetadata([
+      { role: 'system', content: [{ type: 'text', text: system }] },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Rate {{subject}}' },
+          { type: 'image_url', image_url: { url: png } },
+        ],
+      },
+    ]);
+
+    expect(metadata?.task).toBe('vision');
+    expect(processedMessages).toEqual([
+      {
+        role: 'system',
+        content: [{ type: 'text', text: 'You are a photo critic.' }],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Rate the sky' },
+          { type: 'image_url', image_url: { url: png } },
+        ],
+      },
+    ]);
+  });
+
+  it('should replace inline files with placeholders', () => {
+    const audio = 'UklGRiQAAABXQVZFZm10'.repeat(10);
+
+    expect(
+      summarizeBinaryContent([
+        { type: 'image_url', image_url: { url: png } },
+        { type: 'image_url', image_url: { url: 'https://example.com/a.png' } },
+        { type: 'input_audio', input_audio: { data: audio, format: 'wav' } },
+        {
+          type: 'image',
+          source: { type: 'base64', media_type: 'image/jpeg', data: audio },
+        },
+        {
+          type: 'file',
+          data: new Uint8Array(2048),
+          mediaType: 'application/pdf',
+        },
+      ])
+    ).toEqual([
+      { type: 'image_url', image_url: { url: '[image/png, 330 bytes]' } },
+      { type: 'image_url', image_url: { url: 'https://example.com/a.png' } },
+      {
+        type: 'input_audio',
+        input_audio: { data: '[audio/wav, 150 bytes]', format: 'wav' },
+      },
+      {
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: 'image/jpeg',
+          data: '[image/jpeg, 150 bytes]',
+        },
+      },
+      {
+        type: 'file',
+        data: '[application/pdf, 2048 bytes]',
+        mediaType: 'application/pdf',
+      },
+    ]);
+  });
+
+  it('should trace OpenAI image messages without the image data', async () => {
+    const create = vi.fn(async () => ({
+      choices: [{ index: 0, message: { content: 'Nice.' } }],
+    }));
+    const client = wrapOpenAI(createFakeOpenAI(create) as any);
+
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Rate this' },
+            { type: 'image_url', image_url: { url: png } },
+          ],
+        },
+      ],
+    });
+    await tracer.flush();
+
+    const sent = (create.mock.calls[0] as any[])[0];
+    expect(sent.messages[0].content[1].image_url.url).toBe(png);
+    const [span] = mockWriter.spans;
+    expect(span.input_data).toContain('[image/png, 330 bytes]');
+    expect(span.input_data).not.toContain('base64');
+  });
+
+  it('should pass Vercel AI SDK byte arrays through untouched', async () => {
+    const image = new Uint8Array([137, 80, 78, 71]);
+    const generateText = vi.fn(async () => ({ text: 'A cat.' }));
+    const ai = wrapVercelAI({ generateText });
+
+    await ai.generateText({
+      model: { provider: 'openai.chat', modelId: 'gpt-4o' },
+      messages: [
+        { role: 'system', content: system },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe {{subject}}' },
+            { type: 'image', image, mediaType: 'image/png' },
+          ],
+        },
+      ],
+    });
+    await tracer.flush();
+
+    const sent = (generateText.mock.calls[0] as any[])[0];
+    expect(sent.messages[1].content[0].text).toBe('Describe the sky');
+    expect(sent.messages[1].content[1].image).toBe(image);
+    const [span] = mockWriter.spans;
+    expect(span.input_data).toContain('[image/png, 4 bytes]');
+  });
+});
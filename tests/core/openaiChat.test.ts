@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createFakeOpenAI, createTestTracer, MockSpanWriter } from '../setup';
+import { tracer } from '../../src/observability/Tracer';
+import { wrapOpenAI } from '../../src/observability/integrations/openaiWrapper';
+
+const toolCallCompletion = {
+  id: 'chatcmpl_1',
+  object: 'chat.completion',
+  choices: [
+    {
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: null,
+        refusal: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+          },
+        ],
+      },
+      finish_reason: 'tool_calls',
+    },
+  ],
+  usage: { prompt_tokens: 20, completion_tokens: 10 },
+};
+
+// Two choices; the second one streams two tool calls in fragments
+const chunks = [
+  { choices: [{ index: 0, delta: { role: 'assistant', content: 'Let' } }] },
+  {
+    choices: [
+      {
+        index: 1,
+        delta: {
+          tool_calls: [
+            {
+              index: 0,
+              id: 'call_a',
+              type: 'function',
+              function: { name: 'lookup', arguments: '' },
+            },
+          ],
+        },
+      },
+    ],
+  },
+  { choices: [{ index: 0, delta: { content: ' me check.' } }] },
+  {
+    choices: [
+      {
+        index: 1,
+        delta: {
+          tool_calls: [{ index: 0, function: { arguments: '{"q":' } }],
+        },
+      },
+    ],
+  },
+  {
+    choices: [
+      {
+        index: 1,
+        delta: {
+          tool_calls: [
+            { index: 0, function: { arguments: '"x"}' } },
+            {
+              index: 1,
+              id: 'call_b',
+              type: 'function',
+              function: { name: 'search', arguments: '{}' },
+            },
+          ],
+        },
+      },
+    ],
+  },
+  { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+  { choices: [{ index: 1, delta: {}, finish_reason: 'tool_calls' }] },
+  { choices: [], usage: { prompt_tokens: 20, completion_tokens: 15 } },
+];
+
+async function* chunkStream() {
+  for (const chunk of chunks) yield chunk;
+}
+
+// chat.completions.create answering with `result`, or the chunks when streaming
+function completesWith(result: unknown) {
+  return vi.fn(async (params: any) => (params.stream ? chunkStream() : result));
+}
+
+describe('OpenAI chat completions', () => {
+  let mockWriter: MockSpanWriter;
+
+  beforeEach(() => {
+    ({ mockWriter } = createTestTracer(tracer));
+  });
+
+  it('should record tool calls and finish reason', async () => {
+    const client = wrapOpenAI(
+      createFakeOpenAI(completesWith(toolCallCompletion)) as any
+    );
+
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+    });
+    await tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.attributes.finishReason).toBe('tool_calls');
+    expect(span.attributes.toolCalls).toEqual([
+      {
+        id: 'call_1',
+        type: 'function',
+        name: 'get_weather',
+        arguments: '{"city":"Paris"}',
+      },
+    ]);
+    expect(span.output_data).toContain('get_weather');
+  });
+
+  it('should record request params without content', async () => {
+    const client = wrapOpenAI(
+      createFakeOpenAI(completesWith(toolCallCompletion)) as any
+    );
+
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+      temperature: 0.3,
+      max_tokens: 200,
+      seed: 7,
+      response_format: { type: 'json_object' },
+    });
+    await tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.attributes.request).toEqual({
+      temperature: 0.3,
+      max_tokens: 200,
+      seed: 7,
+      response_format: { type: 'json_object' },
+    });
+    expect(span.attributes['gen_ai.request.seed']).toBe(7);
+  });
+
+  it('should record refusals', async () => {
+    const client = wrapOpenAI(
+      createFakeOpenAI(
+        completesWith({
+          choices: [
+            {
+              index: 0,
+              message: { content: null, refusal: 'I can’t help with that.' },
+              finish_reason: 'stop',
+            },
+          ],
+        })
+      ) as any
+    );
+
+    await client.chat.completions.create({ model: 'gpt-4o', messages: [] });
+    await tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.attributes.refusal).toBe('I can’t help with that.');
+    expect(span.output_data).toBe('I can’t help with that.');
+  });
+
+  it('should reassemble streamed tool calls for every choice', async () => {
+    const client = wrapOpenAI(createFakeOpenAI(completesWith(null)) as any);
+
+    const stream = await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true,
+      n: 2,
+    });
+    for await (const _chunk of stream) {
+      // drain
+    }
+    await tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.output_data).toBe('Let me check.');
+    expect(span.attributes.finishReason).toBe('stop');
+    expect(span.attributes.outputTokens).toBe(15);
+    expect(span.attributes.choices).toEqual([
+      {
+        index: 0,
+        content: 'Let me check.',
+        toolCalls: [],
+        finishReason: 'stop',
+      },
+      {
+        index: 1,
+        content: '',
+        toolCalls: [
+          {
+            id: 'call_a',
+            type: 'function',
+            name: 'lookup',
+            arguments: '{"q":"x"}',
+          },
+          {
+            id: 'call_b',
+            type: 'function',
+            name: 'search',
+            arguments: '{}',
+          },
+        ],
+        finishReason: 'tool_calls',
+      },
+    ]);
+  });
+
+  it('should end the span with the error when a stream fails', async () => {
+    async function* failingStream() {
+      yield chunks[0];
+      throw new Error('connection reset');
+    }
+    const client = wrapOpenAI(
+      createFakeOpenAI(vi.fn(async () => failingStream())) as any
+    );
+
+    const stream = await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true,
+    });
+    await expect(async () => {
+      for await (const _chunk of stream) {
+        // drain
+      }
+    }).rejects.toThrow('connection reset');
+    await tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.status).toBe('error');
+    expect(span.error_message).toBe('connection reset');
+  });
+});
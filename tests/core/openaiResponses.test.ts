@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createFakeOpenAI, createTestTracer, MockSpanWriter } from '../setup';
+import { tracer } from '../../src/observability/Tracer';
+import { wrapOpenAI } from '../../src/observability/integrations/openaiWrapper';
+
+const response = {
+  id: 'resp_1',
+  object: 'response',
+  status: 'completed',
+  model: 'gpt-5',
+  output: [
+    { type: 'reasoning', id: 'rs_1', summary: [] },
+    {
+      type: 'function_call',
+      id: 'fc_1',
+      call_id: 'call_1',
+      name: 'get_weather',
+      arguments: '{"city":"Paris"}',
+    },
+    { type: 'web_search_call', id: 'ws_1', status: 'completed' },
+    {
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'output_text', text: 'Sunny in Paris.' }],
+    },
+  ],
+  output_text: 'Sunny in Paris.',
+  usage: {
+    input_tokens: 50,
+    output_tokens: 80,
+    output_tokens_details: { reasoning_tokens: 64 },
+  },
+};
+
+const events = [
+  { type: 'response.created', response: { ...response, output: [] } },
+  { type: 'response.output_text.delta', delta: 'Sunny' },
+  { type: 'response.output_text.delta', delta: ' in Paris.' },
+  { type: 'response.completed', response },
+];
+
+async function* eventStream() {
+  for (const event of events) yield event;
+}
+
+describe('OpenAI Responses API', () => {
+  let mockWriter: MockSpanWriter;
+  let fake: ReturnType<typeof createFakeOpenAI>;
+
+  beforeEach(() => {
+    ({ mockWriter } = createTestTracer(tracer));
+    fake = createFakeOpenAI();
+    fake.responses.create.mockImplementation(async (params: any) =>
+      params.stream ? eventStream() : response
+    );
+    fake.responses.stream.mockImplementation(() => ({
+      on: vi.fn(),
+      finalResponse: () => Promise.resolve(response),
+    }));
+  });
+
+  it('should trace responses.create as an llm span', async () => {
+    const client = wrapOpenAI(fake as any);
+
+    const result = await client.responses.create({
+      model: 'gpt-5',
+      input: 'Weather in Paris?',
+    });
+    await tracer.flush();
+
+    expect(result).toBe(response);
+    const [span] = mockWriter.spans;
+    expect(span.name).toBe('openai.responses.create');
+    expect(span.attributes).toMatchObject({
+      kind: 'llm',
+      provider: 'openai',
+      inputTokens: 50,
+      outputTokens: 80,
+      reasoningTokens: 64,
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+      toolCalls: [
+        {
+          type: 'function_call',
+          id: 'call_1',
+          name: 'get_weather',
+          arguments: '{"city":"Paris"}',
+        },
+        { type: 'web_search_call', id: 'ws_1' },
+      ],
+    });
+    expect(span.output_data).toBe('Sunny in Paris.');
+  });
+
+  it('should trace streamed events', async () => {
+    const client = wrapOpenAI(fake as any);
+
+    const stream = await client.responses.create({
+      model: 'gpt-5',
+      input: [{ role: 'user', content: 'Weather in Paris?' }],
+      stream: true,
+    });
+    const received = [];
+    for await (const event of stream) received.push(event);
+    await tracer.flush();
+
+    expect(received).toEqual(events);
+    const [span] = mockWriter.spans;
+    expect(span.attributes).toMatchObject({
+      streaming: true,
+      outputTokens: 80,
+      reasoningTokens: 64,
+    });
+    expect(span.attributes.latency).toBeGreaterThanOrEqual(0);
+    expect(span.output_data).toBe('Sunny in Paris.');
+  });
+
+  it('should end responses.stream spans with the final response', async () => {
+    const client = wrapOpenAI(fake as any);
+
+    const stream = client.responses.stream({ model: 'gpt-5', input: 'Hi' });
+    await stream.finalResponse();
+    await tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.name).toBe('openai.responses.stream');
+    expect(span.attributes.streaming).toBe(true);
+    expect(span.attributes.inputTokens).toBe(50);
+  });
+
+  it('should apply <zeroeval> metadata from instructions', async () => {
+    const client = wrapOpenAI(fake as any);
+
+    await client.responses.create({
+      model: 'gpt-5',
+      instructions:
+        '<zeroeval>{"task":"weather","variables":{"city":"Paris"}}</zeroeval>You forecast {{city}}.',
+      input: 'Weather in {{city}}?',
+    });
+    await tracer.flush();
+
+    const [sent] = fake.responses.create.mock.calls[0] as any[];
+    expect(sent.instructions).toBe('You forecast Paris.');
+    expect(sent.input).toBe('Weather in Paris?');
+    const [span] = mockWriter.spans;
+    expect(span.attributes.task).toBe('weather');
+  });
+});
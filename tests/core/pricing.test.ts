@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  clearModelPrices,
+  estimateCost,
+  registerModelPrice,
+} from '../../src/observability/pricing';
+import { createTestTracer } from '../setup';
+
+describe('Cost estimation', () => {
+  afterEach(() => {
+    clearModelPrices();
+  });
+
+  it('should price dated model versions at cached-input rates', () => {
+    const cost = estimateCost({
+      provider: 'openai',
+      model: 'gpt-4o-2024-08-06',
+      inputTokens: 1_000_000,
+      cachedInputTokens: 400_000,
+      outputTokens: 100_000,
+    });
+
+    // 600k × $2.50 + 400k × $1.25 + 100k × $10 per million
+    expect(cost).toBe(3);
+  });
+
+  it('should price Anthropic cache reads and writes apart', () => {
+    const cost = estimateCost({
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-5-20250929',
+      inputTokens: 1_300_000,
+      cachedInputTokens: 1_000_000,
+      cacheCreationInputTokens: 200_000,
+      outputTokens: 10_000,
+    });
+
+    // 100k × $3 + 1M × $0.30 + 200k × $3.75 + 10k × $15 per million
+    expect(cost).toBe(1.5);
+  });
+
+  it('should match models of providers without built-in prices', () => {
+    expect(
+      estimateCost({
+        provider: 'vercel-ai-sdk',
+        model: 'gpt-4o-mini',
+        inputTokens: 1_000_000,
+      })
+    ).toBe(0.15);
+    expect(
+      estimateCost({
+        provider: 'openai',
+        model: 'unknown-model',
+        inputTokens: 1,
+      })
+    ).toBeUndefined();
+  });
+
+  it('should use registered prices, including reasoning rates', () => {
+    registerModelPrice('openai/ft:gpt-4o-mini:acme', {
+      input: 0.3,
+      output: 1.2,
+      reasoning: 2,
+    });
+    registerModelPrice('llama-3-70b', { input: 0.5, output: 0.5 });
+
+    expect(
+      estimateCost({
+        provider: 'openai',
+        model: 'ft:gpt-4o-mini:acme::abc123',
+        outputTokens: 1_000_000,
+        reasoningTokens: 500_000,
+      })
+    ).toBe(1.6);
+    expect(
+      estimateCost({
+        provider: 'self-hosted',
+        model: 'llama-3-70b',
+        inputTokens: 2_000_000,
+      })
+    ).toBe(1);
+  });
+
+  it('should set cost_usd on LLM spans and roll it up on the root', async () => {
+    const { tracer, mockWriter } = createTestTracer();
+
+    const root = tracer.startSpan('agent');
+    for (const model of ['gpt-4o', 'gpt-4o-mini']) {
+      const llm = tracer.startSpan('llm', {
+        attributes: {
+          kind: 'llm',
+          provider: 'openai',
+          model,
+          inputTokens: 1_000_000,
+        },
+      });
+      tracer.endSpan(llm);
+    }
+    tracer.endSpan(root);
+    await tracer.flush();
+
+    const byName = (name: string) =>
+      mockWriter.spans.filter((s) => s.name === name);
+    expect(byName('llm').map((s) => s.attributes.cost_usd)).toEqual([
+      2.5, 0.15,
+    ]);
+    expect(byName('agent')[0].attributes.cost_usd).toBe(2.65);
+  });
+});
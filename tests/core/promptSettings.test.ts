@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createFakeAnthropic,
+  createFakeOpenAI,
+  createTestTracer,
+  MockSpanWriter,
+} from '../setup';
+import { tracer } from '../../src/observability/Tracer';
+import {
+  PromptClient,
+  getPromptClient,
+} from '../../src/observability/promptClient';
+import { wrapOpenAI } from '../../src/observability/integrations/openaiWrapper';
+import { wrapVercelAI } from '../../src/observability/integrations/vercelAIWrapper';
+import { wrapAnthropic } from '../../src/observability/integrations/anthropicWrapper';
+import { decoratePrompt } from '../../src/utils/metadata';
+import { ZeroEval } from '../../src/client';
+
+const system = decoratePrompt('You are helpful.', {
+  task: 'support',
+  prompt_version_id: 'v1',
+});
+
+const completion = {
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content: 'Hi' },
+      finish_reason: 'stop',
+    },
+  ],
+};
+
+describe('Prompt version settings', () => {
+  let mockWriter: MockSpanWriter;
+
+  beforeEach(() => {
+    ({ mockWriter } = createTestTracer(tracer));
+    vi.spyOn(getPromptClient(), 'getPromptVersionSettings').mockResolvedValue({
+      model: 'zeroeval/gpt-4.1',
+      parameters: { temperature: 0.2, max_tokens: 500, top_p: 0.9 },
+    });
+  });
+
+  afterEach(() => {
+    getPromptClient().setApplyPromptSettings(true);
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should cache the settings of fetched prompt versions', async () => {
+    const fetchMock = vi.fn(async () =>
+      Response.json({
+        content: 'You are helpful.',
+        version: 3,
+        version_id: 'v3',
+        model_id: 'gpt-4.1-mini',
+        temperature: 0.4,
+        parameters: { top_p: 0.8 },
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const client = new PromptClient({ apiUrl: 'https://api.example' });
+
+    await client.getTaskPromptLatest('support');
+    const settings = await client.getPromptVersionSettings('v3');
+
+    expect(settings).toEqual({
+      model: 'zeroeval/gpt-4.1-mini',
+      parameters: { top_p: 0.8, temperature: 0.4 },
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply bound parameters to OpenAI calls over their own', async () => {
+    const create = vi.fn(async () => completion);
+    const client = wrapOpenAI(createFakeOpenAI(create) as any);
+
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'system', content: system }],
+      temperature: 0.9,
+      max_completion_tokens: 100,
+    });
+    await tracer.flush();
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'gpt-4.1',
+        temperature: 0.2,
+        top_p: 0.9,
+        max_completion_tokens: 500,
+      })
+    );
+    const [span] = mockWriter.spans;
+    expect(span.attributes.overriddenParams).toEqual({
+      model: { requested: 'gpt-4o', applied: 'gpt-4.1' },
+      temperature: { requested: 0.9, applied: 0.2 },
+      max_completion_tokens: { requested: 100, applied: 500 },
+      top_p: { requested: null, applied: 0.9 },
+    });
+  });
+
+  it('should only apply the output limit to reasoning models', async () => {
+    vi.mocked(getPromptClient().getPromptVersionSettings).mockResolvedValue({
+      model: 'zeroeval/o4-mini',
+      parameters: { temperature: 0.2, max_tokens: 500, top_p: 0.9 },
+    });
+    const create = vi.fn(async () => completion);
+    const client = wrapOpenAI(createFakeOpenAI(create) as any);
+
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'system', content: system }],
+    });
+    await tracer.flush();
+
+    const [sent] = create.mock.calls[0] as any[];
+    expect(sent).toMatchObject({
+      model: 'o4-mini',
+      max_completion_tokens: 500,
+    });
+    expect(sent).not.toHaveProperty('max_tokens');
+    expect(sent).not.toHaveProperty('temperature');
+    expect(sent).not.toHaveProperty('top_p');
+    const [span] = mockWriter.spans;
+    expect(span.attributes.overriddenParams).toEqual({
+      model: { requested: 'gpt-4o', applied: 'o4-mini' },
+      max_completion_tokens: { requested: null, applied: 500 },
+    });
+  });
+
+  it('should apply bound parameters to Vercel AI SDK calls', async () => {
+    const generateText = vi.fn(async () => ({ text: 'Hi' }));
+    const ai = wrapVercelAI({ generateText });
+
+    await ai.generateText({
+      model: { provider: 'openai.chat', modelId: 'gpt-4o' },
+      messages: [{ role: 'system', content: system }],
+      temperature: 1,
+    });
+    await tracer.flush();
+
+    expect(generateText).toHaveBeenCalledWith(
+      expect.objectContaining({
+        temperature: 0.2,
+        topP: 0.9,
+        maxOutputTokens: 500,
+      })
+    );
+    const [span] = mockWriter.spans;
+    expect(span.attributes.overriddenParams).toMatchObject({
+      temperature: { requested: 1, applied: 0.2 },
+    });
+  });
+
+  it('should apply bound parameters to Anthropic calls', async () => {
+    const create = vi.fn(async () => ({
+      content: [{ type: 'text', text: 'Hi' }],
+      stop_reason: 'end_turn',
+    }));
+    const client = wrapAnthropic(createFakeAnthropic(create) as any);
+
+    await client.messages.create({
+      model: 'claude-sonnet-4-5',
+      max_tokens: 100,
+      system,
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+    await tracer.flush();
+
+    // the bound model is for another provider, so the call keeps its own
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'claude-sonnet-4-5',
+        temperature: 0.2,
+        top_p: 0.9,
+        max_tokens: 500,
+      })
+    );
+    const [span] = mockWriter.spans;
+    expect(span.attributes.overriddenParams).toEqual({
+      temperature: { requested: null, applied: 0.2 },
+      max_tokens: { requested: 100, applied: 500 },
+      top_p: { requested: null, applied: 0.9 },
+    });
+  });
+
+  it('should leave calls untouched when applyPromptSettings is off', async () => {
+    getPromptClient().setApplyPromptSettings(false);
+    const create = vi.fn(async () => completion);
+    const client = wrapOpenAI(createFakeOpenAI(create) as any);
+
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'system', content: system }],
+      temperature: 0.9,
+    });
+    await tracer.flush();
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'gpt-4o', temperature: 0.9 })
+    );
+    expect(mockWriter.spans[0].attributes.overriddenParams).toBeUndefined();
+  });
+
+  it('should only leave calls of the client with applyPromptSettings off', async () => {
+    const client = new ZeroEval({
+      apiUrl: 'https://other.example',
+      processHooks: false,
+      applyPromptSettings: false,
+    });
+    createTestTracer(client.tracer);
+    const create = vi.fn(async () => completion);
+    const untouched = wrapOpenAI(createFakeOpenAI(create) as any, { client });
+    const applied = wrapOpenAI(createFakeOpenAI(create) as any);
+
+    for (const wrapped of [untouched, applied]) {
+      await wrapped.chat.completions.create({
+        model: 'gpt-4o',
+        messages: [{ role: 'system', content: system }],
+        temperature: 0.9,
+      });
+    }
+    await client.shutdown();
+
+    expect(create).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ model: 'gpt-4o', temperature: 0.9 })
+    );
+    expect(create).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ model: 'gpt-4.1', temperature: 0.2 })
+    );
+  });
+});
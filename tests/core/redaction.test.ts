@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Redactor } from '../../src/observability/redaction';
+import { tracer as defaultTracer } from '../../src/observability/Tracer';
+import { SignalClient } from '../../src/signals';
+import { sendFeedback } from '../../src/feedback';
+import * as crypto from 'crypto';
+import { createTestTracer } from '../setup';
+import { provideBuiltin } from '../../src/utils/runtime';
+
+// Hide node:crypto, as on edge runtimes; returns a function to restore it
+function withoutNodeCrypto(): () => void {
+  const proc = process as any;
+  const getBuiltinModule = proc.getBuiltinModule?.bind(process);
+  const spy = vi
+    .spyOn(proc, 'getBuiltinModule')
+    .mockImplementation((id: any) =>
+      id === 'node:crypto' ? undefined : getBuiltinModule?.(id)
+    );
+  provideBuiltin('crypto', undefined);
+  return () => {
+    spy.mockRestore();
+    provideBuiltin('crypto', crypto);
+  };
+}
+
+// Find our request among uploads other test files may still be retrying
+function requestBody(fetchMock: ReturnType<typeof vi.fn>, path: string) {
+  const call = fetchMock.mock.calls.find(([url]) => String(url).endsWith(path));
+  return JSON.parse((call as any)[1].body);
+}
+
+describe('Redaction', () => {
+  describe('Redactor', () => {
+    const redactor = new Redactor();
+
+    it('should mask built-in detectors', () => {
+      expect(
+        redactor.redactString(
+          'Mail jane.doe@example.com or call +1 415-555-0134, card 4111 1111 1111 1111, key sk-abcdefghijklmnop1234'
+        )
+      ).toBe(
+        'Mail [REDACTED:email] or call [REDACTED:phone], card [REDACTED:creditCard], key [REDACTED:apiKey]'
+      );
+    });
+
+    it('should leave numbers that are not valid card numbers alone', () => {
+      expect(redactor.redactString('order 1234567890123')).toBe(
+        'order 1234567890123'
+      );
+    });
+
+    it('should mask phone numbers written with a country code, parentheses or separators', () => {
+      for (const phone of [
+        '+14155550134',
+        '+44 20 7946 0958',
+        '(415) 555-0134',
+        '415.555.0134',
+        '415-555-0134',
+      ]) {
+        expect(redactor.redactString(`call ${phone} now`)).toBe(
+          'call [REDACTED:phone] now'
+        );
+      }
+    });
+
+    it('should leave timestamps, ids and dotted numbers alone', () => {
+      for (const value of [
+        'at 1717171717171',
+        'order 48213377',
+        'invoice INV-2024-000123',
+        'run 12345678-1234-5678-1234-567812345678',
+        'host 192.168.100.200',
+        'on 2024-05-01 12:30:45',
+      ]) {
+        expect(redactor.redactString(value)).toBe(value);
+      }
+    });
+
+    it('should apply custom patterns and callbacks', () => {
+      const custom = new Redactor({
+        detectors: [],
+        patterns: [/ACME-\d+/],
+        redact: (value) => value.replace('secret', '***'),
+      });
+
+      expect(custom.redactString('ACME-1 and ACME-2 are secret')).toBe(
+        '[REDACTED:custom] and [REDACTED:custom] are ***'
+      );
+    });
+
+    it('should replace deny-listed key paths', () => {
+      const custom = new Redactor({
+        detectors: [],
+        denyKeys: ['password', 'messages.*.content'],
+      });
+
+      expect(
+        custom.redactValue({
+          user: { name: 'jane', password: 'hunter2' },
+          messages: [{ role: 'user', content: 'hi' }],
+        })
+      ).toEqual({
+        user: { name: 'jane', password: '[REDACTED:key]' },
+        messages: [{ role: 'user', content: '[REDACTED:key]' }],
+      });
+    });
+
+    it('should hash values so they stay correlatable', async () => {
+      const hashing = new Redactor({ mode: 'hash', hashSalt: 'salt' });
+
+      const first = await hashing.redactString('jane@example.com');
+      expect(first).toMatch(/^\[HASH:[0-9a-f]{16}\]$/);
+      expect(await hashing.redactString('jane@example.com')).toBe(first);
+      expect(await hashing.redactString('john@example.com')).not.toBe(first);
+    });
+
+    it('should hash with Web Crypto without node:crypto', async () => {
+      const hashing = new Redactor({ mode: 'hash', hashSalt: 'salt' });
+      const sync = hashing.redactString('mail jane@example.com');
+      const restore = withoutNodeCrypto();
+
+      const async = hashing.redactString('mail jane@example.com');
+      restore();
+
+      expect(async).toBeInstanceOf(Promise);
+      expect(await async).toBe(sync);
+    });
+
+    it('should call redact once per value when hashing with Web Crypto', async () => {
+      const redact = vi.fn((value: string) => value);
+      const hashing = new Redactor({ mode: 'hash', redact });
+      const restore = withoutNodeCrypto();
+
+      const redacted = hashing.redactString('mail jane@example.com', 'note');
+      restore();
+
+      expect(await redacted).toMatch(/^mail \[HASH:[0-9a-f]{16}\]$/);
+      expect(redact).toHaveBeenCalledTimes(1);
+      expect(redact).toHaveBeenCalledWith(await redacted, 'note');
+    });
+  });
+
+  describe('pipeline', () => {
+    let tracer: any;
+    let mockWriter: any;
+
+    beforeEach(() => {
+      ({ tracer, mockWriter } = createTestTracer());
+      tracer.configure({ redaction: { denyKeys: ['apiToken'] } });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should redact spans before they reach the writer', () => {
+      const span = tracer.startSpan('llm', {
+        attributes: { apiToken: 'abc', note: 'from jane@example.com' },
+      });
+      span.setIO('my email is jane@example.com', 'ok');
+      tracer.endSpan(span);
+      tracer.flush();
+
+      const [written] = mockWriter.spans;
+      expect(written.input_data).toBe('my email is [REDACTED:email]');
+      expect(written.attributes).toMatchObject({
+        apiToken: '[REDACTED:key]',
+        note: 'from [REDACTED:email]',
+      });
+    });
+
+    it('should redact span tags and session names', () => {
+      const span = tracer.startSpan('llm', {
+        sessionId: 's1',
+        sessionName: 'chat with jane@example.com',
+        tags: { user: 'jane@example.com', apiToken: 'abc' },
+      });
+      tracer.endSpan(span);
+      tracer.flush();
+
+      const [written] = mockWriter.spans;
+      expect(written.session_name).toBe('chat with [REDACTED:email]');
+      expect(written.tags).toEqual({
+        user: '[REDACTED:email]',
+        apiToken: '[REDACTED:key]',
+      });
+    });
+
+    it('should hold spans back until async hashing is done', async () => {
+      tracer.configure({ redaction: { mode: 'hash' } });
+      const restore = withoutNodeCrypto();
+
+      const span = tracer.startSpan('llm');
+      span.setIO('my email is jane@example.com', 'ok');
+      tracer.endSpan(span);
+      restore();
+      await tracer.flush();
+
+      const [written] = mockWriter.spans;
+      expect(written.input_data).toMatch(/^my email is \[HASH:[0-9a-f]{16}\]$/);
+    });
+
+    it('should redact signal values', async () => {
+      const fetchMock = vi.fn(
+        async () => new Response('{"status":"success"}', { status: 200 })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      await new SignalClient(tracer).sendBulkSignals([
+        {
+          entity_type: 'trace',
+          entity_id: 't1',
+          name: 'contact',
+          value: 'jane@example.com',
+        },
+      ]);
+
+      const body = requestBody(fetchMock, '/signals/bulk');
+      expect(JSON.stringify(body)).toContain('[REDACTED:email]');
+      expect(JSON.stringify(body)).not.toContain('jane@example.com');
+    });
+
+    it('should redact trace signals before holding them back', () => {
+      tracer.recordPendingSignal({
+        entity_type: 'trace',
+        entity_id: 't1',
+        name: 'contact',
+        value: 'jane@example.com',
+      });
+
+      expect(tracer.pendingSignals.popTraceSignals('t1')).toMatchObject({
+        contact: { value: '[REDACTED:email]' },
+      });
+    });
+
+    it('should redact feedback reasons and expected output', async () => {
+      const fetchMock = vi.fn(async () => new Response('{}', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      defaultTracer.configure({ redaction: {} });
+
+      try {
+        await sendFeedback({
+          promptSlug: 'support',
+          completionId: 'c1',
+          thumbsUp: false,
+          reason: 'leaked jane@example.com',
+          expectedOutput: 'call +1 415-555-0134',
+        });
+      } finally {
+        defaultTracer.configure({ redaction: false });
+      }
+
+      const body = requestBody(fetchMock, '/feedback');
+      expect(body.reason).toBe('leaked [REDACTED:email]');
+      expect(body.expected_output).toBe('call [REDACTED:phone]');
+    });
+  });
+});
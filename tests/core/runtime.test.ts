@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from '../../src/utils/runtime';
+import { SyncContextStorage } from '../../src/observability/context';
+import { runWithSpan } from '../../src/observability/spanDecorator';
+import { createTestTracer } from '../setup';
+
+describe('Runtime support', () => {
+  describe('randomUUID', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should fall back to a v4 UUID without Web Crypto', () => {
+      vi.stubGlobal('crypto', undefined);
+
+      const id = randomUUID();
+
+      expect(id).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+      expect(randomUUID()).not.toBe(id);
+    });
+  });
+
+  describe('without AsyncLocalStorage', () => {
+    let tracer: any;
+    let mockWriter: any;
+
+    beforeEach(() => {
+      ({ tracer, mockWriter } = createTestTracer());
+      tracer._context = new SyncContextStorage();
+    });
+
+    it('should follow synchronous nesting', () => {
+      runWithSpan(tracer, { name: 'outer' }, (outer) => {
+        runWithSpan(tracer, { name: 'inner' }, (inner) => {
+          expect(inner.parentId).toBe(outer.spanId);
+        });
+      });
+    });
+
+    it('should accept an explicit parent across awaits', async () => {
+      await runWithSpan(tracer, { name: 'request' }, async (root) => {
+        await Promise.resolve();
+        runWithSpan(tracer, { name: 'llm', parent: root }, () => 'ok');
+      });
+      await tracer.flush();
+
+      const [root, child] = mockWriter.spans;
+      expect(child.parent_id).toBe(root.span_id);
+      expect(child.trace_id).toBe(root.trace_id);
+    });
+  });
+
+  describe('flushInBackground', () => {
+    it('should hand the flush to a waitUntil function or context', async () => {
+      const { tracer, mockWriter } = createTestTracer();
+      const waitUntil = vi.fn();
+      const ctx = { waitUntil: vi.fn() };
+
+      tracer.endSpan(tracer.startSpan('edge-request'));
+      tracer.flushInBackground(waitUntil);
+      tracer.flushInBackground(ctx);
+
+      await expect(waitUntil.mock.calls[0][0]).resolves.toBe(true);
+      await expect(ctx.waitUntil.mock.calls[0][0]).resolves.toBe(true);
+      expect(mockWriter.spans).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Sampler } from '../../src/observability/sampler';
+import { createTestTracer } from '../setup';
+
+describe('Sampling', () => {
+  let tracer: any;
+  let mockWriter: any;
+
+  beforeEach(() => {
+    ({ tracer, mockWriter } = createTestTracer());
+  });
+
+  describe('Sampler', () => {
+    const ctx = (name: string, tags: Record<string, string> = {}) => ({
+      traceId: '80000000-0000-4000-8000-000000000000',
+      name,
+      attributes: {},
+      tags,
+    });
+
+    it('should decide by trace id against the ratio', () => {
+      expect(new Sampler({ ratio: 0.6 }).shouldSample(ctx('a'))).toBe(true);
+      expect(new Sampler({ ratio: 0.4 }).shouldSample(ctx('a'))).toBe(false);
+    });
+
+    it('should use the first matching rule', () => {
+      const sampler = new Sampler({
+        ratio: 1,
+        rules: [
+          { name: /^health/, ratio: 0 },
+          { tags: { tier: 'free' }, ratio: 0 },
+        ],
+      });
+
+      expect(sampler.shouldSample(ctx('healthcheck'))).toBe(false);
+      expect(sampler.shouldSample(ctx('chat', { tier: 'free' }))).toBe(false);
+      expect(sampler.shouldSample(ctx('chat', { tier: 'pro' }))).toBe(true);
+    });
+
+    it('should let a custom sampler override ratio and rules', () => {
+      const sampler = new Sampler({
+        ratio: 0,
+        sampler: ({ name }) => name === 'keep',
+      });
+
+      expect(sampler.shouldSample(ctx('keep'))).toBe(true);
+      expect(sampler.shouldSample(ctx('drop'))).toBe(false);
+    });
+  });
+
+  describe('head sampling', () => {
+    it('should drop whole traces decided at the root span', async () => {
+      tracer.configure({
+        sampling: { sampler: ({ name }: { name: string }) => name !== 'noisy' },
+      });
+
+      const dropped = tracer.startSpan('noisy');
+      const child = tracer.startSpan('child');
+      tracer.endSpan(child);
+      tracer.endSpan(dropped);
+
+      const kept = tracer.startSpan('important');
+      tracer.endSpan(kept);
+
+      await tracer.flush();
+      expect(mockWriter.spans.map((s: any) => s.name)).toEqual(['important']);
+    });
+
+    it('should drop pending trace signals of dropped traces', () => {
+      tracer.configure({ sampling: { ratio: 0 } });
+
+      const root = tracer.startSpan('root');
+      tracer.pendingSignals.addTraceSignal(root.traceId, 'passed', {
+        value: true,
+        type: 'boolean',
+      });
+      tracer.endSpan(root);
+
+      expect(tracer.pendingSignals.hasTraceSignals(root.traceId)).toBe(false);
+    });
+  });
+
+  describe('tail sampling', () => {
+    it('should keep errors and slow traces and sample the rest', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.99);
+      tracer.configure({
+        sampling: { tail: { latencyThresholdMs: 50, ratio: 0.05 } },
+      });
+
+      const failed = tracer.startSpan('failed');
+      const child = tracer.startSpan('child');
+      child.setError({ message: 'boom' });
+      tracer.endSpan(child);
+      tracer.endSpan(failed);
+
+      const slow = tracer.startSpan('slow');
+      slow.end();
+      slow.endTime = slow.startTime + 100;
+      tracer.endSpan(slow);
+
+      tracer.endSpan(tracer.startSpan('fast'));
+
+      await tracer.flush();
+      expect(mockWriter.spans.map((s: any) => s.name).sort()).toEqual([
+        'child',
+        'failed',
+        'slow',
+      ]);
+      vi.restoreAllMocks();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTestTracer } from '../setup';
+
+describe('Span processors', () => {
+  let tracer: any;
+  let mockWriter: any;
+
+  beforeEach(() => {
+    ({ tracer, mockWriter } = createTestTracer());
+  });
+
+  it('should call onStart and onEnd in registration order', () => {
+    const calls: string[] = [];
+    tracer.configure({
+      spanProcessors: [
+        {
+          onStart: (s: any) => calls.push(`a:start:${s.name}`),
+          onEnd: (s: any) => void calls.push(`a:end:${s.name}`),
+        },
+        {
+          onStart: (s: any) => calls.push(`b:start:${s.name}`),
+          onEnd: (s: any) => void calls.push(`b:end:${s.name}`),
+        },
+      ],
+    });
+
+    tracer.endSpan(tracer.startSpan('work'));
+
+    expect(calls).toEqual([
+      'a:start:work',
+      'b:start:work',
+      'a:end:work',
+      'b:end:work',
+    ]);
+  });
+
+  it('should let processors mutate spans', () => {
+    tracer.configure({
+      spanProcessors: [
+        {
+          onEnd: (s: any) => {
+            s.attributes['deployment.version'] = '1.2.3';
+            delete s.attributes.internal;
+          },
+        },
+      ],
+    });
+
+    tracer.endSpan(tracer.startSpan('work', { attributes: { internal: 1 } }));
+    tracer.flush();
+
+    expect(mockWriter.spans[0].attributes).toEqual({
+      'deployment.version': '1.2.3',
+    });
+  });
+
+  it('should drop the whole trace when its root span is dropped', () => {
+    tracer.configure({
+      spanProcessors: [{ onEnd: (s: any) => s.name !== 'healthcheck' }],
+    });
+
+    const health = tracer.startSpan('healthcheck');
+    tracer.endSpan(tracer.startSpan('db'));
+    tracer.endSpan(health);
+
+    const request = tracer.startSpan('request');
+    tracer.endSpan(request);
+    tracer.flush();
+
+    expect(mockWriter.spans.map((s: any) => s.name)).toEqual(['request']);
+  });
+
+  it('should drop only the span when a child is dropped', () => {
+    tracer.configure({
+      spanProcessors: [{ onEnd: (s: any) => s.name !== 'noise' }],
+    });
+
+    const root = tracer.startSpan('root');
+    tracer.endSpan(tracer.startSpan('noise'));
+    tracer.endSpan(root);
+    tracer.flush();
+
+    expect(mockWriter.spans.map((s: any) => s.name)).toEqual(['root']);
+  });
+
+  it('should keep spans when a processor throws', () => {
+    tracer.configure({
+      spanProcessors: [
+        {
+          onEnd: () => {
+            throw new Error('bug');
+          },
+        },
+      ],
+    });
+
+    tracer.endSpan(tracer.startSpan('work'));
+    tracer.flush();
+
+    expect(mockWriter.spans).toHaveLength(1);
+  });
+
+  it('should run before redaction', () => {
+    tracer.configure({
+      redaction: {},
+      spanProcessors: [
+        {
+          onEnd: (s: any) => {
+            s.attributes.contact = 'jane@example.com';
+          },
+        },
+      ],
+    });
+
+    tracer.endSpan(tracer.startSpan('work'));
+    tracer.flush();
+
+    expect(mockWriter.spans[0].attributes.contact).toBe('[REDACTED:email]');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Spool } from '../../src/observability/spool';
+import { createTestTracer } from '../setup';
+
+function segments(dir: string): string[] {
+  return fs.readdirSync(dir).filter((f) => f.endsWith('.jsonl'));
+}
+
+describe('Spool', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zeroeval-spool-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should recover records that were never acknowledged', () => {
+    const crashed = new Spool({ directory: dir });
+    crashed.appendSpan('a', { span_id: 'a', name: 'first' });
+    crashed.appendSpan('b', { span_id: 'b', name: 'second' });
+    crashed.appendSignal('trace:t1', {
+      entity_type: 'trace',
+      entity_id: 't1',
+      name: 'passed',
+      value: true,
+      signal_type: 'boolean',
+    });
+    crashed.ack(['a']);
+
+    const recovered = new Spool({ directory: dir }).recover();
+
+    expect(recovered.spans.map((s) => s.name)).toEqual(['second']);
+    expect(recovered.signals).toHaveLength(1);
+    expect(recovered.signals[0].name).toBe('passed');
+  });
+
+  it('should skip corrupt or truncated lines', () => {
+    const crashed = new Spool({ directory: dir });
+    crashed.appendSpan('a', { span_id: 'a', name: 'intact' });
+    const [segment] = segments(dir);
+    fs.appendFileSync(path.join(dir, segment), 'not json\n{"t":"span","id"');
+
+    const recovered = new Spool({ directory: dir }).recover();
+
+    expect(recovered.spans.map((s) => s.name)).toEqual(['intact']);
+  });
+
+  it('should keep recovered records durable until acknowledged', () => {
+    new Spool({ directory: dir }).appendSpan('a', { span_id: 'a' });
+
+    const second = new Spool({ directory: dir });
+    expect(second.recover().spans).toHaveLength(1);
+    expect(new Spool({ directory: dir }).recover().spans).toHaveLength(1);
+
+    const third = new Spool({ directory: dir });
+    third.recover();
+    third.ack(['a']);
+    expect(new Spool({ directory: dir }).recover().spans).toHaveLength(0);
+  });
+
+  it('should delete fully acknowledged segments on rotation', () => {
+    const spool = new Spool({ directory: dir, maxSegmentBytes: 64 });
+    spool.appendSpan('a', { span_id: 'a', padding: 'x'.repeat(64) });
+    spool.ack(['a']);
+    spool.appendSpan('b', { span_id: 'b', padding: 'x'.repeat(64) });
+
+    expect(segments(dir)).toHaveLength(1);
+  });
+
+  it('should drop the oldest segments when over budget', () => {
+    const spool = new Spool({
+      directory: dir,
+      maxSegmentBytes: 64,
+      maxTotalBytes: 256,
+    });
+    for (let i = 0; i < 10; i++) {
+      spool.appendSpan(`s${i}`, { span_id: `s${i}`, padding: 'x'.repeat(64) });
+    }
+
+    const recovered = new Spool({ directory: dir }).recover();
+    expect(recovered.spans.length).toBeLessThan(10);
+    expect(recovered.spans.at(-1)?.span_id).toBe('s9');
+  });
+
+  describe('tracer integration', () => {
+    it('should spool ended spans and acknowledge them once flushed', async () => {
+      const { tracer, mockWriter } = createTestTracer();
+      tracer.configure({ spool: { directory: dir } });
+
+      const span = tracer.startSpan('spooled');
+      tracer.endSpan(span);
+
+      expect(new Spool({ directory: dir }).recover().spans).toHaveLength(1);
+
+      await tracer.flush();
+      expect(mockWriter.spans).toHaveLength(1);
+      expect(new Spool({ directory: dir }).recover().spans).toHaveLength(0);
+    });
+
+    it('should replay spans left behind by a previous process', async () => {
+      new Spool({ directory: dir }).appendSpan('old', {
+        span_id: 'old',
+        trace_id: 'trace-old',
+        name: 'from-before-crash',
+      });
+
+      const written: any[] = [];
+      const { tracer } = createTestTracer();
+      tracer.configure({
+        exporters: [{ write: async (spans) => void written.push(...spans) }],
+        spool: { directory: dir },
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(written.map((s) => s.name)).toEqual(['from-before-crash']);
+      expect(new Spool({ directory: dir }).recover().spans).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createFakeOpenAI, createTestTracer, MockSpanWriter } from '../setup';
+import { tracer } from '../../src/observability/Tracer';
+import { traceTool } from '../../src/observability/tools';
+import { wrapOpenAI } from '../../src/observability/integrations/openaiWrapper';
+import { ZeroEval } from '../../src/client';
+
+function toolCallCompletion(id: string) {
+  return {
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id,
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+            },
+          ],
+        },
+        finish_reason: 'tool_calls',
+      },
+    ],
+  };
+}
+
+const answer = {
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content: 'Sunny.' },
+      finish_reason: 'stop',
+    },
+  ],
+};
+
+// OpenAI client asking for get_weather as `id` once, then answering
+function createToolCallingClient(id: string) {
+  return createFakeOpenAI(
+    vi
+      .fn()
+      .mockResolvedValueOnce(toolCallCompletion(id))
+      .mockResolvedValue(answer)
+  );
+}
+
+// The conversation after the model asked for get_weather
+function followUp(id: string) {
+  return [
+    { role: 'user', content: 'Weather in Paris?' },
+    { ...toolCallCompletion(id).choices[0].message },
+    { role: 'tool', tool_call_id: id, content: 'Sunny, 24°C' },
+  ];
+}
+
+describe('Tool spans', () => {
+  let mockWriter: MockSpanWriter;
+
+  beforeEach(() => {
+    ({ mockWriter } = createTestTracer(tracer));
+  });
+
+  it('should trace tool results sent back to the model once', async () => {
+    const client = wrapOpenAI(createToolCallingClient('call_loop') as any);
+
+    const agent = tracer.startSpan('agent');
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+    });
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: followUp('call_loop'),
+    });
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [...followUp('call_loop'), { role: 'user', content: 'Thanks' }],
+    });
+    tracer.endSpan(agent);
+    await tracer.flush();
+
+    const llm = mockWriter.spans.filter((s) => s.attributes.kind === 'llm');
+    const tools = mockWriter.spans.filter((s) => s.attributes.kind === 'tool');
+    expect(llm).toHaveLength(3);
+    expect(tools).toHaveLength(1);
+    expect(tools[0]).toMatchObject({
+      name: 'get_weather',
+      parent_id: agent.spanId,
+      input_data: '{"city":"Paris"}',
+      output_data: 'Sunny, 24°C',
+      attributes: { toolCallId: 'call_loop', llmSpanId: llm[0].span_id },
+    });
+    expect(Date.parse(tools[0].start_time)).toBeGreaterThanOrEqual(
+      Date.parse(llm[0].end_time)
+    );
+  });
+
+  it('should link traceTool executions to the pending tool call', async () => {
+    const client = wrapOpenAI(createToolCallingClient('call_traced') as any);
+    const getWeather = traceTool(
+      'get_weather',
+      async (args: { city: string }) => Promise.resolve(`Sunny in ${args.city}`)
+    );
+
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+    });
+    const result = await getWeather({ city: 'Paris' });
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: followUp('call_traced'),
+    });
+    await tracer.flush();
+
+    expect(result).toBe('Sunny in Paris');
+    const tools = mockWriter.spans.filter((s) => s.attributes.kind === 'tool');
+    expect(tools).toHaveLength(1);
+    expect(tools[0]).toMatchObject({
+      name: 'get_weather',
+      input_data: '{"city":"Paris"}',
+      output_data: 'Sunny in Paris',
+      attributes: { toolName: 'get_weather', toolCallId: 'call_traced' },
+    });
+  });
+
+  it('should leave results of another client’s tool calls alone', async () => {
+    const other = new ZeroEval({
+      apiUrl: 'https://other.example',
+      processHooks: false,
+    });
+    const { mockWriter: otherWriter } = createTestTracer(other.tracer);
+    const asking = wrapOpenAI(createToolCallingClient('call_other') as any, {
+      client: other,
+    });
+    const answering = wrapOpenAI(createToolCallingClient('call_unused') as any);
+
+    await asking.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+    });
+    await answering.chat.completions.create({
+      model: 'gpt-4o',
+      messages: followUp('call_other'),
+    });
+    await tracer.flush();
+    await other.shutdown();
+
+    const tools = [...mockWriter.spans, ...otherWriter.spans].filter(
+      (s) => s.attributes.kind === 'tool'
+    );
+    expect(tools).toHaveLength(0);
+  });
+
+  it('should trace tools called outside an agent loop', () => {
+    const add = traceTool('add', (a: number, b: number) => a + b);
+
+    expect(add(1, 2)).toBe(3);
+    tracer.flush();
+
+    const [span] = mockWriter.spans;
+    expect(span.name).toBe('add');
+    expect(span.attributes).toEqual({ kind: 'tool', toolName: 'add' });
+    expect(span.input_data).toBe('[1,2]');
+    expect(span.output_data).toBe('3');
+  });
+});
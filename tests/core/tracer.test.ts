@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { createTestTracer, sleep } from '../setup';
+import { signalWriter } from '../../src/observability/signalWriter';
 
 describe('Tracer', () => {
   let tracer: any;
@@ -121,6 +122,102 @@ describe('Tracer', () => {
       // Should not have any spans
       expect(mockWriter.spans).toHaveLength(0);
     });
+
+    it('should drop spans still open when shutdown begins', async () => {
+      const root = tracer.startSpan('root');
+      const child = tracer.startSpan('child');
+      tracer.endSpan(child);
+
+      await tracer.shutdown();
+      tracer.endSpan(root);
+      await tracer.flush();
+
+      expect(mockWriter.spans).toHaveLength(0);
+      expect(tracer._buffer).toHaveLength(0);
+    });
+  });
+
+  describe('awaitable flush and shutdown', () => {
+    it('should wait for writes already in flight', async () => {
+      let release!: () => void;
+      const written: string[] = [];
+      tracer.configure({
+        exporters: [
+          {
+            write: async (spans: any[]) => {
+              await new Promise<void>((resolve) => (release = resolve));
+              written.push(...spans.map((s) => s.name));
+            },
+          },
+        ],
+      });
+
+      tracer.endSpan(tracer.startSpan('in-flight'));
+      void tracer.flush();
+
+      const done = tracer.flush();
+      release();
+      await expect(done).resolves.toBe(true);
+      expect(written).toEqual(['in-flight']);
+    });
+
+    it('should resolve to false when the timeout elapses first', async () => {
+      tracer.configure({
+        exporters: [{ write: () => new Promise<void>(() => {}) }],
+      });
+
+      tracer.endSpan(tracer.startSpan('stuck'));
+      await expect(tracer.flush({ timeoutMs: 20 })).resolves.toBe(false);
+    });
+
+    it('should send pending signals of finished traces', async () => {
+      const bulk = vi
+        .spyOn(signalWriter, 'createBulkSignals')
+        .mockResolvedValue({ status: 'success' } as any);
+
+      const span = tracer.startSpan('scored');
+      tracer.endSpan(span);
+      await tracer.flush();
+
+      tracer.recordPendingSignal({
+        entity_type: 'trace',
+        entity_id: span.traceId,
+        name: 'passed',
+        value: true,
+      });
+      await tracer.flush();
+
+      expect(bulk).toHaveBeenCalledWith([
+        expect.objectContaining({
+          entity_type: 'trace',
+          entity_id: span.traceId,
+          name: 'passed',
+        }),
+      ]);
+      bulk.mockRestore();
+    });
+
+    it('should return the same result from repeated shutdown calls', async () => {
+      tracer.endSpan(tracer.startSpan('last'));
+
+      const first = tracer.shutdown();
+      expect(tracer.shutdown()).toBe(first);
+      await expect(first).resolves.toBe(true);
+      expect(mockWriter.spans).toHaveLength(1);
+    });
+
+    it('should remove process hooks when disabled', () => {
+      const off = vi.spyOn(process, 'off');
+
+      tracer.configure({ processHooks: false });
+
+      expect(off.mock.calls.map(([event]) => event)).toEqual([
+        'beforeExit',
+        'SIGINT',
+        'SIGTERM',
+      ]);
+      off.mockRestore();
+    });
   });
 
   describe('async context management', () => {
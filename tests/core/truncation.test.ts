@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  truncateArray,
+  truncateString,
+} from '../../src/observability/truncation';
+import { createTestTracer } from '../setup';
+
+describe('Truncation', () => {
+  let tracer: any;
+  let mockWriter: any;
+
+  beforeEach(() => {
+    ({ tracer, mockWriter } = createTestTracer());
+  });
+
+  describe('truncateString', () => {
+    it('should leave values within the limit alone', () => {
+      expect(truncateString('short', 10)).toBeUndefined();
+    });
+
+    it('should keep the head by default', () => {
+      expect(truncateString('abcdefghij', 4)).toBe(
+        'abcd...[truncated 6 bytes]...'
+      );
+    });
+
+    it('should keep the tail or both ends when asked', () => {
+      expect(truncateString('abcdefghij', 4, 'tail')).toBe(
+        '...[truncated 6 bytes]...ghij'
+      );
+      expect(truncateString('abcdefghij', 4, 'both')).toBe(
+        'ab...[truncated 6 bytes]...ij'
+      );
+    });
+
+    it('should not split multi-byte characters', () => {
+      // each emoji is 4 bytes in UTF-8
+      expect(truncateString('😀😀😀', 6)).toBe('😀...[truncated 6 bytes]...');
+      // the tail starts on the last 3 bytes of a cut emoji
+      expect(truncateString('😀😀😀', 7, 'tail')).toBe(
+        '...[truncated 5 bytes]...😀'
+      );
+    });
+  });
+
+  describe('truncateArray', () => {
+    const items = ['aaaa', 'bbbb', 'cccc', 'dddd'];
+
+    it('should leave arrays within the limit alone', () => {
+      expect(truncateArray(items, 100)).toBeUndefined();
+    });
+
+    it('should keep whole elements from the kept ends', () => {
+      expect(truncateArray(items, 16)).toEqual([
+        'aaaa',
+        'bbbb',
+        '...[truncated 2 items]...',
+      ]);
+      expect(truncateArray(items, 16, 'tail')).toEqual([
+        '...[truncated 2 items]...',
+        'cccc',
+        'dddd',
+      ]);
+      expect(truncateArray(items, 16, 'both')).toEqual([
+        'aaaa',
+        '...[truncated 2 items]...',
+        'dddd',
+      ]);
+    });
+
+    it('should cut the nearest element when no whole one fits', () => {
+      expect(truncateArray(['abcdefghij', 'klm'], 6)).toEqual([
+        'abcd...[truncated 6 bytes]...',
+        '...[truncated 1 items]...',
+      ]);
+    });
+  });
+
+  describe('span limits', () => {
+    it('should truncate input, output and attributes and record it', () => {
+      tracer.configure({
+        truncation: {
+          maxInputBytes: 8,
+          maxOutputBytes: 100,
+          maxAttributeBytes: 40,
+        },
+      });
+
+      const span = tracer.startSpan('llm', {
+        attributes: {
+          messages: [
+            { role: 'user', content: 'hi' },
+            { role: 'user', content: 'a long conversation' },
+          ],
+          model: 'gpt-4o',
+        },
+      });
+      span.setIO('x'.repeat(20), 'fits');
+      tracer.endSpan(span);
+      tracer.flush();
+
+      const [written] = mockWriter.spans;
+      expect(written.input_data).toBe('xxxxxxxx...[truncated 12 bytes]...');
+      expect(written.output_data).toBe('fits');
+      expect(written.attributes.model).toBe('gpt-4o');
+      expect(written.attributes.messages).toEqual([
+        { role: 'user', content: 'hi' },
+        '...[truncated 1 items]...',
+      ]);
+      expect(written.attributes.truncated).toEqual({
+        input_data: 20,
+        'attributes.messages': 80,
+      });
+    });
+
+    it('should apply default limits unless disabled', () => {
+      const big = 'x'.repeat(300 * 1024);
+
+      const limited = tracer.startSpan('limited');
+      limited.setIO(big);
+      tracer.endSpan(limited);
+
+      tracer.configure({ truncation: false });
+      const unlimited = tracer.startSpan('unlimited');
+      unlimited.setIO(big);
+      tracer.endSpan(unlimited);
+
+      tracer.flush();
+      const byName = (name: string) =>
+        mockWriter.spans.find((s: any) => s.name === name);
+      expect(byName('limited').input_data.length).toBeLessThan(big.length);
+      expect(byName('limited').attributes.truncated).toBeDefined();
+      expect(byName('unlimited').input_data).toBe(big);
+    });
+  });
+});
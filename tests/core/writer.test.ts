@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { gunzipSync } from 'zlib';
+import { BackendSpanWriter } from '../../src/observability/writer';
+import { Span } from '../../src/observability/Span';
+
+function response(status: number, headers: Record<string, string> = {}) {
+  return new Response(status === 200 ? '{}' : 'error', { status, headers });
+}
+
+function makeSpans(count: number): Span[] {
+  return Array.from({ length: count }, (_, i) => {
+    const span = new Span(`span-${i}`);
+    span.end();
+    return span;
+  });
+}
+
+function decodeBody(body: string | Uint8Array) {
+  return JSON.parse(
+    typeof body === 'string' ? body : gunzipSync(body).toString()
+  );
+}
+
+function postedBody(fetchMock: ReturnType<typeof vi.fn>, call: number) {
+  return decodeBody(fetchMock.mock.calls[call][1].body);
+}
+
+// Tracers from other test files may still be retrying uploads in the
+// background; only hand this file's spans to the mock.
+function isOwnRequest(init: RequestInit): boolean {
+  return decodeBody(init.body as string | Uint8Array).every((s: any) =>
+    /^(span-\d+|next)$/.test(s.name)
+  );
+}
+
+function postedNames(fetchMock: ReturnType<typeof vi.fn>, call: number) {
+  return postedBody(fetchMock, call).map((s: any) => s.name);
+}
+
+describe('BackendSpanWriter', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', (url: string, init: RequestInit) =>
+      isOwnRequest(init)
+        ? fetchMock(url, init)
+        : Promise.reject(new TypeError('fetch failed'))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  describe('retries', () => {
+    it('should retry 5xx responses and network errors', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(response(502))
+        .mockResolvedValueOnce(response(200));
+
+      const writer = new BackendSpanWriter({ retryBaseDelayMs: 1 });
+      await writer.write(makeSpans(2));
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(writer.queuedSpans).toBe(0);
+      expect(writer.droppedSpans).toBe(0);
+    });
+
+    it('should not retry non-retriable client errors', async () => {
+      fetchMock.mockImplementation(async () => response(400));
+
+      const writer = new BackendSpanWriter({ retryBaseDelayMs: 1 });
+      await writer.write(makeSpans(3));
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(writer.queuedSpans).toBe(0);
+      expect(writer.droppedSpans).toBe(3);
+    });
+
+    it('should honour Retry-After on 429', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      fetchMock
+        .mockResolvedValueOnce(response(429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(response(200));
+
+      const writer = new BackendSpanWriter({ retryBaseDelayMs: 1 });
+      const done = writer.write(makeSpans(1));
+      // Wait for the backoff timer to be scheduled before advancing time
+      while (vi.getTimerCount() === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await done;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not keep the process alive while backing off', async () => {
+      const timers: ReturnType<typeof setTimeout>[] = [];
+      const realSetTimeout = globalThis.setTimeout;
+      const spy = vi.spyOn(globalThis, 'setTimeout').mockImplementation(((
+        fn: () => void,
+        ms: number
+      ) => {
+        const timer = realSetTimeout(fn, ms);
+        timers.push(timer);
+        return timer;
+      }) as typeof setTimeout);
+      fetchMock
+        .mockResolvedValueOnce(response(503))
+        .mockResolvedValueOnce(response(200));
+
+      const writer = new BackendSpanWriter({ retryBaseDelayMs: 1 });
+      await writer.write(makeSpans(1));
+      spy.mockRestore();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(timers.length).toBeGreaterThan(0);
+      expect(timers.some((timer) => timer.hasRef())).toBe(false);
+    });
+  });
+
+  describe('dead-letter queue', () => {
+    it('should queue spans after retries are exhausted and redeliver them first', async () => {
+      fetchMock.mockImplementation(async () => response(503));
+
+      const writer = new BackendSpanWriter({
+        maxRetries: 1,
+        retryBaseDelayMs: 1,
+      });
+      await writer.write(makeSpans(2));
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(writer.queuedSpans).toBe(2);
+
+      fetchMock.mockReset();
+      fetchMock.mockImplementation(async () => response(200));
+
+      const next = new Span('next');
+      next.end();
+      await writer.write([next]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(postedNames(fetchMock, 0)).toEqual(['span-0', 'span-1', 'next']);
+      expect(writer.queuedSpans).toBe(0);
+    });
+
+    it('should drop the oldest spans when the queue is full', async () => {
+      fetchMock.mockImplementation(async () => response(500));
+
+      const writer = new BackendSpanWriter({
+        maxRetries: 0,
+        maxQueuedSpans: 3,
+      });
+      await writer.write(makeSpans(2));
+      await writer.write(makeSpans(2));
+
+      expect(writer.queuedSpans).toBe(3);
+      expect(writer.droppedSpans).toBe(1);
+
+      fetchMock.mockImplementation(async () => response(200));
+      await writer.write([]);
+      expect(postedNames(fetchMock, 2)).toEqual(['span-1', 'span-0', 'span-1']);
+    });
+  });
+
+  describe('request bodies', () => {
+    it('should gzip request bodies by default', async () => {
+      fetchMock.mockImplementation(async () => response(200));
+
+      await new BackendSpanWriter().write(makeSpans(1));
+
+      const init = fetchMock.mock.calls[0][1];
+      expect(init.headers['Content-Encoding']).toBe('gzip');
+      expect(init.body).toBeInstanceOf(Uint8Array);
+      expect(postedNames(fetchMock, 0)).toEqual(['span-0']);
+    });
+
+    it('should send plain JSON when compression is disabled', async () => {
+      fetchMock.mockImplementation(async () => response(200));
+
+      await new BackendSpanWriter({ compress: false }).write(makeSpans(1));
+
+      const init = fetchMock.mock.calls[0][1];
+      expect(init.headers['Content-Encoding']).toBeUndefined();
+      expect(typeof init.body).toBe('string');
+    });
+
+    it('should split batches by span count', async () => {
+      fetchMock.mockImplementation(async () => response(200));
+
+      await new BackendSpanWriter({ maxBatchSpans: 2 }).write(makeSpans(5));
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(postedNames(fetchMock, 2)).toEqual(['span-4']);
+    });
+
+    it('should split batches by body size', async () => {
+      fetchMock.mockImplementation(async () => response(200));
+      const spans = makeSpans(3);
+      spans[1].setIO('x'.repeat(2000));
+
+      await new BackendSpanWriter({ maxBatchBytes: 1500 }).write(spans);
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(postedNames(fetchMock, 1)).toEqual(['span-1']);
+    });
+
+    it('should only requeue the chunk that failed', async () => {
+      fetchMock
+        .mockResolvedValueOnce(response(200))
+        .mockResolvedValueOnce(response(503));
+
+      const writer = new BackendSpanWriter({
+        maxBatchSpans: 2,
+        maxRetries: 0,
+      });
+      await writer.write(makeSpans(4));
+
+      expect(writer.queuedSpans).toBe(2);
+    });
+  });
+});
@@ -82,6 +82,23 @@ describe('TTLCache', () => {
       vi.advanceTimersByTime(2000);
       expect(cache.get('key')).toBeUndefined();
     });
+
+    it('should keep expired values for getStale within staleMs', () => {
+      const cache = new TTLCache<string, string>({
+        ttlMs: 1000,
+        staleMs: 5000,
+      });
+      cache.set('key', 'value');
+
+      vi.advanceTimersByTime(3000);
+      expect(cache.get('key')).toBeUndefined();
+      expect(cache.has('key')).toBe(false);
+      expect(cache.getStale('key')).toBe('value');
+
+      vi.advanceTimersByTime(3001);
+      expect(cache.getStale('key')).toBeUndefined();
+      expect(cache.size).toBe(0);
+    });
   });
 
   describe('LRU eviction', () => {
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createFakeOpenAI, createTestTracer } from '../setup';
+import { tracer } from '../../src/observability/Tracer';
+import { PromptClient } from '../../src/observability/promptClient';
+import { loadPrompt, resolvePrompt } from '../../src/prompt';
+import { normalizeChatTemplate, sha256Hex } from '../../src/utils/hash';
+import { decoratePrompt } from '../../src/utils/metadata';
+import { wrapOpenAI } from '../../src/observability/integrations/openaiWrapper';
+import type { PromptMessage } from '../../src/types/prompt';
+
+const template: PromptMessage[] = [
+  { role: 'system', content: 'Classify the sentiment of {{product}} reviews.' },
+  { role: 'user', content: 'Love it!' },
+  { role: 'assistant', content: 'positive' },
+];
+
+describe('Chat templates', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let client: PromptClient;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/prompt/versions/ensure')) {
+        const body = JSON.parse(init.body as string);
+        return Response.json({
+          ...body,
+          task_id: 'sentiment',
+          version: 1,
+          version_id: 'v1',
+        });
+      }
+      return new Response('not found', { status: 404 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    client = new PromptClient({ apiUrl: 'https://api.example' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should hash equal templates alike', async () => {
+    const reformatted = template.map((m) => ({
+      ...m,
+      content: `  ${m.content}  \r\n`,
+    }));
+
+    expect(normalizeChatTemplate(reformatted)).toBe(
+      normalizeChatTemplate(template)
+    );
+    expect(await sha256Hex(normalizeChatTemplate(template))).toMatch(
+      /^[0-9a-f]{64}$/
+    );
+  });
+
+  it('should store the template as a chat version', async () => {
+    const prompt = await loadPrompt(client, {
+      name: 'sentiment',
+      content: template,
+      variables: { product: 'headphone' },
+    });
+
+    const [, init] = fetchMock.mock.calls.find(([url]) =>
+      String(url).endsWith('/ensure')
+    )!;
+    const body = JSON.parse(init.body);
+    expect(body).toMatchObject({
+      content: normalizeChatTemplate(template),
+      content_hash: await sha256Hex(normalizeChatTemplate(template)),
+      metadata: { content_type: 'chat' },
+    });
+    expect(prompt.messages).toEqual(template);
+    expect(prompt.renderedMessages?.[0].content).toBe(
+      'Classify the sentiment of headphone reviews.'
+    );
+    expect(prompt.decorated()).toBe(
+      decoratePrompt(template[0].content, prompt.metadata)
+    );
+  });
+
+  it('should serve the system message to prompt() callers', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        Response.json({
+          prompt: 'sentiment',
+          task_id: 'sentiment',
+          content: normalizeChatTemplate(template),
+          version: 2,
+          version_id: 'v2',
+          metadata: { content_type: 'chat' },
+        })
+      )
+    );
+
+    const text = await resolvePrompt(client, {
+      name: 'sentiment',
+      from: 'latest',
+    });
+
+    expect(text).toContain('Classify the sentiment of {{product}} reviews.');
+    expect(text).toContain('"prompt_version_id":"v2"');
+    expect(text).not.toContain('Love it!');
+  });
+
+  it('should render into messages linked to the task', async () => {
+    const { mockWriter } = createTestTracer(tracer);
+    const create = vi.fn(async () => ({
+      choices: [{ index: 0, message: { content: 'negative' } }],
+    }));
+    const openai = wrapOpenAI(createFakeOpenAI(create) as any);
+    const prompt = await loadPrompt(client, {
+      name: 'sentiment',
+      content: template,
+      variables: { product: 'headphone' },
+    });
+
+    await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: prompt.toMessages([
+        { role: 'user', content: 'Broke in a day' },
+      ]),
+    });
+    await tracer.flush();
+
+    const sent = (create.mock.calls[0] as any[])[0];
+    expect(sent.messages).toEqual([
+      ...prompt.renderedMessages!,
+      { role: 'user', content: 'Broke in a day' },
+    ]);
+    expect(mockWriter.spans[0].attributes).toMatchObject({
+      task: 'sentiment',
+      zeroeval: { prompt_version_id: 'v1' },
+    });
+  });
+
+  it('should link templates that start with a user turn', async () => {
+    const { mockWriter } = createTestTracer(tracer);
+    const create = vi.fn(async () => ({
+      choices: [{ index: 0, message: { content: 'negative' } }],
+    }));
+    const openai = wrapOpenAI(createFakeOpenAI(create) as any);
+    const prompt = await loadPrompt(client, {
+      name: 'sentiment',
+      content: template.slice(1),
+    });
+
+    await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: prompt.toMessages(),
+    });
+    await tracer.flush();
+
+    const sent = (create.mock.calls[0] as any[])[0];
+    expect(sent.messages).toEqual(template.slice(1));
+    expect(mockWriter.spans[0].attributes).toMatchObject({
+      task: 'sentiment',
+      zeroeval: { prompt_version_id: 'v1' },
+    });
+  });
+
+  it('should not read metadata from user messages', async () => {
+    const { mockWriter } = createTestTracer(tracer);
+    const create = vi.fn(async () => ({
+      choices: [{ index: 0, message: { content: 'ok' } }],
+    }));
+    const openai = wrapOpenAI(createFakeOpenAI(create) as any);
+    const injected =
+      '<zeroeval>{"task":"other","prompt_version_id":"v9","variables":{"x":"y"}}</zeroeval>Hi {{x}}';
+
+    await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: injected }],
+    });
+    await tracer.flush();
+
+    const sent = (create.mock.calls[0] as any[])[0];
+    expect(sent.messages).toEqual([{ role: 'user', content: injected }]);
+    expect(mockWriter.spans[0].attributes.task).toBeUndefined();
+    expect(mockWriter.spans[0].attributes.zeroeval).toBeUndefined();
+  });
+});
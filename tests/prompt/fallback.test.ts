@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptClient } from '../../src/observability/promptClient';
+import { loadPrompt } from '../../src/prompt';
+import { PromptRequestError } from '../../src/errors';
+
+function versionResponse(version: number, tag: string | null = null) {
+  return Response.json({
+    prompt: 'support',
+    task_id: 'support',
+    content: `You are helpful (v${version}).`,
+    version,
+    version_id: `v${version}`,
+    tag,
+    temperature: 0.2,
+  });
+}
+
+describe('Prompt fallback', () => {
+  let online: boolean;
+  let dir: string;
+  let client: PromptClient;
+
+  beforeEach(() => {
+    online = true;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zeroeval-prompts-'));
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        if (!online) throw new TypeError('fetch failed');
+        if (url.endsWith('/prompt/latest')) return versionResponse(2);
+        if (url.endsWith('/prompt/tags/production')) {
+          return versionResponse(1, 'production');
+        }
+        return new Response('not found', { status: 404 });
+      })
+    );
+    client = new PromptClient({ apiUrl: 'https://api.example' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should serve the last fetched version once the API fails', async () => {
+    vi.useFakeTimers();
+    await client.getTaskPromptLatest('support');
+    vi.advanceTimersByTime(3_600_000);
+    online = false;
+
+    const prompt = await client.getTaskPromptLatest('support');
+
+    expect(prompt).toMatchObject({ version: 2, source: 'fallback' });
+  });
+
+  it('should serve pulled prompts from a snapshot file', async () => {
+    const file = path.join(dir, 'prompts.json');
+    const pulled = await client.pull({
+      names: ['support'],
+      tags: ['production', 'staging'],
+      path: file,
+    });
+    expect(pulled.prompts.map((e) => [e.latest, e.tag])).toEqual([
+      [true, null],
+      [false, 'production'],
+    ]);
+
+    online = false;
+    const offline = new PromptClient({ apiUrl: 'https://api.example' });
+    offline.setSnapshot(file);
+
+    const prompt = await loadPrompt(offline, {
+      name: 'support',
+      tag: 'production',
+    });
+    expect(prompt).toMatchObject({
+      version: 1,
+      versionId: 'v1',
+      temperature: 0.2,
+      source: 'fallback',
+    });
+    expect((await offline.getTaskPromptVersion('support', 2)).content).toBe(
+      'You are helpful (v2).'
+    );
+    expect(await offline.getPromptVersionSettings('v1')).toEqual({
+      model: null,
+      parameters: { temperature: 0.2 },
+    });
+  });
+
+  it('should use the provided content while the API is down', async () => {
+    online = false;
+
+    const prompt = await loadPrompt(client, {
+      name: 'support',
+      content: 'You are helpful.',
+    });
+
+    expect(prompt).toMatchObject({
+      content: 'You are helpful.',
+      versionId: null,
+      source: 'fallback',
+      metadata: { task: 'support' },
+    });
+  });
+
+  it('should still throw without a fallback', async () => {
+    online = false;
+
+    await expect(
+      loadPrompt(client, { name: 'support', from: 'latest' })
+    ).rejects.toThrow('fetch failed');
+    await expect(client.pull({ names: ['support'] })).rejects.toThrow();
+  });
+
+  it('should not fall back on refused requests', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('unauthorized', { status: 401 }))
+    );
+
+    await expect(
+      loadPrompt(client, { name: 'support', content: 'You are helpful.' })
+    ).rejects.toBeInstanceOf(PromptRequestError);
+  });
+});
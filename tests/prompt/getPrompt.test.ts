@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PromptClient } from '../../src/observability/promptClient';
+import { loadPrompt, resolvePrompt } from '../../src/prompt';
+import { extractZeroEvalMetadata } from '../../src/utils/metadata';
+
+describe('getPrompt', () => {
+  let client: PromptClient;
+
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        Response.json({
+          prompt: 'support-prompt',
+          task_id: 'task-1',
+          content: 'You are a {{tone}} assistant for {{company}}.',
+          version: 4,
+          version_id: 'v4',
+          tag: 'production',
+          model_id: 'gpt-4o-mini',
+          temperature: 0.3,
+          content_hash: 'abc',
+          metadata: {},
+        })
+      )
+    );
+    client = new PromptClient({ apiUrl: 'https://api.example' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return the version as a typed object', async () => {
+    const support = await loadPrompt(client, {
+      name: 'support',
+      tag: 'production',
+      variables: { tone: 'friendly' },
+    });
+
+    expect(support).toMatchObject({
+      name: 'support',
+      content: 'You are a {{tone}} assistant for {{company}}.',
+      renderedContent: 'You are a friendly assistant for {{company}}.',
+      version: 4,
+      versionId: 'v4',
+      tag: 'production',
+      model: 'zeroeval/gpt-4o-mini',
+      temperature: 0.3,
+      source: 'server',
+      metadata: {
+        task: 'task-1',
+        prompt_slug: 'support-prompt',
+        prompt_version: 4,
+        prompt_version_id: 'v4',
+        content_hash: 'abc',
+        variables: { tone: 'friendly' },
+      },
+    });
+  });
+
+  it('should render more variables into a new prompt', async () => {
+    const support = await loadPrompt(client, {
+      name: 'support',
+      from: 'latest',
+      variables: { tone: 'friendly' },
+    });
+    const rendered = support.render({ company: 'Acme' });
+
+    expect(rendered.renderedContent).toBe(
+      'You are a friendly assistant for Acme.'
+    );
+    expect(rendered.metadata.variables).toEqual({
+      tone: 'friendly',
+      company: 'Acme',
+    });
+    expect(support.metadata.variables).toEqual({ tone: 'friendly' });
+  });
+
+  it('should decorate like prompt() and build messages', async () => {
+    const options = { name: 'support', from: 'latest' };
+    const support = await loadPrompt(client, options);
+
+    expect(support.decorated()).toBe(await resolvePrompt(client, options));
+    const [system, user] = support.toMessages([
+      { role: 'user', content: 'Hi' },
+    ]);
+    expect(system.role).toBe('system');
+    expect(extractZeroEvalMetadata(system.content).metadata).toEqual(
+      support.metadata
+    );
+    expect(user).toEqual({ role: 'user', content: 'Hi' });
+  });
+});
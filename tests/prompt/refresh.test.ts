@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PromptClient } from '../../src/observability/promptClient';
+import type { Prompt } from '../../src/types/prompt';
+
+function promptCalls(fetchMock: ReturnType<typeof vi.fn>) {
+  return fetchMock.mock.calls.filter(([url]) =>
+    String(url).startsWith('https://api.example')
+  ) as [string, RequestInit][];
+}
+
+function versionResponse(version: number) {
+  return Response.json(
+    {
+      prompt: 'support',
+      task_id: 'support',
+      content: `You are helpful (v${version}).`,
+      version,
+      version_id: `v${version}`,
+    },
+    { headers: { ETag: `"v${version}"` } }
+  );
+}
+
+describe('Prompt refresh', () => {
+  let live: number;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let client: PromptClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    live = 1;
+    fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>;
+      if (headers['If-None-Match'] === `"v${live}"`) {
+        return new Response(null, { status: 304 });
+      }
+      return versionResponse(live);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    client = new PromptClient({ apiUrl: 'https://api.example' });
+  });
+
+  afterEach(() => {
+    client.close();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should serve an expired prompt while refreshing it', async () => {
+    await client.getTaskPromptLatest('support');
+    live = 2;
+    vi.advanceTimersByTime(61_000);
+
+    const stale = await client.getTaskPromptLatest('support');
+    expect(stale.version).toBe(1);
+    await vi.waitFor(async () =>
+      expect((await client.getTaskPromptLatest('support')).version).toBe(2)
+    );
+    expect(promptCalls(fetchMock)).toHaveLength(2);
+  });
+
+  it('should revalidate with the ETag', async () => {
+    await client.getTaskPromptLatest('support');
+    vi.advanceTimersByTime(3_600_000);
+
+    const prompt = await client.getTaskPromptLatest('support');
+
+    expect(prompt).toMatchObject({ version: 1, source: 'server' });
+    const headers = promptCalls(fetchMock)[1][1].headers as Record<
+      string,
+      string
+    >;
+    expect(headers['If-None-Match']).toBe('"v1"');
+  });
+
+  it('should notify subscribers of new versions', async () => {
+    const changes: Array<[Prompt, Prompt]> = [];
+    const unsubscribe = client.onPromptChange('support', (prompt, previous) =>
+      changes.push([prompt, previous])
+    );
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(changes).toEqual([]);
+
+    live = 2;
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(changes.map(([p, prev]) => [p.version, prev.version])).toEqual([
+      [2, 1],
+    ]);
+    expect((await client.getTaskPromptLatest('support')).version).toBe(2);
+
+    unsubscribe();
+    live = 3;
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(changes).toHaveLength(1);
+  });
+});
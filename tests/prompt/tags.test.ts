@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PromptClient } from '../../src/observability/promptClient';
+import { resolvePrompt } from '../../src/prompt';
+import { PromptNotFoundError } from '../../src/errors';
+import { extractZeroEvalMetadata } from '../../src/utils/metadata';
+
+function versionResponse(version: number, tag: string | null = null) {
+  return Response.json({
+    prompt: 'support',
+    task_id: 'support',
+    content: `You are helpful (v${version}).`,
+    version,
+    version_id: `v${version}`,
+    tag,
+  });
+}
+
+describe('Prompt tags and versions', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let client: PromptClient;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith('/prompt/tags/production')) {
+        return versionResponse(7, 'production');
+      }
+      if (url.endsWith('/prompt/versions/3')) return versionResponse(3);
+      if (url.endsWith('/prompt/versions/ensure')) return versionResponse(1);
+      return new Response('not found', { status: 404 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    client = new PromptClient({ apiUrl: 'https://api.example' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should fetch the version a tag points at', async () => {
+    const decorated = await resolvePrompt(client, {
+      name: 'support',
+      tag: 'production',
+    });
+
+    const { metadata, cleanContent } = extractZeroEvalMetadata(decorated);
+    expect(cleanContent).toBe('You are helpful (v7).');
+    expect(metadata).toMatchObject({
+      prompt_version: 7,
+      prompt_version_id: 'v7',
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.example/v1/tasks/support/prompt/tags/production',
+      expect.anything()
+    );
+  });
+
+  it('should pin a version by number, from cache once fetched', async () => {
+    await resolvePrompt(client, { name: 'support', version: 3 });
+    const prompt = await client.getTaskPromptVersion('support', 3);
+
+    expect(prompt.version).toBe(3);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw a not found error naming the missing tag', async () => {
+    const error = await resolvePrompt(client, {
+      name: 'support',
+      tag: 'staging',
+    }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(PromptNotFoundError);
+    expect((error as PromptNotFoundError).tag).toBe('staging');
+  });
+
+  it('should fall back to content when the tag does not exist', async () => {
+    const decorated = await resolvePrompt(client, {
+      name: 'support',
+      tag: 'staging',
+      content: 'You are helpful.',
+    });
+
+    expect(extractZeroEvalMetadata(decorated).metadata?.prompt_version).toBe(1);
+  });
+
+  it('should reject conflicting or invalid selectors', async () => {
+    await expect(
+      resolvePrompt(client, { name: 'support', from: 'latest', tag: 'a' })
+    ).rejects.toThrow('"from" cannot be combined');
+    await expect(
+      resolvePrompt(client, { name: 'support', tag: 'a', version: 2 })
+    ).rejects.toThrow('cannot be combined');
+    await expect(
+      resolvePrompt(client, { name: 'support', version: 1.5 })
+    ).rejects.toThrow('positive integer');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,4 @@
-import { vi } from 'vitest';
+import { vi, type Mock } from 'vitest';
 import { Tracer } from '../src/observability/Tracer';
 import type { Span } from '../src/observability/Span';
 import type { SpanWriter } from '../src/observability/writer';
@@ -16,11 +16,9 @@ export class MockSpanWriter implements SpanWriter {
   }
 }
 
-// Helper to create a fresh tracer instance for each test
-export function createTestTracer() {
-  // Create a new instance
-  const tracer = new Tracer();
-
+// Helper to create a fresh tracer instance for each test, or to capture the
+// spans of an existing one such as the default tracer the wrappers use
+export function createTestTracer(tracer = new Tracer()) {
   // Replace writer with mock
   const mockWriter = new MockSpanWriter();
   (tracer as any)._writer = mockWriter;
@@ -35,6 +33,22 @@ export function createTestTracer() {
   return { tracer, mockWriter };
 }
 
+// Minimal OpenAI client for wrapOpenAI, with `create` serving chat completions
+export function createFakeOpenAI(create: Mock = vi.fn()) {
+  return {
+    chat: { completions: { create } },
+    embeddings: { create: vi.fn() },
+    responses: { create: vi.fn(), stream: vi.fn() },
+  };
+}
+
+// Minimal Anthropic client for wrapAnthropic, with `create` serving messages
+export function createFakeAnthropic(create: Mock = vi.fn()) {
+  return {
+    messages: { create, stream: vi.fn(), countTokens: vi.fn() },
+  };
+}
+
 // Global test utilities
 export const sleep = (ms: number) =>
   new Promise((resolve) => setTimeout(resolve, ms));
@@ -1,7 +1,10 @@
 import { vi } from 'vitest';
+// Provide Node built-ins to the SDK the way the published Node entry does
+import './src/node';
 
 // Mock the integration utils to prevent dynamic imports of optional dependencies
-vi.mock('./src/observability/integrations/utils', () => ({
+vi.mock('./src/observability/integrations/utils', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
   discoverIntegrations: vi.fn().mockResolvedValue({}),
 }));
 